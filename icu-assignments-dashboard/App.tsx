@@ -1,138 +1,290 @@
-import { useState, useEffect, useMemo, FC, ReactNode } from 'react';
+import { useState, useEffect, useMemo, useRef, FC, ReactNode } from 'react';
 import { AssignmentGrid } from './components/AssignmentGrid';
-import { readDocxFile, parseRosterFromHtml } from './services/docProcessor';
-import { Roster, NurseStats } from './types';
+import { ViolationsPanel } from './components/ViolationsPanel';
+import { SuggestionPanel } from './components/SuggestionPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { Roster, RosterVersion, NurseStats, ShiftView, UnitConfig, AcuityTable, NurseAliasTable, StaffMember, StaffRole, DateRangeSelection } from './types';
 import { Dashboard } from './components/Dashboard';
-import { calculateNurseStats, calculateSummaryStats, processBatchRosters } from './services/statsService';
-import { exportNursesToCsv } from './services/exportService';
-import { FileTextIcon, BriefcaseIcon, TrashIcon } from './components/icons';
+import { UnitSettings } from './components/UnitSettings';
+import { AcuitySettings } from './components/AcuitySettings';
+import { StaffDirectory } from './components/StaffDirectory';
+import { PrintPreview, PrintShift } from './components/PrintPreview';
+import { BackupRestore, RestoredData } from './components/BackupRestore';
+import { ImportReview } from './components/ImportReview';
+import { RosterVersions } from './components/RosterVersions';
+import { summarizeRosters } from './services/statsService';
+import { exportNursesToCsv, exportRosterToDocx } from './services/exportService';
+import { DEFAULT_UNIT_CONFIG, createBlankAssignments, alignRosterToUnit } from './services/unitConfigService';
+import { DEFAULT_ACUITY_TABLE } from './services/acuityService';
+import { DEFAULT_VALIDATION_OPTIONS, validateRoster } from './services/validationService';
+import { buildContinuitySuggestions } from './services/continuityService';
+import { DEFAULT_DATE_RANGE_SELECTION, resolveDateRanges, filterRostersByRange } from './services/dateRangeService';
+import { buildDailyTrends } from './services/trendService';
+import { createRosterTeams, filterRosterToTeam, listTeamNames, summarizeTeams } from './services/teamService';
+import { loadAppData, saveLiveRoster, saveSetting, syncHistoricalRosters, saveRosterVersions, deleteRosterVersions } from './services/storageService';
+import { StagedImport, stageImportFiles, resolveStagedImports } from './services/importService';
+import { rollbackToVersion } from './services/versionService';
+import { resolveNurseName, mergeNurseNames, removeNurseAlias } from './services/nurseIdentityService';
+import { NURSING_ROLES, buildStaffIndex, findStaffMember, staffNamesForRoles } from './services/staffService';
+import { EMPTY_HISTORY, RosterHistory, RosterHistoryEntry, recordChange, undo, redo, canUndo, canRedo } from './services/historyService';
+import { FileTextIcon, BriefcaseIcon, TrashIcon, SettingsIcon, DownloadIcon, PrinterIcon, UsersIcon, UndoIcon, RedoIcon } from './components/icons';
 
-type View = 'roster' | 'dashboard';
-type SortByType = 'name' | 'patients';
+type View = 'roster' | 'dashboard' | 'settings' | 'print';
+type SortByType = 'name' | 'patients' | 'acuity';
 type AssignmentFilterType = 'isTriple' | 'isOneToOne' | 'isFloat';
+type RoleFilterType = StaffRole | 'unlisted' | '';
 
-const createBlankRoster = (): Roster => {
+const createBlankRoster = (unitConfig: UnitConfig): Roster => {
   return {
     date: new Date().toLocaleDateString('en-CA'), // YYYY-MM-DD format
-    pctsDay: '#7520: 501-516\n#7521: 517-532',
-    pctsNight: '#7520: 501-516\n#7521: 517-532',
-    chargeNurses: { day: '#7501', night: '#7501' },
-    assignments: Array.from({ length: 32 }, (_, i) => ({
-      room: (501 + i).toString(),
-      prec: '',
-      patient: '',
-      mrn: '',
-      status: '',
-      rnDay: '',
-      extDay: '',
-      rnNight: '',
-      extNight: '',
-    })),
+    pctsDay: unitConfig.defaultPcts,
+    pctsNight: unitConfig.defaultPcts,
+    chargeNurses: { day: unitConfig.defaultChargeNurse, night: unitConfig.defaultChargeNurse },
+    assignments: createBlankAssignments(unitConfig),
     floats: {
       day: [],
       night: [],
     },
-    respiratory: [],
+    respiratory: { day: [], night: [] },
+    teams: createRosterTeams(unitConfig),
   };
 };
 
 function App() {
-  const [liveRoster, setLiveRoster] = useState<Roster>(createBlankRoster());
+  const [unitConfig, setUnitConfig] = useState<UnitConfig>(DEFAULT_UNIT_CONFIG);
+  const [acuityTable, setAcuityTable] = useState<AcuityTable>(DEFAULT_ACUITY_TABLE);
+  const [nurseAliases, setNurseAliases] = useState<NurseAliasTable>({});
+  const [dismissedNurseMerges, setDismissedNurseMerges] = useState<string[]>([]);
+  const [staffDirectory, setStaffDirectory] = useState<StaffMember[]>([]);
+  const [liveRoster, setLiveRoster] = useState<Roster>(createBlankRoster(DEFAULT_UNIT_CONFIG));
   const [historicalRosters, setHistoricalRosters] = useState<Roster[]>([]);
+  const [rosterVersions, setRosterVersions] = useState<RosterVersion[]>([]);
+  const [rosterHistory, setRosterHistory] = useState<RosterHistory>(EMPTY_HISTORY);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const persistedRostersRef = useRef<Roster[]>([]);
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [view, setView] = useState<View>('roster');
+  const [printShift, setPrintShift] = useState<PrintShift>('both');
+  const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [stagedImports, setStagedImports] = useState<StagedImport[] | null>(null);
 
   // Dashboard Filter State
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<SortByType>('name');
   const [assignmentFilters, setAssignmentFilters] = useState<Set<AssignmentFilterType>>(new Set());
   const [chargeNurseFilter, setChargeNurseFilter] = useState('');
+  const [roleFilter, setRoleFilter] = useState<RoleFilterType>('');
+  const [teamFilter, setTeamFilter] = useState('');
+  const [groupByRole, setGroupByRole] = useState(false);
+  const [shiftView, setShiftView] = useState<ShiftView>('combined');
+  const [dateRangeSelection, setDateRangeSelection] = useState<DateRangeSelection>(DEFAULT_DATE_RANGE_SELECTION);
 
-  // Load initial data from localStorage
+  // Load saved data from IndexedDB, migrating any localStorage data on first run.
+  // Nothing is written back until loading succeeds, so a failed load never overwrites saved data.
   useEffect(() => {
-    try {
-      const savedLiveRoster = localStorage.getItem('icuLiveRoster');
-      if (savedLiveRoster) {
-        setLiveRoster(JSON.parse(savedLiveRoster));
-      } else {
-        setLiveRoster(createBlankRoster());
-      }
-      
-      const savedHistoricalRosters = localStorage.getItem('icuHistoricalRosters');
-      if (savedHistoricalRosters) {
-        setHistoricalRosters(JSON.parse(savedHistoricalRosters));
-      }
-    } catch (e) {
-      console.error("Failed to load data from localStorage", e);
-      localStorage.clear();
-      setLiveRoster(createBlankRoster());
-      setHistoricalRosters([]);
-    }
+    loadAppData()
+      .then(data => {
+        const loadedUnitConfig = data.unitConfig ?? DEFAULT_UNIT_CONFIG;
+        setUnitConfig(loadedUnitConfig);
+        if (data.acuityTable) setAcuityTable(data.acuityTable);
+        if (data.nurseAliases) setNurseAliases(data.nurseAliases);
+        if (data.dismissedNurseMerges) setDismissedNurseMerges(data.dismissedNurseMerges);
+        if (data.staffDirectory) setStaffDirectory(data.staffDirectory);
+        setLiveRoster(data.liveRoster ?? createBlankRoster(loadedUnitConfig));
+        persistedRostersRef.current = data.historicalRosters;
+        setHistoricalRosters(data.historicalRosters);
+        setRosterVersions(data.rosterVersions);
+        if (data.warnings.length > 0) setError(data.warnings.join(' '));
+        setIsStorageReady(true);
+      })
+      .catch((e: Error) => {
+        console.error("Failed to load saved data", e);
+        setError(`Saved data could not be loaded: ${e.message}. Changes will not be saved until the app is reloaded.`);
+      });
   }, []);
 
-  // Persist data to localStorage
+  const reportSaveError = (what: string) => (e: Error) => {
+    console.error(`Failed to save ${what}`, e);
+    setError(`Failed to save ${what}: ${e.message}`);
+  };
+
+  // Persist data to IndexedDB
   useEffect(() => {
-    try {
-      localStorage.setItem('icuLiveRoster', JSON.stringify(liveRoster));
-    } catch (e) {
-      console.error("Failed to save live roster to localStorage", e);
-    }
-  }, [liveRoster]);
+    if (!isStorageReady) return;
+    saveSetting('unitConfig', unitConfig).catch(reportSaveError('unit configuration'));
+  }, [unitConfig, isStorageReady]);
 
   useEffect(() => {
-    try {
-      localStorage.setItem('icuHistoricalRosters', JSON.stringify(historicalRosters));
-    } catch (e) {
-      console.error("Failed to save historical rosters to localStorage", e);
-    }
-  }, [historicalRosters]);
+    if (!isStorageReady) return;
+    saveSetting('acuityTable', acuityTable).catch(reportSaveError('acuity table'));
+  }, [acuityTable, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSetting('nurseAliases', nurseAliases).catch(reportSaveError('nurse aliases'));
+  }, [nurseAliases, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSetting('dismissedNurseMerges', dismissedNurseMerges).catch(reportSaveError('dismissed nurse merges'));
+  }, [dismissedNurseMerges, isStorageReady]);
 
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveSetting('staffDirectory', staffDirectory).catch(reportSaveError('staff directory'));
+  }, [staffDirectory, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    saveLiveRoster(liveRoster).catch(reportSaveError('live roster'));
+  }, [liveRoster, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const previous = persistedRostersRef.current;
+    persistedRostersRef.current = historicalRosters;
+    syncHistoricalRosters(previous, historicalRosters).catch((e: Error) => {
+      // Diff against the last saved state again next time so nothing is skipped.
+      persistedRostersRef.current = previous;
+      reportSaveError('historical rosters')(e);
+    });
+  }, [historicalRosters, isStorageReady]);
+
+  // Uploaded files are parsed into a review list; nothing reaches history until committed.
   const handleFilesProcessing = async (files: File[]) => {
     setIsLoading(true);
     setError(null);
     try {
-      const parsedRosters = await Promise.all(
-        files.map(async (file) => {
-          const htmlContent = await readDocxFile(file);
-          const roster = parseRosterFromHtml(htmlContent);
-          if (!roster.date) {
-            // Fallback to filename for date
-            roster.date = file.name.replace('.docx', '').split(' ')[0] || new Date().toLocaleDateString('en-CA');
-          }
-          return roster;
-        })
-      );
-      
-      setHistoricalRosters((prevRosters: Roster[]) => {
-        const newRostersMap = new Map(prevRosters.map((r: Roster) => [r.date, r]));
-        parsedRosters.forEach((r: Roster) => {
-            newRostersMap.set(r.date, r); // Add or update based on date
-        });
-        return Array.from(newRostersMap.values()).sort((a: Roster, b: Roster) => b.date.localeCompare(a.date));
-      });
-      
+      const staged = await stageImportFiles(files, unitConfig);
+      setStagedImports(prev => [...(prev ?? []), ...staged]);
     } catch (err: any) {
       setError(`Error processing files: ${err.message}. Please check file formats.`);
     } finally {
       setIsLoading(false);
     }
   };
+
+  // Stored rosters replaced by an import are archived first so they can be rolled back.
+  const handleCommitImports = () => {
+    if (!stagedImports) return;
+    const { rosters: parsedRosters, versions } = resolveStagedImports(stagedImports, historicalRosters);
+    saveRosterVersions(versions).catch(reportSaveError('earlier roster versions'));
+    setRosterVersions(prev => [...versions, ...prev]);
+    setHistoricalRosters((prevRosters: Roster[]) => {
+      const newRostersMap = new Map(prevRosters.map((r: Roster) => [r.date, r]));
+      parsedRosters.forEach((r: Roster) => {
+          newRostersMap.set(r.date, r); // Add or update based on date
+      });
+      return Array.from(newRostersMap.values()).sort((a: Roster, b: Roster) => b.date.localeCompare(a.date));
+    });
+    setStagedImports(null);
+  };
   
-  const handleLiveRosterChange = (updatedRoster: Roster) => {
+  // Every edit to the live roster goes through here so it can be undone.
+  const handleLiveRosterChange = (updatedRoster: Roster, description?: string) => {
+    setRosterHistory((prev: RosterHistory) => recordChange(prev, liveRoster, updatedRoster, description));
     setLiveRoster(updatedRoster);
   };
 
+  const handleUndo = () => {
+    const result = undo(rosterHistory);
+    if (result) {
+      setRosterHistory(result.history);
+      setLiveRoster(result.roster);
+    }
+  };
+
+  const handleRedo = () => {
+    const result = redo(rosterHistory);
+    if (result) {
+      setRosterHistory(result.history);
+      setLiveRoster(result.roster);
+    }
+  };
+
+  const handleRestoreHistoryEntry = (entry: RosterHistoryEntry) => {
+    handleLiveRosterChange(entry.before, `Restored to before: ${entry.description}`);
+  };
+
+  // Ctrl+Z / Ctrl+Y (or Cmd+Shift+Z) outside of text fields, which keep their own undo.
+  useEffect(() => {
+    if (view !== 'roster') return;
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const handleClearRoster = () => {
-      if(window.confirm('Are you sure you want to clear the entire live roster? This action cannot be undone.')) {
-          setLiveRoster(createBlankRoster());
+      if(window.confirm('Are you sure you want to clear the entire live roster? You can restore it from the edit history.')) {
+          handleLiveRosterChange(createBlankRoster(unitConfig), 'Cleared roster');
       }
   };
+
+  const handleUnitConfigSave = (config: UnitConfig) => {
+    setUnitConfig(config);
+    handleLiveRosterChange(alignRosterToUnit(liveRoster, config), 'Unit layout changed');
+  };
   
+  const handleRestoreBackup = (data: RestoredData) => {
+    setHistoricalRosters(data.historicalRosters);
+    const keptIds = new Set(data.rosterVersions.map(v => v.id));
+    saveRosterVersions(data.rosterVersions.filter(v => !rosterVersions.includes(v)))
+      .then(() => deleteRosterVersions(rosterVersions.filter(v => !keptIds.has(v.id)).map(v => v.id)))
+      .catch(reportSaveError('earlier roster versions'));
+    setRosterVersions(data.rosterVersions);
+    const settings = data.settings;
+    if (settings?.acuityTable) setAcuityTable(settings.acuityTable);
+    if (settings?.nurseAliases) setNurseAliases(settings.nurseAliases);
+    if (settings?.dismissedNurseMerges) setDismissedNurseMerges(settings.dismissedNurseMerges);
+    if (settings?.staffDirectory) setStaffDirectory(settings.staffDirectory);
+    const restoredConfig = settings?.unitConfig ?? unitConfig;
+    if (settings?.unitConfig) setUnitConfig(settings.unitConfig);
+    if (data.liveRoster || settings?.unitConfig) {
+      handleLiveRosterChange(alignRosterToUnit(data.liveRoster ?? liveRoster, restoredConfig), 'Restored from backup');
+    }
+  };
+
+  const handleRollbackVersion = (version: RosterVersion) => {
+    if (!window.confirm(`Roll back the ${version.date} roster to the version from ${new Date(version.replacedAt).toLocaleString()}?`)) return;
+    const result = rollbackToVersion(historicalRosters, version);
+    const archived = result.archived ? [result.archived] : [];
+    saveRosterVersions(archived)
+      .then(() => deleteRosterVersions([version.id]))
+      .catch(reportSaveError('earlier roster versions'));
+    setRosterVersions(prev => [...archived, ...prev.filter(v => v.id !== version.id)]);
+    setHistoricalRosters(result.historicalRosters);
+  };
+
+  const handleDeleteVersion = (version: RosterVersion) => {
+    if (!window.confirm(`Permanently delete this earlier version of the ${version.date} roster?`)) return;
+    deleteRosterVersions([version.id]).catch(reportSaveError('earlier roster versions'));
+    setRosterVersions(prev => prev.filter(v => v.id !== version.id));
+  };
+
+  const handleMergeNurses = (names: string[], canonical: string) => {
+    setNurseAliases(prev => mergeNurseNames(prev, names, canonical));
+  };
+
   const handleClearHistory = () => {
     if(window.confirm('Are you sure you want to clear ALL historical data? This action is permanent and cannot be undone.')) {
         setHistoricalRosters([]);
+        // Earlier versions belong to the history, so they go with it.
+        deleteRosterVersions(rosterVersions.map(v => v.id)).catch(reportSaveError('earlier roster versions'));
+        setRosterVersions([]);
     }
   };
 
@@ -148,53 +300,104 @@ function App() {
   const clearFilters = () => {
       setSearchTerm('');
       setChargeNurseFilter('');
+      setRoleFilter('');
+      setTeamFilter('');
       setAssignmentFilters(new Set());
   };
 
+  // Read on every render so presets such as "Last 7 days" move on after midnight.
+  const today = new Date().toLocaleDateString('en-CA');
+  const dateRanges = useMemo(() => resolveDateRanges(dateRangeSelection, today), [dateRangeSelection, today]);
+
   const dashboardData = useMemo(() => {
-    if (historicalRosters.length === 0) {
-      return { nurseStats: [], summaryStats: { totalNurses: 0, totalPatients: 0, totalTriples: 0, totalOneToOnes: 0, totalFloats: 0 }, rosterDate: 'No data', chargeNurses: { day: '', night: '' }, allChargeNursesForFilter: [] };
-    }
+    // The team filter narrows every roster to that team's rooms (and the rest of its nurses' assignments), so all stats below are per team.
+    const forTeam = (list: Roster[]) => (teamFilter ? list.map(r => filterRosterToTeam(r, teamFilter, unitConfig)) : list);
+    const rangeRosters = filterRostersByRange(historicalRosters, dateRanges.range);
+    const rosters = forTeam(rangeRosters);
+    // Stats are kept per nurse and shift; the shift toggle picks which entries to show.
+    const period = summarizeRosters(rosters, acuityTable, nurseAliases, shiftView);
+    const comparison = dateRanges.comparison
+      ? summarizeRosters(forTeam(filterRostersByRange(historicalRosters, dateRanges.comparison)), acuityTable, nurseAliases, shiftView)
+      : null;
 
-    const stats = historicalRosters.length > 1 ? processBatchRosters(historicalRosters) : calculateNurseStats(historicalRosters[0]);
-    const summary = calculateSummaryStats(stats);
-    
     const allChargeNurses = new Set<string>();
-    historicalRosters.forEach(r => {
-        if (r.chargeNurses.day) allChargeNurses.add(r.chargeNurses.day);
-        if (r.chargeNurses.night) allChargeNurses.add(r.chargeNurses.night);
+    rosters.forEach(r => {
+        if (r.chargeNurses.day && shiftView !== 'night') allChargeNurses.add(resolveNurseName(r.chargeNurses.day, nurseAliases));
+        if (r.chargeNurses.night && shiftView !== 'day') allChargeNurses.add(resolveNurseName(r.chargeNurses.night, nurseAliases));
     });
 
     return {
-        nurseStats: stats,
-        summaryStats: summary,
-        rosterDate: historicalRosters.length === 1 ? historicalRosters[0].date : `${historicalRosters.length} days`,
-        chargeNurses: historicalRosters.length === 1 ? historicalRosters[0].chargeNurses : {day: 'Multiple', night: 'Multiple'},
+        nurseStats: period.nurseStats,
+        summaryStats: period.summaryStats,
+        shiftSummaries: period.shiftSummaries,
+        comparison,
+        rosters,
+        trends: buildDailyTrends(rosters, nurseAliases),
+        rosterCount: rosters.length,
+        // Bounds of the rosters actually shown, used when every date is selected.
+        dataRange: rosters.length > 0 ? { start: rosters.reduce((min, r) => (r.date < min ? r.date : min), rosters[0].date), end: rosters.reduce((max, r) => (r.date > max ? r.date : max), rosters[0].date) } : null,
+        rosterDate: rosters.length === 0 ? 'No data' : rosters.length === 1 ? rosters[0].date : `${rosters.length} days`,
+        chargeNurses: rosters.length === 1 ? rosters[0].chargeNurses : {day: 'Multiple', night: 'Multiple'},
         allChargeNursesForFilter: Array.from(allChargeNurses).sort(),
+        allNurseNames: Array.from(new Set(period.allStats.map(n => n.name))),
+        // Every team in the date range, regardless of the team filter.
+        teamNames: listTeamNames(rangeRosters, unitConfig),
+        teamSummaries: summarizeTeams(rangeRosters, unitConfig, nurseAliases),
     };
-  }, [historicalRosters]);
+  }, [historicalRosters, acuityTable, nurseAliases, shiftView, dateRanges, teamFilter, unitConfig]);
+
+  const staffIndex = useMemo(() => buildStaffIndex(staffDirectory, nurseAliases), [staffDirectory, nurseAliases]);
+
+  // Directory entry for each nurse on the dashboard, looked up by their resolved name.
+  const staffByNurse = useMemo(() => {
+    const matches = new Map<string, StaffMember>();
+    dashboardData.allNurseNames.forEach(name => {
+      const member = findStaffMember(staffIndex, name, nurseAliases);
+      if (member) matches.set(name, member);
+    });
+    return matches;
+  }, [staffIndex, nurseAliases, dashboardData.allNurseNames]);
 
   const nursesToDisplay = useMemo(() => {
     return dashboardData.nurseStats
       .filter((nurse: NurseStats) => {
         const nameMatch = nurse.name.toLowerCase().includes(searchTerm.toLowerCase());
-        const chargeNurseMatch = !chargeNurseFilter || nurse.chargeNurse === chargeNurseFilter;
+        const chargeNurseMatch = !chargeNurseFilter || nurse.chargeNurses.includes(chargeNurseFilter);
         const assignmentMatch = assignmentFilters.size === 0 || Array.from(assignmentFilters).every(filter => nurse[filter]);
-        return nameMatch && chargeNurseMatch && assignmentMatch;
+        const role = staffByNurse.get(nurse.name)?.role ?? 'unlisted';
+        const roleMatch = !roleFilter || role === roleFilter;
+        return nameMatch && chargeNurseMatch && assignmentMatch && roleMatch;
       })
       .sort((a: NurseStats, b: NurseStats) => {
         if (sortBy === 'name') return a.name.localeCompare(b.name);
+        if (sortBy === 'acuity') return b.acuityScore - a.acuityScore;
         return b.patientCount - a.patientCount;
       });
-  }, [dashboardData.nurseStats, searchTerm, sortBy, assignmentFilters, chargeNurseFilter]);
+  }, [dashboardData.nurseStats, searchTerm, sortBy, assignmentFilters, chargeNurseFilter, roleFilter, staffByNurse]);
   
+  // Dates covered by the dashboard, as used in export file names.
+  const exportPeriod = dateRanges.range ?? dashboardData.dataRange;
+  const exportFileDate = exportPeriod
+    ? (exportPeriod.start === exportPeriod.end ? exportPeriod.start : `${exportPeriod.start}_to_${exportPeriod.end}`)
+    : dashboardData.rosterDate;
+
   const handleExport = () => {
-      exportNursesToCsv(nursesToDisplay, dashboardData.rosterDate, 'icu_dashboard_export');
+      exportNursesToCsv(nursesToDisplay, exportFileDate, `icu_dashboard_export_${shiftView}`, exportPeriod);
   };
 
+  const rosterViolations = useMemo(
+    () => validateRoster(liveRoster, DEFAULT_VALIDATION_OPTIONS, staffIndex, nurseAliases),
+    [liveRoster, staffIndex, nurseAliases],
+  );
+  const rosterContinuity = useMemo(
+    () => buildContinuitySuggestions(liveRoster, historicalRosters, nurseAliases),
+    [liveRoster, historicalRosters, nurseAliases],
+  );
+
   const availableNurses = useMemo(() => {
-    const dayNurses = new Set<string>((liveRoster.floats.day || []).filter((n: string) => n && n.trim() !== ''));
-    const nightNurses = new Set<string>((liveRoster.floats.night || []).filter((n: string) => n && n.trim() !== ''));
+    const directoryNurses = staffNamesForRoles(staffDirectory, NURSING_ROLES);
+    const dayNurses = new Set<string>([...directoryNurses, ...(liveRoster.floats.day || []).filter((n: string) => n && n.trim() !== '')]);
+    const nightNurses = new Set<string>([...directoryNurses, ...(liveRoster.floats.night || []).filter((n: string) => n && n.trim() !== '')]);
 
     for (const assignment of liveRoster.assignments) {
       if (assignment.rnDay && assignment.rnDay.trim()) dayNurses.add(assignment.rnDay.trim());
@@ -202,7 +405,7 @@ function App() {
     }
     
     return { day: Array.from(dayNurses).sort(), night: Array.from(nightNurses).sort() };
-  }, [liveRoster]);
+  }, [liveRoster, staffDirectory]);
 
 
   const NavButton: FC<{ currentView: View, targetView: View, setView: (v: View) => void, children: ReactNode }> = ({ currentView, targetView, setView, children }) => {
@@ -217,35 +420,89 @@ function App() {
   };
 
   return (
-    <div className="min-h-screen bg-gray-100 p-2 sm:p-4 lg:p-6">
+    <div className="min-h-screen bg-gray-100 p-2 sm:p-4 lg:p-6 print:bg-white print:p-0">
       <div className="max-w-[1200px] mx-auto">
-        <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4">
+        <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 gap-4 print:hidden">
           <div>
              <h1 className="text-xl font-bold text-gray-800">ICU Assignments Dashboard</h1>
              <p className="mt-1 text-sm text-gray-500">
-              {view === 'roster' ? `Manage the current day's assignments` : 'Analyze historical staffing data'}
+              {view === 'roster' ? `Manage the current day's assignments` : view === 'dashboard' ? 'Analyze historical staffing data' : view === 'print' ? 'Print the assignment sheet' : 'Configure the unit layout, acuity scoring and backups'}
             </p>
           </div>
           {view === 'roster' && (
+            <div className="flex items-center gap-2">
+              <button onClick={handleUndo} disabled={!canUndo(rosterHistory)} title="Undo (Ctrl+Z)" className="flex items-center justify-center h-[42px] px-3 rounded-md transition-colors duration-200 bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40">
+                  <UndoIcon className="w-5 h-5" />
+              </button>
+              <button onClick={handleRedo} disabled={!canRedo(rosterHistory)} title="Redo (Ctrl+Y)" className="flex items-center justify-center h-[42px] px-3 rounded-md transition-colors duration-200 bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40">
+                  <RedoIcon className="w-5 h-5" />
+              </button>
+              <button onClick={() => setIsSuggestionOpen(true)} title="Propose balanced RN assignments for a shift" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-white border border-gray-300 text-gray-700 hover:bg-gray-50">
+                  <UsersIcon className="w-5 h-5 mr-1" />
+                  <span>Suggest</span>
+              </button>
+              <button onClick={() => setView('print')} title="Open a printable assignment sheet" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">
+                  <PrinterIcon className="w-5 h-5 mr-1" />
+                  <span>Print</span>
+              </button>
+              <button onClick={() => exportRosterToDocx(liveRoster, unitConfig)} title="Export the live roster to a Word document" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-emerald-600 text-white hover:bg-emerald-700">
+                  <DownloadIcon className="w-5 h-5 mr-1" />
+                  <span>Export .docx</span>
+              </button>
               <button onClick={handleClearRoster} title="Clear the live roster" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-red-600 text-white hover:bg-red-700">
                   <TrashIcon className="w-5 h-5 mr-1" />
                   <span>Clear Roster</span>
               </button>
+            </div>
           )}
         </header>
 
-         <nav className="flex items-center gap-4 mb-4">
+         <nav className="flex items-center gap-4 mb-4 print:hidden">
             <div className="flex items-center gap-2 p-1.5 bg-gray-200/70 rounded-lg">
               <NavButton currentView={view} targetView="roster" setView={setView}><FileTextIcon className="w-5 h-5" /> Roster</NavButton>
               <NavButton currentView={view} targetView="dashboard" setView={setView}><BriefcaseIcon className="w-5 h-5" /> Dashboard</NavButton>
+              <NavButton currentView={view} targetView="settings" setView={setView}><SettingsIcon className="w-5 h-5" /> Settings</NavButton>
             </div>
         </nav>
 
         <main>
-          {error && <div className="my-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert"><p className="font-bold">An Error Occurred</p><p>{error}</p></div>}
+          {error && <div className="print:hidden my-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg" role="alert"><p className="font-bold">An Error Occurred</p><p>{error}</p></div>}
           
+          {view === 'roster' && isSuggestionOpen &&
+            <SuggestionPanel
+              roster={liveRoster}
+              unitConfig={unitConfig}
+              acuityTable={acuityTable}
+              availableNurses={availableNurses}
+              onApply={updated => handleLiveRosterChange(updated, 'Applied suggested assignments')}
+              onClose={() => setIsSuggestionOpen(false)}
+            />
+          }
+
           {view === 'roster' && liveRoster &&
-            <AssignmentGrid roster={liveRoster} onRosterChange={handleLiveRosterChange} availableDayNurses={availableNurses.day} availableNightNurses={availableNurses.night} />
+            <div className="flex flex-col xl:flex-row gap-4 items-start">
+              <div className="flex-1 min-w-0 w-full">
+                <AssignmentGrid roster={liveRoster} unitConfig={unitConfig} onRosterChange={handleLiveRosterChange} availableDayNurses={availableNurses.day} availableNightNurses={availableNurses.night} violations={rosterViolations} continuity={rosterContinuity} staffDirectory={staffDirectory} nurseAliases={nurseAliases} />
+              </div>
+              <div className="w-full xl:w-72 xl:sticky xl:top-4">
+                <ViolationsPanel violations={rosterViolations} />
+                <HistoryPanel history={rosterHistory} onRestore={handleRestoreHistoryEntry} />
+              </div>
+            </div>
+          }
+
+          {view === 'dashboard' && stagedImports &&
+            <ImportReview
+              staged={stagedImports}
+              historicalRosters={historicalRosters}
+              onChange={setStagedImports}
+              onCommit={handleCommitImports}
+              onCancel={() => setStagedImports(null)}
+            />
+          }
+
+          {view === 'dashboard' &&
+            <RosterVersions versions={rosterVersions} historicalRosters={historicalRosters} onRollback={handleRollbackVersion} onDelete={handleDeleteVersion} />
           }
 
           {view === 'dashboard' &&
@@ -254,21 +511,55 @@ function App() {
               nursesToDisplay={nursesToDisplay}
               searchTerm={searchTerm}
               onSearchTermChange={setSearchTerm}
+              shiftView={shiftView}
+              onShiftViewChange={setShiftView}
+              dateRangeSelection={dateRangeSelection}
+              onDateRangeSelectionChange={setDateRangeSelection}
+              dateRanges={dateRanges}
               sortBy={sortBy}
               onSortByChange={setSortBy}
               assignmentFilters={assignmentFilters}
               onAssignmentFilterChange={handleAssignmentFilterChange}
               chargeNurseFilter={chargeNurseFilter}
               onChargeNurseFilterChange={setChargeNurseFilter}
+              roleFilter={roleFilter}
+              onRoleFilterChange={setRoleFilter}
+              teamFilter={teamFilter}
+              onTeamFilterChange={setTeamFilter}
+              groupByRole={groupByRole}
+              onGroupByRoleChange={setGroupByRole}
+              staffByNurse={staffByNurse}
+              staffIndex={staffIndex}
               onExport={handleExport}
               onClearFilters={clearFilters}
-              isAnyFilterActive={searchTerm !== '' || chargeNurseFilter !== '' || assignmentFilters.size > 0}
+              isAnyFilterActive={searchTerm !== '' || chargeNurseFilter !== '' || roleFilter !== '' || teamFilter !== '' || assignmentFilters.size > 0}
               onFilesSelected={handleFilesProcessing}
               onClearHistory={handleClearHistory}
+              nurseAliases={nurseAliases}
+              acuityTable={acuityTable}
+              unitConfig={unitConfig}
+              exportFileDate={exportFileDate}
+              onMergeNurses={handleMergeNurses}
+              onRemoveNurseAlias={(aliasKey) => setNurseAliases(prev => removeNurseAlias(prev, aliasKey))}
+              dismissedNurseMerges={dismissedNurseMerges}
+              onDismissNurseMerge={(key) => setDismissedNurseMerges(prev => (prev.includes(key) ? prev : [...prev, key]))}
               isLoading={isLoading}
               historicalRosterCount={historicalRosters.length}
             />
           }
+
+          {view === 'print' &&
+            <PrintPreview roster={liveRoster} unitConfig={unitConfig} shift={printShift} onShiftChange={setPrintShift} onClose={() => setView('roster')} />
+          }
+
+          {view === 'settings' &&
+            <>
+              <UnitSettings unitConfig={unitConfig} onSave={handleUnitConfigSave} />
+              <AcuitySettings acuityTable={acuityTable} onSave={setAcuityTable} />
+              <StaffDirectory staffDirectory={staffDirectory} onSave={setStaffDirectory} />
+              <BackupRestore liveRoster={liveRoster} historicalRosters={historicalRosters} rosterVersions={rosterVersions} settings={{ unitConfig, acuityTable, nurseAliases, staffDirectory, dismissedNurseMerges }} onRestore={handleRestoreBackup} />
+            </>
+          }
         </main>
       </div>
     </div>
@@ -0,0 +1,115 @@
+import { useState, useEffect, FC } from 'react';
+import { AcuityRule, AcuityTable } from '../types';
+import { DEFAULT_ACUITY_TABLE } from '../services/acuityService';
+import { TrashIcon } from './icons';
+
+interface AcuitySettingsProps {
+  acuityTable: AcuityTable;
+  onSave: (table: AcuityTable) => void;
+}
+
+interface DraftRule {
+  label: string;
+  keywords: string;
+  points: string;
+}
+
+const INPUT_STYLE = 'w-full bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const toDraftRules = (rules: AcuityRule[]): DraftRule[] =>
+  rules.map(rule => ({ label: rule.label, keywords: rule.keywords.join(', '), points: String(rule.points) }));
+
+export const AcuitySettings: FC<AcuitySettingsProps> = ({ acuityTable, onSave }) => {
+  const [basePoints, setBasePoints] = useState(String(acuityTable.basePoints));
+  const [rules, setRules] = useState<DraftRule[]>(toDraftRules(acuityTable.rules));
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDraft = (table: AcuityTable) => {
+    setBasePoints(String(table.basePoints));
+    setRules(toDraftRules(table.rules));
+    setError(null);
+  };
+
+  useEffect(() => {
+    loadDraft(acuityTable);
+  }, [acuityTable]);
+
+  const updateRule = (index: number, field: keyof DraftRule, value: string) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)));
+  };
+
+  const handleSave = () => {
+    const base = Number(basePoints);
+    const parsedRules: AcuityRule[] = rules
+      .filter(rule => rule.label.trim() || rule.keywords.trim())
+      .map(rule => ({
+        label: rule.label.trim() || rule.keywords.split(',')[0].trim(),
+        keywords: rule.keywords.split(',').map(k => k.trim().toLowerCase()).filter(Boolean),
+        points: Number(rule.points),
+      }));
+
+    if (isNaN(base) || parsedRules.some(rule => isNaN(rule.points))) {
+      setError('Points must be numbers.');
+      return;
+    }
+    if (parsedRules.some(rule => rule.keywords.length === 0)) {
+      setError('Every rule needs at least one keyword.');
+      return;
+    }
+    setError(null);
+    onSave({ basePoints: base, rules: parsedRules });
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-black mt-6">
+      <h2 className="text-lg font-bold text-gray-800">Acuity Scoring</h2>
+      <p className="text-sm text-gray-500 mb-4">Each occupied bed scores the base points plus the points of every rule whose keywords appear as whole words in its STATUS, e.g. "vent" does not match "ventricular".</p>
+
+      <div className="flex items-center gap-2 mb-4">
+        <label htmlFor="acuity-base" className="text-sm text-gray-600">Base points per patient</label>
+        <input id="acuity-base" type="number" value={basePoints} onChange={(e) => setBasePoints(e.target.value)} className={`${INPUT_STYLE} w-20`} />
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-1 pr-2 w-1/4 font-medium">Label</th>
+            <th className="pb-1 pr-2 font-medium">Keywords (comma separated)</th>
+            <th className="pb-1 pr-2 w-20 font-medium">Points</th>
+            <th className="pb-1 w-10"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule, index) => (
+            <tr key={index}>
+              <td className="pr-2 py-1"><input type="text" value={rule.label} onChange={(e) => updateRule(index, 'label', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="pr-2 py-1"><input type="text" value={rule.keywords} onChange={(e) => updateRule(index, 'keywords', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="pr-2 py-1"><input type="number" value={rule.points} onChange={(e) => updateRule(index, 'points', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="py-1">
+                <button onClick={() => setRules(prev => prev.filter((_, i) => i !== index))} title="Remove rule" className="p-1 text-gray-400 hover:text-red-600">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="mt-3 text-sm text-red-700" role="alert">{error}</p>}
+
+      <div className="flex justify-between gap-2 mt-4">
+        <button onClick={() => setRules(prev => [...prev, { label: '', keywords: '', points: '1' }])} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
+          Add Rule
+        </button>
+        <div className="flex gap-2">
+          <button onClick={() => loadDraft(DEFAULT_ACUITY_TABLE)} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
+            Reset to Default
+          </button>
+          <button onClick={handleSave} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">
+            Save Scoring
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,26 @@
-import { useState, useEffect, useRef, FC, KeyboardEvent } from 'react';
-import { Roster, AssignmentRow } from '../types';
+import { useState, useEffect, useRef, useMemo, FC, KeyboardEvent } from 'react';
+import { Roster, AssignmentRow, UnitConfig, RosterTeam, RosterViolation, ViolationSeverity, StaffMember, NurseAliasTable } from '../types';
+import { getTeamDividerRooms, expandRoomRanges, formatRoomRanges } from '../services/unitConfigService';
+import { indexViolationsByCell, SEVERITY_ORDER } from '../services/validationService';
+import { RowContinuity, ContinuityCandidate, formatContinuityLabel } from '../services/continuityService';
+import { buildStaffIndex, findStaffMember, describeStaffMember, staffNamesForRoles } from '../services/staffService';
+import { EXTENSION_FORMAT_HINT } from '../services/extensionService';
+import { mapRoomCoverage, normalizeRoomLabel } from '../services/unitConfigService';
+import { getRespiratorySupport, mapRtCoverage, rtTextFor, rtListFromText } from '../services/respiratoryService';
+import { getRosterTeams } from '../services/teamService';
+import { PrecautionBadges } from './PrecautionBadges';
+import { RoomAssignmentEditor } from './RoomAssignmentEditor';
+
+// A datalist entry; the optional label is shown next to the value by the browser.
+interface CellOption {
+  value: string;
+  label?: string;
+}
 
 interface EditableCellProps {
   initialValue: string;
   onSave: (newValue: string) => void;
-  options?: string[];
+  options?: CellOption[];
   listId?: string;
   className?: string;
   placeholder?: string;
@@ -49,7 +65,7 @@ const EditableCell: FC<EditableCellProps> = ({ initialValue, onSave, options, li
       {options && listId && (
         <datalist id={listId}>
           {options.map(opt => (
-            <option key={opt} value={opt} />
+            <option key={opt.value} value={opt.value}>{opt.label}</option>
           ))}
         </datalist>
       )}
@@ -126,9 +142,15 @@ const ListEditor: FC<ListEditorProps> = ({ values, onChange }) => {
 
 interface AssignmentGridProps {
   roster: Roster;
+  unitConfig: UnitConfig;
   onRosterChange: (updatedRoster: Roster) => void;
   availableDayNurses: string[];
   availableNightNurses: string[];
+  violations: RosterViolation[];
+  continuity: RowContinuity[];
+  staffDirectory: StaffMember[];
+  // Merged nurse names, so an alias typed in a cell still finds its staff directory entry.
+  nurseAliases: NurseAliasTable;
 }
 
 const HEADER_BG = 'bg-[#e6f2e8]';
@@ -136,8 +158,89 @@ const BORDER_STYLE = 'border border-black';
 const HEADER_CELL_STYLE = `p-1 ${BORDER_STYLE} ${HEADER_BG} font-bold text-center align-middle`;
 const DATA_CELL_STYLE = `p-0 ${BORDER_STYLE} align-top`;
 
+// Nurses with recent history for the patient come first, followed by everyone else.
+// Anyone else found in the staff directory is labelled with their badge, role and credentials.
+const rankNurseOptions = (nurses: string[], candidates: ContinuityCandidate[] = [], describe: (name: string) => string | undefined = () => undefined): CellOption[] => {
+  const ranked = candidates.map(c => ({ value: c.name, label: formatContinuityLabel(c) }));
+  const rankedNames = new Set(ranked.map(o => o.value.toLowerCase()));
+  return [...ranked, ...nurses.filter(n => !rankedNames.has(n.toLowerCase())).map(value => ({ value, label: describe(value) }))];
+};
+const VIOLATION_CELL_STYLE: Record<ViolationSeverity, string> = {
+  error: 'bg-red-100 ring-2 ring-inset ring-red-500',
+  warning: 'bg-amber-100 ring-2 ring-inset ring-amber-400',
+  info: 'bg-sky-50',
+};
+
+
+// The PCT(s) covering a room, shown under the room number; one line when days and nights match.
+const RoomPcts: FC<{ day?: string[]; night?: string[] }> = ({ day = [], night = [] }) => {
+  const dayText = day.join('/');
+  const nightText = night.join('/');
+  if (!dayText && !nightText) return null;
+  return (
+    <div className="text-[9px] font-normal text-gray-600 leading-tight print:hidden" title="PCT coverage">
+      {dayText === nightText ? dayText : <>{`D ${dayText || '—'}`}<br />{`N ${nightText || '—'}`}</>}
+    </div>
+  );
+};
+
+// The RT(s) covering a room per shift, shown under a STATUS with a respiratory item such as "vent".
+const RoomRts: FC<{ status: string; day?: string[]; night?: string[] }> = ({ status, day = [], night = [] }) => {
+  const support = getRespiratorySupport(status);
+  if (support.length === 0) return null;
+  const dayText = day.join('/') || 'none';
+  const nightText = night.join('/') || 'none';
+  return (
+    <div className={`text-[9px] px-1 pb-0.5 leading-tight print:hidden ${day.length > 0 && night.length > 0 ? 'text-teal-700' : 'text-amber-700'}`} title={support.map(s => s.label).join(', ')}>
+      RT: {dayText === nightText ? dayText : `D ${dayText} · N ${nightText}`}
+    </div>
+  );
+};
 
-export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange, availableDayNurses, availableNightNurses }) => {
+// A team's own charge/resource nurse and PCT, shown under the team name in the info table.
+const TeamLeads: FC<{ team: RosterTeam }> = ({ team }) => {
+  const lines = [
+    team.chargeNurses.day && `Charge 7A: ${team.chargeNurses.day}`,
+    team.pcts.day && `PCT 7A: ${team.pcts.day}`,
+    team.chargeNurses.night && `Charge 7P: ${team.chargeNurses.night}`,
+    team.pcts.night && `PCT 7P: ${team.pcts.night}`,
+  ].filter(Boolean);
+  if (lines.length === 0) return null;
+  return <div className="text-[9px] font-normal text-gray-600 leading-tight">{lines.map(line => <div key={line as string}>{line}</div>)}</div>;
+};
+
+export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, unitConfig, onRosterChange, availableDayNurses, availableNightNurses, violations, continuity, staffDirectory, nurseAliases }) => {
+
+  const staffIndex = useMemo(() => buildStaffIndex(staffDirectory, nurseAliases), [staffDirectory, nurseAliases]);
+  const describeStaff = (name: string) => {
+    const member = findStaffMember(staffIndex, name, nurseAliases);
+    return member ? describeStaffMember(member) : undefined;
+  };
+
+  const teams = useMemo(() => getRosterTeams(roster, unitConfig), [roster, unitConfig]);
+  const teamDividerRooms = useMemo(() => getTeamDividerRooms({ ...unitConfig, teams }), [unitConfig, teams]);
+  const pctOptions = useMemo(() => staffNamesForRoles(staffDirectory, ['PCT']), [staffDirectory]);
+  const rooms = useMemo(() => roster.assignments.map(row => row.room), [roster.assignments]);
+  const pctCoverage = useMemo(() => ({
+    day: mapRoomCoverage(roster.pctsDay, rooms),
+    night: mapRoomCoverage(roster.pctsNight, rooms),
+  }), [roster.pctsDay, roster.pctsNight, rooms]);
+  const rtOptions = useMemo(() => staffNamesForRoles(staffDirectory, ['RT']), [staffDirectory]);
+  const rtCoverage = useMemo(() => ({ day: mapRtCoverage(roster, 'day'), night: mapRtCoverage(roster, 'night') }), [roster]);
+  const violationsByCell = useMemo(() => indexViolationsByCell(violations), [violations]);
+
+  // Highlights a data cell with its most severe violation and lists every message on hover.
+  // The room cell uses the header style and carries the row's PCT coverage problems.
+  const dataCellProps = (rowIndex: number, field: keyof AssignmentRow, cellStyle: string = DATA_CELL_STYLE) => {
+    const cellViolations = violationsByCell.get(`${rowIndex}:${field}`);
+    if (!cellViolations) return { className: cellStyle };
+    const worst = cellViolations.reduce((a, b) => (SEVERITY_ORDER[b.severity] < SEVERITY_ORDER[a.severity] ? b : a));
+    return {
+      className: `${cellStyle} ${VIOLATION_CELL_STYLE[worst.severity]}`,
+      title: cellViolations.map(v => v.message).join('\n'),
+    };
+  };
+  const [firstTeam, ...otherTeams] = teams;
 
   const handleCellChange = (rowIndex: number, field: keyof AssignmentRow, newValue: string) => {
     const newAssignments = [...roster.assignments];
@@ -146,7 +249,7 @@ export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange
   };
   
   const handleFieldChange = (field: keyof Roster | `chargeNurses.day` | `chargeNurses.night` | `pctsDay` | `pctsNight`, newValue: string) => {
-    const newRoster = { ...roster };
+    const newRoster = { ...roster, chargeNurses: { ...roster.chargeNurses } };
     if (field === 'chargeNurses.day') newRoster.chargeNurses.day = newValue;
     else if (field === 'chargeNurses.night') newRoster.chargeNurses.night = newValue;
     else if (field === 'pctsDay') newRoster.pctsDay = newValue;
@@ -156,23 +259,29 @@ export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange
     onRosterChange(newRoster);
   };
   
-  const handleListChange = (listName: 'respiratory' | 'floats.day' | 'floats.night', newValues: string[]) => {
-    const newRoster = {...roster};
-    if (listName === 'respiratory') newRoster.respiratory = newValues;
+  const handleListChange = (listName: 'respiratory.day' | 'respiratory.night' | 'floats.day' | 'floats.night', newValues: string[]) => {
+    const newRoster = { ...roster, floats: { ...roster.floats }, respiratory: { ...roster.respiratory } };
+    if (listName === 'respiratory.day') newRoster.respiratory.day = newValues;
+    else if (listName === 'respiratory.night') newRoster.respiratory.night = newValues;
     else if (listName === 'floats.day') newRoster.floats.day = newValues;
     else if (listName === 'floats.night') newRoster.floats.night = newValues;
     onRosterChange(newRoster);
   }
 
+  // Edits always start from the effective teams so rosters saved without teams gain them on first edit.
+  const handleTeamChange = (teamIndex: number, changes: Partial<RosterTeam>) => {
+    onRosterChange({ ...roster, teams: teams.map((team, i) => (i === teamIndex ? { ...team, ...changes } : team)) });
+  };
+
   return (
     <div className="bg-white text-black p-1 sm:p-2 border-2 border-black font-sans text-xs sm:text-sm">
-        <h1 className="text-center font-bold text-base sm:text-lg my-1">ADVENT HEALTH DAYTONA BEACH ICU</h1>
+        <h1 className="text-center font-bold text-base sm:text-lg my-1">{unitConfig.unitName}</h1>
 
         {/* Info Header */}
         <table className="w-full border-collapse border-2 border-black">
             <tbody>
                 <tr className="divide-x divide-black">
-                    <td className={`${BORDER_STYLE} w-[20%] text-center font-bold align-middle`}>TEAM A</td>
+                    <td className={`${BORDER_STYLE} w-[20%] text-center font-bold align-middle`}>{firstTeam?.name}{firstTeam && <TeamLeads team={firstTeam} />}</td>
                     <td className={`${BORDER_STYLE} row-span-2 p-1 align-top w-[55%]`}>
                         <div className="flex items-center">
                             <span className="font-bold mr-2">Date:</span>
@@ -180,7 +289,7 @@ export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange
                         </div>
                         <div className="flex items-start mt-1">
                             <span className="font-bold mr-2 mt-1">PCT's:</span>
-                            <EditableTextarea initialValue={roster.pctsDay} onSave={val => handleFieldChange('pctsDay', val)} />
+                            <RoomAssignmentEditor value={roster.pctsDay} onChange={val => handleFieldChange('pctsDay', val)} rooms={rooms} staffLabel="PCT" staffOptions={pctOptions} listId="pct-options-day" />
                         </div>
                     </td>
                     <td className={`${BORDER_STYLE} p-1 align-middle text-center`}>
@@ -188,28 +297,30 @@ export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange
                         <div className="font-bold my-1">7A-7P</div>
                         <div className="flex items-center justify-center">
                             <span className="font-bold mr-1">CHARGE NURSE:</span>
-                            <EditableCell initialValue={roster.chargeNurses.day} onSave={val => handleFieldChange('chargeNurses.day', val)} className="font-bold text-center" />
+                            <EditableCell initialValue={roster.chargeNurses.day} onSave={val => handleFieldChange('chargeNurses.day', val)} options={rankNurseOptions(availableDayNurses, [], describeStaff)} listId="charge-day-nurses" className="font-bold text-center" />
                         </div>
                     </td>
                 </tr>
-                <tr className="divide-x divide-black">
-                     <td className={`${BORDER_STYLE} text-center font-bold align-middle`}>TEAM B</td>
-                     {/* Cell 2 is spanned */}
-                     <td className={`${BORDER_STYLE} p-1 align-middle text-center`}></td>
-                </tr>
+                {otherTeams.map(team => (
+                    <tr key={team.name} className="divide-x divide-black">
+                         <td className={`${BORDER_STYLE} text-center font-bold align-middle`}>{team.name}<TeamLeads team={team} /></td>
+                         {/* Cell 2 is spanned */}
+                         <td className={`${BORDER_STYLE} p-1 align-middle text-center`}></td>
+                    </tr>
+                ))}
                 <tr className="divide-x divide-black">
                     <td className={`${BORDER_STYLE} text-center font-bold align-middle`}>NIGHT SHIFT</td>
                     <td className={`${BORDER_STYLE} p-1 align-top`}>
                         <div className="flex items-start">
                             <span className="font-bold mr-2 mt-1">PCT's:</span>
-                            <EditableTextarea initialValue={roster.pctsNight} onSave={val => handleFieldChange('pctsNight', val)} />
+                            <RoomAssignmentEditor value={roster.pctsNight} onChange={val => handleFieldChange('pctsNight', val)} rooms={rooms} staffLabel="PCT" staffOptions={pctOptions} listId="pct-options-night" />
                         </div>
                     </td>
                     <td className={`${BORDER_STYLE} p-1 align-middle text-center`}>
                         <div className="font-bold my-1">7P-7A</div>
                          <div className="flex items-center justify-center">
                             <span className="font-bold mr-1">CHARGE NURSE:</span>
-                            <EditableCell initialValue={roster.chargeNurses.night} onSave={val => handleFieldChange('chargeNurses.night', val)} className="font-bold text-center" />
+                            <EditableCell initialValue={roster.chargeNurses.night} onSave={val => handleFieldChange('chargeNurses.night', val)} options={rankNurseOptions(availableNightNurses, [], describeStaff)} listId="charge-night-nurses" className="font-bold text-center" />
                         </div>
                     </td>
                 </tr>
@@ -226,23 +337,32 @@ export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange
                     <th className={`${HEADER_CELL_STYLE} w-[10%]`}>MRN</th>
                     <th className={`${HEADER_CELL_STYLE} w-[14%]`}>STATUS</th>
                     <th className={`${HEADER_CELL_STYLE} w-[18%]`}>RN DAYS</th>
-                    <th className={`${HEADER_CELL_STYLE} w-[5%]`}>EXT</th>
+                    <th className={`${HEADER_CELL_STYLE} w-[5%]`} title={EXTENSION_FORMAT_HINT}>EXT</th>
                     <th className={`${HEADER_CELL_STYLE} w-[18%]`}>RN NIGHTS</th>
-                    <th className={`${HEADER_CELL_STYLE} w-[5%]`}>EXT</th>
+                    <th className={`${HEADER_CELL_STYLE} w-[5%]`} title={EXTENSION_FORMAT_HINT}>EXT</th>
                 </tr>
             </thead>
             <tbody>
                 {roster.assignments.map((row, rowIndex) => (
-                    <tr key={row.room} className={`h-8 ${rowIndex === 15 ? 'border-b-4 border-orange-400' : ''}`}>
-                        <td className={`${HEADER_CELL_STYLE} w-[5%]`}>{row.room}</td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.prec} onSave={v => handleCellChange(rowIndex, 'prec', v)} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.patient} onSave={v => handleCellChange(rowIndex, 'patient', v)} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.mrn} onSave={v => handleCellChange(rowIndex, 'mrn', v)} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.status} onSave={v => handleCellChange(rowIndex, 'status', v)} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.rnDay} onSave={v => handleCellChange(rowIndex, 'rnDay', v)} options={availableDayNurses} listId={`day-nurses-${row.room}`} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.extDay} onSave={v => handleCellChange(rowIndex, 'extDay', v)} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.rnNight} onSave={v => handleCellChange(rowIndex, 'rnNight', v)} options={availableNightNurses} listId={`night-nurses-${row.room}`} /></td>
-                        <td className={DATA_CELL_STYLE}><EditableCell initialValue={row.extNight} onSave={v => handleCellChange(rowIndex, 'extNight', v)} /></td>
+                    <tr key={row.room} id={`roster-row-${rowIndex}`} className={`h-8 ${teamDividerRooms.has(row.room) ? 'border-b-4 border-orange-400' : ''}`}>
+                        <td {...dataCellProps(rowIndex, 'room', `${HEADER_CELL_STYLE} w-[5%]`)}>
+                            {row.room}
+                            <RoomPcts day={pctCoverage.day.get(normalizeRoomLabel(row.room))} night={pctCoverage.night.get(normalizeRoomLabel(row.room))} />
+                        </td>
+                        <td {...dataCellProps(rowIndex, 'prec')}>
+                            <EditableCell initialValue={row.prec} onSave={v => handleCellChange(rowIndex, 'prec', v)} />
+                            <PrecautionBadges prec={row.prec} className="px-1 pb-0.5 print:hidden" />
+                        </td>
+                        <td {...dataCellProps(rowIndex, 'patient')}><EditableCell initialValue={row.patient} onSave={v => handleCellChange(rowIndex, 'patient', v)} /></td>
+                        <td {...dataCellProps(rowIndex, 'mrn')}><EditableCell initialValue={row.mrn} onSave={v => handleCellChange(rowIndex, 'mrn', v)} /></td>
+                        <td {...dataCellProps(rowIndex, 'status')}>
+                            <EditableCell initialValue={row.status} onSave={v => handleCellChange(rowIndex, 'status', v)} />
+                            {row.patient && row.patient.trim() !== '' && <RoomRts status={row.status} day={rtCoverage.day.get(normalizeRoomLabel(row.room))} night={rtCoverage.night.get(normalizeRoomLabel(row.room))} />}
+                        </td>
+                        <td {...dataCellProps(rowIndex, 'rnDay')}><EditableCell initialValue={row.rnDay} onSave={v => handleCellChange(rowIndex, 'rnDay', v)} options={rankNurseOptions(availableDayNurses, continuity[rowIndex]?.day, describeStaff)} listId={`day-nurses-${row.room}`} /></td>
+                        <td {...dataCellProps(rowIndex, 'extDay')}><EditableCell initialValue={row.extDay} onSave={v => handleCellChange(rowIndex, 'extDay', v)} /></td>
+                        <td {...dataCellProps(rowIndex, 'rnNight')}><EditableCell initialValue={row.rnNight} onSave={v => handleCellChange(rowIndex, 'rnNight', v)} options={rankNurseOptions(availableNightNurses, continuity[rowIndex]?.night, describeStaff)} listId={`night-nurses-${row.room}`} /></td>
+                        <td {...dataCellProps(rowIndex, 'extNight')}><EditableCell initialValue={row.extNight} onSave={v => handleCellChange(rowIndex, 'extNight', v)} /></td>
                     </tr>
                 ))}
             </tbody>
@@ -259,12 +379,45 @@ export const AssignmentGrid: FC<AssignmentGridProps> = ({ roster, onRosterChange
             </thead>
             <tbody>
                 <tr>
-                    <td className={DATA_CELL_STYLE}><ListEditor values={roster.respiratory} onChange={v => handleListChange('respiratory', v)} /></td>
+                    <td className={`${DATA_CELL_STYLE} p-1 text-sm`}>
+                        <div className="font-bold text-xs">7A-7P</div>
+                        <RoomAssignmentEditor value={rtTextFor(roster, 'day')} onChange={text => handleListChange('respiratory.day', rtListFromText(text))} rooms={rooms} staffLabel="RT" staffOptions={rtOptions} listId="rt-options-day" />
+                        <div className="font-bold text-xs mt-1">7P-7A</div>
+                        <RoomAssignmentEditor value={rtTextFor(roster, 'night')} onChange={text => handleListChange('respiratory.night', rtListFromText(text))} rooms={rooms} staffLabel="RT" staffOptions={rtOptions} listId="rt-options-night" />
+                    </td>
                     <td className={DATA_CELL_STYLE}><ListEditor values={roster.floats.day} onChange={v => handleListChange('floats.day', v)} /></td>
                     <td className={DATA_CELL_STYLE}><ListEditor values={roster.floats.night} onChange={v => handleListChange('floats.night', v)} /></td>
                 </tr>
             </tbody>
         </table>
+        <details className="mt-1 print:hidden">
+            {/* Cells reuse the charge nurse and PCT suggestion lists rendered above. */}
+            <summary className="cursor-pointer font-bold text-xs text-gray-700">Teams ({teams.length})</summary>
+            <table className="w-full border-collapse border-2 border-black mt-1 text-xs">
+                <thead>
+                    <tr>
+                        <th className={HEADER_CELL_STYLE}>TEAM</th>
+                        <th className={HEADER_CELL_STYLE}>ROOMS</th>
+                        <th className={HEADER_CELL_STYLE}>CHARGE / RESOURCE 7A</th>
+                        <th className={HEADER_CELL_STYLE}>PCT 7A</th>
+                        <th className={HEADER_CELL_STYLE}>CHARGE / RESOURCE 7P</th>
+                        <th className={HEADER_CELL_STYLE}>PCT 7P</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {teams.map((team, teamIndex) => (
+                        <tr key={team.name}>
+                            <td className={`${BORDER_STYLE} p-1 font-bold text-center`}>{team.name}</td>
+                            <td className={DATA_CELL_STYLE}><EditableCell initialValue={formatRoomRanges(team.rooms, rooms)} onSave={val => handleTeamChange(teamIndex, { rooms: expandRoomRanges(val, rooms) })} placeholder="501-516" /></td>
+                            <td className={DATA_CELL_STYLE}><EditableCell initialValue={team.chargeNurses.day} onSave={val => handleTeamChange(teamIndex, { chargeNurses: { ...team.chargeNurses, day: val } })} listId="charge-day-nurses" /></td>
+                            <td className={DATA_CELL_STYLE}><EditableCell initialValue={team.pcts.day} onSave={val => handleTeamChange(teamIndex, { pcts: { ...team.pcts, day: val } })} listId="pct-options-day" /></td>
+                            <td className={DATA_CELL_STYLE}><EditableCell initialValue={team.chargeNurses.night} onSave={val => handleTeamChange(teamIndex, { chargeNurses: { ...team.chargeNurses, night: val } })} listId="charge-night-nurses" /></td>
+                            <td className={DATA_CELL_STYLE}><EditableCell initialValue={team.pcts.night} onSave={val => handleTeamChange(teamIndex, { pcts: { ...team.pcts, night: val } })} listId="pct-options-night" /></td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </details>
          <div className="text-right text-gray-500 text-[10px] mt-1 pr-1">MARIBEL</div>
     </div>
   );
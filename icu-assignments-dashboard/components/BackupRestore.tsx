@@ -0,0 +1,203 @@
+import { useState, useMemo, FC, ChangeEvent } from 'react';
+import { Roster, RosterVersion } from '../types';
+import {
+  BackupFile,
+  BackupSettings,
+  BackupError,
+  RestoreMode,
+  ConflictResolution,
+  createBackup,
+  parseBackup,
+  findBackupConflicts,
+  restoreHistoricalRosters,
+  restoreRosterVersions,
+} from '../services/backupService';
+import { exportBackupToJson } from '../services/exportService';
+import { DownloadIcon, UploadCloudIcon } from './icons';
+
+export interface RestoredData {
+  historicalRosters: Roster[];
+  rosterVersions: RosterVersion[];
+  liveRoster: Roster | null;
+  // Null when settings were not selected for restore.
+  settings: BackupSettings | null;
+}
+
+interface BackupRestoreProps {
+  liveRoster: Roster;
+  historicalRosters: Roster[];
+  rosterVersions: RosterVersion[];
+  settings: BackupSettings;
+  onRestore: (data: RestoredData) => void;
+}
+
+const occupiedBeds = (roster: Roster) => roster.assignments.filter(row => row.patient.trim() !== '').length;
+
+export const BackupRestore: FC<BackupRestoreProps> = ({ liveRoster, historicalRosters, rosterVersions, settings, onRestore }) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [restoreLiveRoster, setRestoreLiveRoster] = useState(false);
+  const [restoreSettings, setRestoreSettings] = useState(false);
+
+  const conflicts = useMemo(
+    () => (backup ? findBackupConflicts(historicalRosters, backup.historicalRosters) : []),
+    [backup, historicalRosters],
+  );
+
+  const handleExport = () => {
+    exportBackupToJson(createBackup(liveRoster, historicalRosters, rosterVersions, settings));
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBackup(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setProblems([]);
+      setMode('merge');
+      setResolutions({});
+      setRestoreLiveRoster(false);
+      setRestoreSettings(false);
+    } catch (err: any) {
+      setProblems(err instanceof BackupError && err.problems.length > 0 ? [err.message, ...err.problems] : [err.message]);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm(
+      `Replace all ${historicalRosters.length} historical rosters with the ${backup.historicalRosters.length} in this backup? `
+      + `The current rosters are kept as earlier versions, but the ${rosterVersions.length} earlier versions already saved are deleted and replaced by the backup's.`,
+    )) return;
+    const restored = restoreHistoricalRosters(historicalRosters, backup.historicalRosters, mode, resolutions);
+    onRestore({
+      historicalRosters: restored.historicalRosters,
+      rosterVersions: [...restored.archived, ...restoreRosterVersions(rosterVersions, backup.rosterVersions, mode)],
+      liveRoster: restoreLiveRoster ? backup.liveRoster : null,
+      settings: restoreSettings ? backup.settings : null,
+    });
+    setBackup(null);
+  };
+
+  const newDates = backup ? backup.historicalRosters.length - conflicts.length : 0;
+  const hasSettings = backup ? Object.values(backup.settings).some(value => value !== null) : false;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-black mt-6">
+      <h2 className="text-lg font-bold text-gray-800">Backup &amp; Restore</h2>
+      <p className="text-sm text-gray-500 mb-4">Save the live roster, every historical roster and these settings to a single file, or restore from one.</p>
+
+      <div className="flex items-center gap-2">
+        <button onClick={handleExport} title="Download a backup of all data" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-emerald-600 text-white hover:bg-emerald-700">
+          <DownloadIcon className="w-5 h-5 mr-1" />
+          <span>Download Backup</span>
+        </button>
+        <label htmlFor="backup-upload" className="inline-flex items-center justify-center h-[42px] px-3 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer transition-colors duration-200">
+          <UploadCloudIcon className="w-5 h-5 mr-2 text-gray-400" />
+          <span>Restore from Backup</span>
+          <input id="backup-upload" type="file" accept=".json,application/json" className="sr-only" onChange={handleFileChange} />
+        </label>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-300 text-red-700 rounded-md text-sm" role="alert">
+          <p className="font-semibold">{problems[0]}</p>
+          {problems.length > 1 && (
+            <ul className="list-disc list-inside mt-1 max-h-40 overflow-y-auto">
+              {problems.slice(1).map((problem, i) => <li key={i}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {backup && (
+        <div className="mt-4 border-t border-gray-200 pt-4 text-sm">
+          <p className="text-gray-700">
+            Backup from <span className="font-semibold">{backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : 'an unknown date'}</span> with {backup.historicalRosters.length} historical roster{backup.historicalRosters.length !== 1 ? 's' : ''}.
+          </p>
+
+          <div className="flex items-center gap-6 mt-3">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="text-indigo-600 focus:ring-indigo-500" />
+              <span>Merge with current data</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="text-indigo-600 focus:ring-indigo-500" />
+              <span>Replace all historical rosters</span>
+            </label>
+          </div>
+
+          {mode === 'replace' ? (
+            <p className="mt-3 text-red-600">
+              All {historicalRosters.length} current historical rosters will be replaced by the backup and kept only as earlier versions.
+              The {rosterVersions.length} earlier version{rosterVersions.length !== 1 ? 's' : ''} saved now will be deleted and replaced by the backup's.
+            </p>
+          ) : (
+            <div className="mt-3">
+              <p className="text-gray-600">
+                {newDates} new date{newDates !== 1 ? 's' : ''} will be added. {conflicts.length} date{conflicts.length !== 1 ? 's are' : ' is'} already stored;
+                a current roster replaced by the backup is kept as an earlier version:
+              </p>
+              {conflicts.length > 0 && (
+                <table className="w-full mt-2">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-1 pr-2 font-medium">Date</th>
+                      <th className="pb-1 pr-2 font-medium">Current</th>
+                      <th className="pb-1 pr-2 font-medium">Backup</th>
+                      <th className="pb-1 font-medium">Keep</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {conflicts.map(conflict => (
+                      <tr key={conflict.date} className="border-t border-gray-100">
+                        <td className="py-1 pr-2 font-medium">{conflict.date}</td>
+                        <td className="py-1 pr-2 text-gray-600">{occupiedBeds(conflict.current)} patients</td>
+                        <td className="py-1 pr-2 text-gray-600">{occupiedBeds(conflict.incoming)} patients</td>
+                        <td className="py-1">
+                          {conflict.identical ? (
+                            <span className="text-gray-400">Identical</span>
+                          ) : (
+                            <select
+                              value={resolutions[conflict.date] ?? 'keep'}
+                              onChange={(e) => setResolutions(prev => ({ ...prev, [conflict.date]: e.target.value as ConflictResolution }))}
+                              className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-1 focus:ring-indigo-500"
+                            >
+                              <option value="keep">Current</option>
+                              <option value="incoming">Backup</option>
+                            </select>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2 mt-4">
+            <label className={`flex items-center gap-2 ${backup.liveRoster ? 'cursor-pointer' : 'text-gray-400'}`}>
+              <input type="checkbox" checked={restoreLiveRoster} disabled={!backup.liveRoster} onChange={(e) => setRestoreLiveRoster(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+              <span>Also restore the live roster{backup.liveRoster ? ` (${backup.liveRoster.date})` : ' (not in backup)'}</span>
+            </label>
+            <label className={`flex items-center gap-2 ${hasSettings ? 'cursor-pointer' : 'text-gray-400'}`}>
+              <input type="checkbox" checked={restoreSettings} disabled={!hasSettings} onChange={(e) => setRestoreSettings(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+              <span>Also restore settings (unit layout, acuity scoring, nurse aliases and dismissed duplicates, staff directory)</span>
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={() => setBackup(null)} className="h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">Cancel</button>
+            <button onClick={handleRestore} className="h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">Restore</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,50 @@
 import { useMemo, FC } from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LabelList } from 'recharts';
-import { NurseStats } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LabelList, Legend } from 'recharts';
+import { NurseStats, ShiftView } from '../types';
 
 interface ChartsProps {
   nurseStats: NurseStats[];
+  shiftView: ShiftView;
+  // Same nurses' stats over the comparison period, when one is selected.
+  comparisonStats: NurseStats[] | null;
 }
 
 interface ChartDataItem {
   name: string;
   count: number;
+  day: number;
+  night: number;
+  previous?: number;
 }
 
 interface CustomTooltipProps {
   active?: boolean;
-  payload?: { value: number }[];
+  payload?: { value: number; name?: string; payload?: ChartDataItem }[];
   label?: string | number;
 }
 
 const CustomTooltip: FC<CustomTooltipProps> = ({ active, payload, label }) => {
   if (active && payload && payload.length) {
+    const item = payload[0].payload;
     return (
       <div className="bg-white/80 p-3 border border-gray-300 rounded-lg backdrop-blur-sm shadow-md">
         <p className="label text-gray-700 font-semibold">{`${label}`}</p>
-        <p className="intro text-gray-600">{`Count: ${payload[0].value}`}</p>
+        {payload.length > 1
+          ? payload.map(entry => <p key={entry.name} className="intro text-gray-600">{`${entry.name}: ${entry.value}`}</p>)
+          : <p className="intro text-gray-600">{`Count: ${payload[0].value}`}</p>}
+        {item?.previous !== undefined && (
+          <p className="text-xs text-gray-500">{`Change vs comparison: ${item.count - item.previous >= 0 ? '+' : ''}${item.count - item.previous}`}</p>
+        )}
       </div>
     );
   }
   return null;
 };
 
-// Extracted ChartContent to be a stable, top-level component
-const ChartContent: FC<{data: ChartDataItem[]; dataKey: string; fillColor: string}> = ({ data, dataKey, fillColor }) => {
+// Extracted ChartContent to be a stable, top-level component.
+// When `stacked` is set the bar is split into its day and night parts.
+// With `compare` a grey bar beside each nurse shows the comparison period.
+const ChartContent: FC<{data: ChartDataItem[]; dataKey: string; fillColor: string; stacked?: boolean; compare?: boolean}> = ({ data, dataKey, fillColor, stacked, compare }) => {
     if (data.length === 0) {
       return (
         <div className="flex items-center justify-center h-full">
@@ -52,9 +66,20 @@ const ChartContent: FC<{data: ChartDataItem[]; dataKey: string; fillColor: strin
             interval={0}
           />
           <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(107, 114, 128, 0.1)' }}/>
-          <Bar dataKey={dataKey} fill={fillColor} barSize={20}>
-             <LabelList dataKey={dataKey} position="right" fill="#1f2937" fontSize={12} />
-          </Bar>
+          {(stacked || compare) && <Legend verticalAlign="top" height={24} />}
+          {stacked ? (
+            <>
+              <Bar dataKey="day" name="Day" stackId="shift" fill={fillColor} barSize={20} />
+              <Bar dataKey="night" name="Night" stackId="shift" fill="#475569" barSize={20}>
+                <LabelList dataKey={dataKey} position="right" fill="#1f2937" fontSize={12} />
+              </Bar>
+            </>
+          ) : (
+            <Bar dataKey={dataKey} name="Selected period" fill={fillColor} barSize={20}>
+               <LabelList dataKey={dataKey} position="right" fill="#1f2937" fontSize={12} />
+            </Bar>
+          )}
+          {compare && <Bar dataKey="previous" name="Comparison period" fill="#d1d5db" barSize={8} />}
         </BarChart>
       </ResponsiveContainer>
     );
@@ -66,46 +91,62 @@ const AssignmentsChart: FC<{
   title: string;
   dataKey: string;
   fillColor: string;
-}> = ({ data, title, dataKey, fillColor }) => {
+  stacked?: boolean;
+  compare?: boolean;
+}> = ({ data, title, dataKey, fillColor, stacked, compare }) => {
   return (
     <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
       <h3 className="text-lg font-semibold text-gray-800 mb-6">{title}</h3>
       <div style={{ width: '100%', height: 300 }}>
-         <ChartContent data={data} dataKey={dataKey} fillColor={fillColor} />
+         <ChartContent data={data} dataKey={dataKey} fillColor={fillColor} stacked={stacked} compare={compare} />
       </div>
     </div>
   )
 }
 
 
-export const Charts: FC<ChartsProps> = ({ nurseStats }) => {
+export const Charts: FC<ChartsProps> = ({ nurseStats, shiftView, comparisonStats }) => {
   const { patientCountData, floatData, tripleData, oneToOneData } = useMemo(() => {
+    const previousCounts = comparisonStats ? new Map(comparisonStats.map(n => [n.name, n.patientCount])) : null;
+    const toChartItem = (n: NurseStats): ChartDataItem => ({
+      name: n.name,
+      count: n.patientCount,
+      day: n.patientCountsByShift.day,
+      night: n.patientCountsByShift.night,
+      previous: previousCounts ? previousCounts.get(n.name) ?? 0 : undefined,
+    });
+
     const patientCountData = nurseStats
       .filter(n => n.patientCount > 0)
-      .map(n => ({ name: n.name, count: n.patientCount }))
+      .map(toChartItem)
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
 
     const floatData = nurseStats
       .filter(n => n.isFloat)
-      .map(n => ({ name: n.name, count: n.patientCount }))
+      .map(toChartItem)
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
 
     const tripleData = nurseStats
       .filter(n => n.isTriple)
-      .map(n => ({ name: n.name, count: n.patientCount }))
+      .map(toChartItem)
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
 
     const oneToOneData = nurseStats
       .filter(n => n.isOneToOne)
-      .map(n => ({ name: n.name, count: n.patientCount }))
+      .map(toChartItem)
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
 
     return { patientCountData, floatData, tripleData, oneToOneData };
-  }, [nurseStats]);
+  }, [nurseStats, comparisonStats]);
+
+  const compare = comparisonStats !== null;
+
+  const stacked = shiftView === 'combined';
+  const shiftLabel = shiftView === 'day' ? ' (Days)' : shiftView === 'night' ? ' (Nights)' : '';
   
   const hasAnyData = nurseStats.length > 0;
   if (!hasAnyData) return null;
@@ -114,27 +155,35 @@ export const Charts: FC<ChartsProps> = ({ nurseStats }) => {
     <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 2xl:grid-cols-2 gap-6">
       <AssignmentsChart 
         data={patientCountData}
-        title="Patient Load by Nurse (Top 10)"
+        title={`Patient Load by Nurse (Top 10)${shiftLabel}`}
         dataKey="count"
         fillColor="#818cf8"
+        stacked={stacked}
+        compare={compare}
       />
       <AssignmentsChart 
         data={floatData}
-        title="Float Assignments"
+        title={`Float Assignments${shiftLabel}`}
         dataKey="count"
         fillColor="#38bdf8"
+        stacked={stacked}
+        compare={compare}
       />
       <AssignmentsChart 
         data={tripleData}
-        title="Triple Assignments"
+        title={`Triple Assignments${shiftLabel}`}
         dataKey="count"
         fillColor="#fbbf24"
+        stacked={stacked}
+        compare={compare}
       />
       <AssignmentsChart 
         data={oneToOneData}
-        title="High-Acuity 1:1s"
+        title={`High-Acuity 1:1s${shiftLabel}`}
         dataKey="count"
         fillColor="#fb7185"
+        stacked={stacked}
+        compare={compare}
       />
     </div>
   );
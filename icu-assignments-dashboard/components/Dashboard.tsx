@@ -1,13 +1,30 @@
-import { FC } from 'react';
-import { NurseStats } from '../types';
+import { useState, FC } from 'react';
+import { Roster, AcuityTable, UnitConfig, NurseStats, NurseAliasTable, Shift, ShiftView, StaffMember, StaffRole, DateRangeSelection } from '../types';
+import { SummaryCounts, PeriodSummary } from '../services/statsService';
+import { ResolvedDateRanges } from '../services/dateRangeService';
+import { DailyTrendPoint } from '../services/trendService';
+import { TeamSummary } from '../services/teamService';
+import { STAFF_ROLES } from '../services/staffService';
 import { NurseCard } from './NurseCard';
 import { SummaryStats } from './SummaryStats';
 import { Charts } from './Charts';
+import { TrendCharts } from './TrendCharts';
+import { RosterDayDetail } from './RosterDayDetail';
+import { FairnessPanel } from './FairnessPanel';
+import { PctWorkloadPanel } from './PctWorkloadPanel';
+import { RtWorkloadPanel } from './RtWorkloadPanel';
+import { TeamSummaryPanel } from './TeamSummaryPanel';
+import { NurseDetail } from './NurseDetail';
+import { OccupancyPanel } from './OccupancyPanel';
 import { SearchIcon, DownloadIcon, XCircleIcon, TrashIcon } from './icons';
 import { FileUpload } from './FileUpload';
+import { NurseIdentityPanel } from './NurseIdentityPanel';
+import { DateRangePicker } from './DateRangePicker';
 
-type SortByType = 'name' | 'patients';
+type SortByType = 'name' | 'patients' | 'acuity';
 type AssignmentFilterType = 'isTriple' | 'isOneToOne' | 'isFloat';
+type RoleFilterType = StaffRole | 'unlisted' | '';
+type DashboardTab = 'staffing' | 'occupancy';
 
 interface DashboardProps {
   nurseStats: NurseStats[];
@@ -17,7 +34,20 @@ interface DashboardProps {
     totalTriples: number;
     totalOneToOnes: number;
     totalFloats: number;
+    continuityRate: number | null;
   };
+  shiftSummaries: Record<Shift, SummaryCounts>;
+  shiftView: ShiftView;
+  onShiftViewChange: (view: ShiftView) => void;
+  dateRangeSelection: DateRangeSelection;
+  onDateRangeSelectionChange: (selection: DateRangeSelection) => void;
+  dateRanges: ResolvedDateRanges;
+  // Stats for the comparison period, when one is selected.
+  comparison: PeriodSummary | null;
+  // Rosters inside the selected date range.
+  rosters: Roster[];
+  rosterCount: number;
+  trends: DailyTrendPoint[];
   allChargeNursesForFilter: string[];
   nursesToDisplay: NurseStats[];
   searchTerm: string;
@@ -28,6 +58,18 @@ interface DashboardProps {
   onAssignmentFilterChange: (filter: AssignmentFilterType) => void;
   chargeNurseFilter: string;
   onChargeNurseFilterChange: (name: string) => void;
+  roleFilter: RoleFilterType;
+  onRoleFilterChange: (role: RoleFilterType) => void;
+  // Narrows every stat to one team's rooms; '' shows the whole unit.
+  teamFilter: string;
+  onTeamFilterChange: (name: string) => void;
+  teamNames: string[];
+  teamSummaries: TeamSummary[];
+  groupByRole: boolean;
+  onGroupByRoleChange: (group: boolean) => void;
+  staffByNurse: Map<string, StaffMember>;
+  // Finds directory members by name or badge, e.g. for "#7501" in a charge nurse cell.
+  staffIndex: Map<string, StaffMember>;
   onExport: () => void;
   onClearFilters: () => void;
   isAnyFilterActive: boolean;
@@ -35,8 +77,29 @@ interface DashboardProps {
   onClearHistory: () => void;
   isLoading: boolean;
   historicalRosterCount: number;
+  allNurseNames: string[];
+  nurseAliases: NurseAliasTable;
+  acuityTable: AcuityTable;
+  unitConfig: UnitConfig;
+  exportFileDate: string;
+  onMergeNurses: (names: string[], canonical: string) => void;
+  onRemoveNurseAlias: (aliasKey: string) => void;
+  // Suggested merges marked "Not the same", as `suggestionKey` pair keys.
+  dismissedNurseMerges: string[];
+  onDismissNurseMerge: (key: string) => void;
 }
 
+const DASHBOARD_TABS: { value: DashboardTab; label: string }[] = [
+  { value: 'staffing', label: 'Staffing' },
+  { value: 'occupancy', label: 'Occupancy' },
+];
+
+const SHIFT_VIEW_OPTIONS: { value: ShiftView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'night', label: 'Night' },
+  { value: 'combined', label: 'Combined' },
+];
+
 const FilterCheckbox: FC<{ label: string; checked: boolean; onChange: () => void; }> = ({ label, checked, onChange }) => (
     <label className="flex items-center space-x-2 cursor-pointer">
         <input
@@ -52,6 +115,16 @@ const FilterCheckbox: FC<{ label: string; checked: boolean; onChange: () => void
 export const Dashboard: FC<DashboardProps> = ({
   nurseStats,
   summaryStats,
+  shiftSummaries,
+  shiftView,
+  onShiftViewChange,
+  dateRangeSelection,
+  onDateRangeSelectionChange,
+  dateRanges,
+  comparison,
+  rosters,
+  rosterCount,
+  trends,
   allChargeNursesForFilter,
   nursesToDisplay,
   searchTerm,
@@ -62,16 +135,68 @@ export const Dashboard: FC<DashboardProps> = ({
   onAssignmentFilterChange,
   chargeNurseFilter,
   onChargeNurseFilterChange,
+  roleFilter,
+  onRoleFilterChange,
+  teamFilter,
+  onTeamFilterChange,
+  teamNames,
+  teamSummaries,
+  groupByRole,
+  onGroupByRoleChange,
+  staffByNurse,
+  staffIndex,
   onExport,
   onClearFilters,
   isAnyFilterActive,
   onFilesSelected,
   onClearHistory,
   isLoading,
-  historicalRosterCount
+  historicalRosterCount,
+  allNurseNames,
+  nurseAliases,
+  acuityTable,
+  unitConfig,
+  exportFileDate,
+  onMergeNurses,
+  onRemoveNurseAlias,
+  dismissedNurseMerges,
+  onDismissNurseMerge
 }) => {
 
   const dataAvailable = historicalRosterCount > 0;
+  const [selectedNurses, setSelectedNurses] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [trendDate, setTrendDate] = useState<string | null>(null);
+  const [detailNurse, setDetailNurse] = useState<string | null>(null);
+  const [tab, setTab] = useState<DashboardTab>('staffing');
+  const trendRoster = trendDate ? rosters.find(r => r.date === trendDate) : undefined;
+
+  const toggleSelectedNurse = (name: string) => {
+    setSelectedNurses(prev => (prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]));
+  };
+
+  // Nurses not found in the staff directory are grouped last.
+  const roleGroups = [...STAFF_ROLES, 'unlisted' as const]
+    .map(role => ({
+      role,
+      nurses: nursesToDisplay.filter(nurse => (staffByNurse.get(nurse.name)?.role ?? 'unlisted') === role),
+    }))
+    .filter(group => group.nurses.length > 0);
+
+  const renderNurseCards = (nurses: NurseStats[]) => (
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {nurses.map(nurse => (
+              <NurseCard key={`${nurse.shift}:${nurse.name}`} nurseStats={nurse} staffMember={staffByNurse.get(nurse.name)} isSelected={selectedNurses.includes(nurse.name)} onToggleSelect={toggleSelectedNurse} onOpenDetail={setDetailNurse} />
+          ))}
+      </div>
+  );
+
+  const handleMergeSelected = () => {
+    const canonical = selectedNurses.includes(mergeTarget) ? mergeTarget : selectedNurses[0];
+    onMergeNurses(selectedNurses, canonical);
+    setSelectedNurses([]);
+    setMergeTarget('');
+  };
 
   return (
     <div className="mt-2 text-black">
@@ -103,88 +228,185 @@ export const Dashboard: FC<DashboardProps> = ({
 
       {dataAvailable && !isLoading && (
       <>
-        <SummaryStats {...summaryStats} historicalRosterCount={historicalRosterCount} />
-        <Charts nurseStats={nurseStats} />
-        
-        <div className="mt-8 bg-white border border-gray-200 rounded-lg p-4 mb-6 shadow-sm">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
-              <div className="relative w-full">
-                  <label htmlFor="search" className="text-xs text-gray-500 mb-1 block">Search Nurse</label>
-                  <input
-                      id="search"
-                      type="text"
-                      placeholder="Filter by name..."
-                      value={searchTerm}
-                      onChange={(e) => onSearchTermChange(e.target.value)}
-                      className="w-full bg-white border border-gray-300 rounded-md py-2 pl-10 pr-4 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
-                  />
-                  <SearchIcon className="absolute left-3 bottom-2.5 w-5 h-5 text-gray-400" />
-              </div>
+        <div className="flex items-center gap-1 mb-4 border-b border-gray-200" role="tablist">
+          {DASHBOARD_TABS.map(option => (
+            <button
+              key={option.value}
+              role="tab"
+              onClick={() => setTab(option.value)}
+              aria-selected={tab === option.value}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${tab === option.value ? 'border-indigo-600 text-indigo-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <DateRangePicker selection={dateRangeSelection} resolved={dateRanges} onChange={onDateRangeSelectionChange} />
+          {tab === 'staffing' && <div className="flex items-center gap-1 p-1 bg-gray-200/70 rounded-lg" role="group" aria-label="Shift">
+            {SHIFT_VIEW_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onShiftViewChange(option.value)}
+                aria-pressed={shiftView === option.value}
+                className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${shiftView === option.value ? 'bg-indigo-600 text-white shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>}
+        </div>
+        {tab === 'occupancy' ? (
+          <OccupancyPanel rosters={rosters} unitConfig={unitConfig} fileDate={exportFileDate} />
+        ) : (
+          <>
+            <NurseIdentityPanel nurseNames={allNurseNames} aliases={nurseAliases} dismissed={dismissedNurseMerges} onMerge={onMergeNurses} onRemoveAlias={onRemoveNurseAlias} onDismiss={onDismissNurseMerge} />
+            <SummaryStats {...summaryStats} historicalRosterCount={rosterCount} shiftView={shiftView} shiftSummaries={shiftSummaries} range={dateRanges.range} comparisonRange={dateRanges.comparison} comparison={comparison} />
+            <Charts nurseStats={nurseStats} shiftView={shiftView} comparisonStats={comparison?.nurseStats ?? null} />
+            <TrendCharts trends={trends} shiftView={shiftView} selectedDate={trendRoster ? trendDate : null} onSelectDate={setTrendDate} />
+            {trendRoster && <RosterDayDetail roster={trendRoster} onClose={() => setTrendDate(null)} />}
+            <FairnessPanel nurseStats={nurseStats} />
+            <PctWorkloadPanel rosters={rosters} aliases={nurseAliases} shiftView={shiftView} />
+            <RtWorkloadPanel rosters={rosters} aliases={nurseAliases} shiftView={shiftView} />
+            <TeamSummaryPanel summaries={teamSummaries} teamFilter={teamFilter} onSelectTeam={onTeamFilterChange} />
+            
+            <div className="mt-8 bg-white border border-gray-200 rounded-lg p-4 mb-6 shadow-sm">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4 items-end">
+                  <div className="relative w-full">
+                      <label htmlFor="search" className="text-xs text-gray-500 mb-1 block">Search Nurse</label>
+                      <input
+                          id="search"
+                          type="text"
+                          placeholder="Filter by name..."
+                          value={searchTerm}
+                          onChange={(e) => onSearchTermChange(e.target.value)}
+                          className="w-full bg-white border border-gray-300 rounded-md py-2 pl-10 pr-4 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                      />
+                      <SearchIcon className="absolute left-3 bottom-2.5 w-5 h-5 text-gray-400" />
+                  </div>
 
-              <div className="w-full">
-                  <label htmlFor="charge-nurse-filter" className="text-xs text-gray-500 mb-1 block">Filter by Charge Nurse</label>
-                  <select
-                      id="charge-nurse-filter"
-                      value={chargeNurseFilter}
-                      onChange={(e) => onChargeNurseFilterChange(e.target.value)}
-                      className="w-full bg-white border border-gray-300 rounded-md py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
-                  >
-                      <option value="">All Charge Nurses</option>
-                      {allChargeNursesForFilter.map(name => <option key={name} value={name}>{name}</option>)}
-                  </select>
-              </div>
+                  <div className="w-full">
+                      <label htmlFor="charge-nurse-filter" className="text-xs text-gray-500 mb-1 block">Filter by Charge Nurse</label>
+                      <select
+                          id="charge-nurse-filter"
+                          value={chargeNurseFilter}
+                          onChange={(e) => onChargeNurseFilterChange(e.target.value)}
+                          className="w-full bg-white border border-gray-300 rounded-md py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                      >
+                          <option value="">All Charge Nurses</option>
+                          {allChargeNursesForFilter.map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                  </div>
 
-              <div>
-                  <span className="text-xs text-gray-500 mb-1 block">Filter by Assignment Type</span>
-                  <div className="flex items-center gap-4 h-[42px]">
-                      <FilterCheckbox label="Triples" checked={assignmentFilters.has('isTriple')} onChange={() => onAssignmentFilterChange('isTriple')} />
-                      <FilterCheckbox label="1-to-1s" checked={assignmentFilters.has('isOneToOne')} onChange={() => onAssignmentFilterChange('isOneToOne')} />
-                      <FilterCheckbox label="Floats" checked={assignmentFilters.has('isFloat')} onChange={() => onAssignmentFilterChange('isFloat')} />
+                  <div className="w-full">
+                      <label htmlFor="team-filter" className="text-xs text-gray-500 mb-1 block">Filter by Team</label>
+                      <select
+                          id="team-filter"
+                          value={teamFilter}
+                          onChange={(e) => onTeamFilterChange(e.target.value)}
+                          className="w-full bg-white border border-gray-300 rounded-md py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                      >
+                          <option value="">Whole Unit</option>
+                          {teamNames.map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                  </div>
+
+                  <div className="w-full">
+                      <label htmlFor="role-filter" className="text-xs text-gray-500 mb-1 block">Filter by Role</label>
+                      <select
+                          id="role-filter"
+                          value={roleFilter}
+                          onChange={(e) => onRoleFilterChange(e.target.value as RoleFilterType)}
+                          className="w-full bg-white border border-gray-300 rounded-md py-2 px-3 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+                      >
+                          <option value="">All Roles</option>
+                          {STAFF_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                          <option value="unlisted">Not in Staff Directory</option>
+                      </select>
+                  </div>
+
+                  <div>
+                      <span className="text-xs text-gray-500 mb-1 block">Filter by Assignment Type</span>
+                      <div className="flex items-center gap-4 h-[42px]">
+                          <FilterCheckbox label="Triples" checked={assignmentFilters.has('isTriple')} onChange={() => onAssignmentFilterChange('isTriple')} />
+                          <FilterCheckbox label="1-to-1s" checked={assignmentFilters.has('isOneToOne')} onChange={() => onAssignmentFilterChange('isOneToOne')} />
+                          <FilterCheckbox label="Floats" checked={assignmentFilters.has('isFloat')} onChange={() => onAssignmentFilterChange('isFloat')} />
+                      </div>
                   </div>
-              </div>
 
-              <div className="flex items-center justify-self-end gap-2">
-                  {isAnyFilterActive && (
-                      <button onClick={onClearFilters} title="Clear all filters" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
-                          <XCircleIcon className="w-4 h-4" />
+                  <div className="flex items-center justify-self-end gap-2">
+                      {isAnyFilterActive && (
+                          <button onClick={onClearFilters} title="Clear all filters" className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
+                              <XCircleIcon className="w-4 h-4" />
+                          </button>
+                      )}
+                      <button onClick={onExport} title="Export current view to CSV" className="flex items-center justify-center gap-2 h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-emerald-600 text-white hover:bg-emerald-700">
+                        <DownloadIcon className="w-4 h-4" />
+                          <span>Export</span>
                       </button>
-                  )}
-                  <button onClick={onExport} title="Export current view to CSV" className="flex items-center justify-center gap-2 h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-emerald-600 text-white hover:bg-emerald-700">
-                    <DownloadIcon className="w-4 h-4" />
-                      <span>Export</span>
-                  </button>
+                  </div>
               </div>
-          </div>
-        </div>
-        
-        <div className="mt-8">
-          <div className="flex justify-between items-center mb-6">
-              <h2 className="text-2xl font-bold text-gray-800">Nurse Details ({nursesToDisplay.length})</h2>
-              <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-500">Sort by:</span>
-                  <select
-                      value={sortBy}
-                      onChange={(e) => onSortByChange(e.target.value as SortByType)}
-                      className="bg-white border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-1 focus:ring-indigo-500 transition"
-                  >
-                      <option value="name">Name</option>
-                      <option value="patients">Patient Count</option>
-                  </select>
+            </div>
+            
+            {detailNurse ? (
+              <div className="mt-8">
+                <NurseDetail name={detailNurse} rosters={rosters} acuityTable={acuityTable} aliases={nurseAliases} staffIndex={staffIndex} staffMember={staffByNurse.get(detailNurse)} onClose={() => setDetailNurse(null)} />
               </div>
-          </div>
-          {nursesToDisplay.length > 0 ? (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                  {nursesToDisplay.map(nurse => (
-                      <NurseCard key={nurse.name} nurseStats={nurse} />
-                  ))}
+            ) : (
+              <div className="mt-8">
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Nurse Details ({nursesToDisplay.length})</h2>
+                    <div className="flex items-center gap-2">
+                        <FilterCheckbox label="Group by role" checked={groupByRole} onChange={() => onGroupByRoleChange(!groupByRole)} />
+                        <span className="text-sm text-gray-500 ml-2">Sort by:</span>
+                        <select
+                            value={sortBy}
+                            onChange={(e) => onSortByChange(e.target.value as SortByType)}
+                            className="bg-white border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-1 focus:ring-indigo-500 transition"
+                        >
+                            <option value="name">Name</option>
+                            <option value="patients">Patient Count</option>
+                            <option value="acuity">Acuity Score</option>
+                        </select>
+                    </div>
+                </div>
+                {selectedNurses.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-2 mb-4 p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm">
+                        <span className="text-gray-700">Merge these nurses: <span className="font-medium">{selectedNurses.join(', ')}</span> into</span>
+                        <select
+                            value={selectedNurses.includes(mergeTarget) ? mergeTarget : selectedNurses[0]}
+                            onChange={(e) => setMergeTarget(e.target.value)}
+                            className="bg-white border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-1 focus:ring-indigo-500"
+                        >
+                            {selectedNurses.map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                        <button onClick={handleMergeSelected} className="h-8 px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">Merge</button>
+                        <button onClick={() => setSelectedNurses([])} className="h-8 px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">Cancel</button>
+                    </div>
+                )}
+                {nursesToDisplay.length > 0 ? (
+                    groupByRole ? (
+                        <div className="space-y-8">
+                            {roleGroups.map(group => (
+                                <section key={group.role}>
+                                    <h3 className="text-lg font-semibold text-gray-700 mb-3">
+                                        {group.role === 'unlisted' ? 'Not in Staff Directory' : group.role} ({group.nurses.length})
+                                    </h3>
+                                    {renderNurseCards(group.nurses)}
+                                </section>
+                            ))}
+                        </div>
+                    ) : renderNurseCards(nursesToDisplay)
+                ) : (
+                    <div className="text-center py-10 px-6 bg-gray-50 border border-gray-200 rounded-lg">
+                        <h3 className="text-xl font-semibold text-gray-700">No Nurses Found</h3>
+                        <p className="mt-1 text-gray-500">Try adjusting your search or filters.</p>
+                    </div>
+                )}
               </div>
-          ) : (
-              <div className="text-center py-10 px-6 bg-gray-50 border border-gray-200 rounded-lg">
-                  <h3 className="text-xl font-semibold text-gray-700">No Nurses Found</h3>
-                  <p className="mt-1 text-gray-500">Try adjusting your search or filters.</p>
-              </div>
-          )}
-        </div>
+            )}
+          </>
+        )}
       </>
       )}
     </div>
@@ -0,0 +1,57 @@
+import { FC } from 'react';
+import { DateRange, DateRangePreset, DateRangeSelection, ComparisonMode } from '../types';
+import { DATE_RANGE_PRESETS, ResolvedDateRanges, formatDateRange } from '../services/dateRangeService';
+
+interface DateRangePickerProps {
+  selection: DateRangeSelection;
+  resolved: ResolvedDateRanges;
+  onChange: (selection: DateRangeSelection) => void;
+}
+
+const SELECT_STYLE = 'bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-1 focus:ring-indigo-500';
+
+const RangeInputs: FC<{ label: string; range: DateRange; onChange: (range: DateRange) => void }> = ({ label, range, onChange }) => (
+  <span className="flex items-center gap-1">
+    <input type="date" aria-label={`${label} start`} value={range.start} onChange={(e) => onChange({ ...range, start: e.target.value })} className={SELECT_STYLE} />
+    <span className="text-gray-400">–</span>
+    <input type="date" aria-label={`${label} end`} value={range.end} onChange={(e) => onChange({ ...range, end: e.target.value })} className={SELECT_STYLE} />
+  </span>
+);
+
+export const DateRangePicker: FC<DateRangePickerProps> = ({ selection, resolved, onChange }) => {
+  const update = (changes: Partial<DateRangeSelection>) => onChange({ ...selection, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={selection.preset}
+        onChange={(e) => update({ preset: e.target.value as DateRangePreset })}
+        aria-label="Date range"
+        className={SELECT_STYLE}
+      >
+        {DATE_RANGE_PRESETS.map(preset => <option key={preset.value} value={preset.value}>{preset.label}</option>)}
+      </select>
+      {selection.preset === 'custom' && (
+        <RangeInputs label="Date range" range={selection.customRange} onChange={(customRange) => update({ customRange })} />
+      )}
+
+      <span className="text-gray-500 ml-2">vs</span>
+      <select
+        value={selection.comparison}
+        onChange={(e) => update({ comparison: e.target.value as ComparisonMode })}
+        aria-label="Comparison period"
+        className={SELECT_STYLE}
+      >
+        <option value="none">No comparison</option>
+        <option value="previous" disabled={!resolved.range}>Previous period</option>
+        <option value="custom">Custom period</option>
+      </select>
+      {selection.comparison === 'custom' && (
+        <RangeInputs label="Comparison period" range={selection.customComparison} onChange={(customComparison) => update({ customComparison })} />
+      )}
+      {resolved.comparison && selection.comparison === 'previous' && (
+        <span className="text-xs text-gray-500">({formatDateRange(resolved.comparison)})</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState, useMemo, FC } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { NurseStats } from '../types';
+import {
+  FairnessMetric,
+  FairnessSettings,
+  FAIRNESS_METRICS,
+  DEFAULT_FAIRNESS_SETTINGS,
+  analyzeFairness,
+  rateDistribution,
+} from '../services/fairnessService';
+import { ScaleIcon } from './icons';
+
+interface FairnessPanelProps {
+  // One entry per nurse for the shift view and date range on the dashboard.
+  nurseStats: NurseStats[];
+}
+
+const INPUT_STYLE = 'w-20 bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export const FairnessPanel: FC<FairnessPanelProps> = ({ nurseStats }) => {
+  const [settings, setSettings] = useState<FairnessSettings>(DEFAULT_FAIRNESS_SETTINGS);
+  const [metric, setMetric] = useState<FairnessMetric>('triples');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const report = useMemo(() => analyzeFairness(nurseStats, settings), [nurseStats, settings]);
+  const distribution = useMemo(() => rateDistribution(report.nurses, metric), [report, metric]);
+
+  const updateSetting = (key: keyof FairnessSettings, value: string) => {
+    const parsed = Number(value);
+    if (value.trim() !== '' && !isNaN(parsed) && parsed >= 0) setSettings(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  const rows = report.nurses
+    .filter(nurse => !flaggedOnly || nurse.flagged.length > 0)
+    .sort((a, b) => b.rates[metric] - a.rates[metric] || a.name.localeCompare(b.name));
+  const flaggedCount = report.nurses.filter(nurse => nurse.flagged.length > 0).length;
+
+  if (nurseStats.length === 0) return null;
+
+  return (
+    <details className="mt-8 bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <summary className="cursor-pointer text-lg font-bold text-gray-800 inline-flex items-center gap-2">
+        <ScaleIcon className="w-5 h-5 text-indigo-500" />
+        Workload Fairness
+        {flaggedCount > 0 && <span className="text-sm font-medium text-amber-600">({flaggedCount} nurse{flaggedCount !== 1 ? 's' : ''} flagged)</span>}
+      </summary>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        How often each nurse had a triple, a 1:1 or a heavy-acuity shift, divided by shifts worked. Nurses far from the unit mean in either direction are flagged.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-4 text-sm mb-4">
+        <label className="flex flex-col text-xs text-gray-500">
+          Flag beyond (std. dev.)
+          <input type="number" step="0.5" min="0" defaultValue={settings.deviationThreshold} onChange={(e) => updateSetting('deviationThreshold', e.target.value)} className={INPUT_STYLE} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-500">
+          Heavy acuity at score
+          <input type="number" min="0" defaultValue={settings.heavyAcuityThreshold} onChange={(e) => updateSetting('heavyAcuityThreshold', e.target.value)} className={INPUT_STYLE} />
+        </label>
+        <label className="flex flex-col text-xs text-gray-500">
+          Minimum shifts
+          <input type="number" min="1" defaultValue={settings.minShifts} onChange={(e) => updateSetting('minShifts', e.target.value)} className={INPUT_STYLE} />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {FAIRNESS_METRICS.map(({ value, label }) => {
+          const summary = report.metrics[value];
+          return (
+            <button
+              key={value}
+              onClick={() => setMetric(value)}
+              aria-pressed={metric === value}
+              className={`text-left p-3 rounded-md border transition-colors ${metric === value ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-gray-50 hover:bg-gray-100'}`}
+            >
+              <p className="text-sm text-gray-500">{label}</p>
+              <p className="text-2xl font-bold text-gray-900" title="1 means the workload is spread evenly; 0 means one nurse has all of it">
+                {summary.equityIndex.toFixed(2)} <span className="text-sm font-normal text-gray-500">equity index</span>
+              </p>
+              <p className="text-xs text-gray-400">Unit mean {percent(summary.mean)} · std. dev. {percent(summary.stdDev)}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      {report.nurses.length === 0 ? (
+        <p className="text-sm text-gray-500">No nurse has worked {settings.minShifts} or more shifts in this period.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Distribution: {FAIRNESS_METRICS.find(m => m.value === metric)?.label}</h3>
+            <div style={{ width: '100%', height: 240 }}>
+              <ResponsiveContainer>
+                <BarChart data={distribution} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="label" stroke="#4b5563" tick={{ fontSize: 10 }} interval={0} />
+                  <YAxis stroke="#4b5563" allowDecimals={false} width={28} />
+                  <Tooltip formatter={(value) => [`${value} nurses`, 'Nurses']} />
+                  <Bar dataKey="count" fill="#818cf8" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">Nurses ({rows.length})</h3>
+              <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+                Flagged only
+              </label>
+            </div>
+            <div className="max-h-60 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="pb-1 pr-2 font-medium">Nurse</th>
+                    <th className="pb-1 pr-2 font-medium">Shifts</th>
+                    <th className="pb-1 pr-2 font-medium">Triples</th>
+                    <th className="pb-1 pr-2 font-medium">1:1s</th>
+                    <th className="pb-1 font-medium">Heavy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(nurse => (
+                    <tr key={nurse.name} className="border-t border-gray-100">
+                      <td className="py-1 pr-2 font-medium">{nurse.name}</td>
+                      <td className="py-1 pr-2 text-gray-600">{nurse.shiftsWorked}</td>
+                      {FAIRNESS_METRICS.map(({ value }) => {
+                        const deviation = nurse.deviations[value];
+                        const flagged = nurse.flagged.includes(value);
+                        return (
+                          <td
+                            key={value}
+                            title={deviation === null ? undefined : `${deviation > 0 ? '+' : ''}${deviation} std. dev. from the unit mean`}
+                            className={`py-1 pr-2 ${flagged ? (deviation !== null && deviation > 0 ? 'text-red-600 font-semibold' : 'text-sky-600 font-semibold') : 'text-gray-600'}`}
+                          >
+                            {nurse.counts[value]} ({percent(nurse.rates[value])})
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {report.excludedCount > 0 && (
+              <p className="text-xs text-gray-400 mt-2">{report.excludedCount} nurse{report.excludedCount !== 1 ? 's' : ''} with fewer than {settings.minShifts} shifts not shown.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </details>
+  );
+};
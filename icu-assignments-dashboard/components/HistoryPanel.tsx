@@ -0,0 +1,48 @@
+import { FC } from 'react';
+import { RosterHistory, RosterHistoryEntry } from '../services/historyService';
+import { HistoryIcon } from './icons';
+
+interface HistoryPanelProps {
+  history: RosterHistory;
+  onRestore: (entry: RosterHistoryEntry) => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const HistoryPanel: FC<HistoryPanelProps> = ({ history, onRestore }) => {
+  // Newest first; entries past the cursor have been undone and can still be redone.
+  const entries = history.entries.map((entry, index) => ({ entry, undone: index >= history.cursor })).reverse();
+
+  return (
+    <aside className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-black mt-4">
+      <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+        <HistoryIcon className="w-5 h-5 text-indigo-500" />
+        Edit History
+      </h2>
+      <p className="text-xs text-gray-500 mb-3">Ctrl+Z to undo, Ctrl+Y to redo.</p>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No edits yet.</p>
+      ) : (
+        <ul className="space-y-2 text-sm max-h-[40vh] overflow-y-auto">
+          {entries.map(({ entry, undone }) => (
+            <li key={entry.id} className={`border-l-4 pl-2 ${undone ? 'border-gray-200 text-gray-400' : 'border-indigo-400 text-gray-700'}`}>
+              <div className="flex justify-between items-start gap-2">
+                <span className={undone ? 'line-through' : ''}>{entry.description}</span>
+                <span className="text-xs text-gray-400 shrink-0">{formatTime(entry.timestamp)}</span>
+              </div>
+              <button
+                onClick={() => onRestore(entry)}
+                title="Restore the roster as it was before this change"
+                className="text-xs text-indigo-600 hover:underline"
+              >
+                Restore from before this
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,140 @@
+import { FC } from 'react';
+import { Roster } from '../types';
+import { StagedImport, ImportDecision, getStagedDateIssues, getAcceptedImports, getStagedBase } from '../services/importService';
+import { RosterConflict } from './RosterConflict';
+import { AlertTriangleIcon, FileTextIcon, XCircleIcon } from './icons';
+
+interface ImportReviewProps {
+  staged: StagedImport[];
+  historicalRosters: Roster[];
+  onChange: (staged: StagedImport[]) => void;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+const RosterPreview: FC<{ roster: Roster }> = ({ roster }) => {
+  const occupied = roster.assignments.filter(row => row.patient.trim() !== '');
+  return (
+    <details className="mt-2 text-sm">
+      <summary className="cursor-pointer text-indigo-600 hover:underline">
+        {occupied.length} patients · Charge {roster.chargeNurses.day || '—'} / {roster.chargeNurses.night || '—'} · {roster.floats.day.length + roster.floats.night.length} floats
+      </summary>
+      <table className="w-full mt-2 text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pr-2 font-medium">RM</th>
+            <th className="pr-2 font-medium">Patient</th>
+            <th className="pr-2 font-medium">Status</th>
+            <th className="pr-2 font-medium">RN Days</th>
+            <th className="font-medium">RN Nights</th>
+          </tr>
+        </thead>
+        <tbody>
+          {occupied.map(row => (
+            <tr key={row.room} className="border-t border-gray-100 align-top">
+              <td className="pr-2 font-semibold">{row.room}</td>
+              <td className="pr-2 whitespace-pre-line">{row.patient}</td>
+              <td className="pr-2 whitespace-pre-line">{row.status}</td>
+              <td className="pr-2">{row.rnDay}</td>
+              <td>{row.rnNight}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
+
+export const ImportReview: FC<ImportReviewProps> = ({ staged, historicalRosters, onChange, onCommit, onCancel }) => {
+  const updateItem = (id: string, update: (item: StagedImport) => StagedImport) => {
+    onChange(staged.map(item => (item.id === id ? update(item) : item)));
+  };
+
+  const setDecision = (id: string, decision: ImportDecision) => updateItem(id, item => ({ ...item, decision }));
+
+  const setDate = (id: string, date: string) =>
+    updateItem(id, item => (item.roster ? { ...item, roster: { ...item.roster, date } } : item));
+
+  const acceptedCount = getAcceptedImports(staged).length;
+
+  return (
+    <div className="bg-white border border-indigo-200 rounded-lg p-4 mb-6 shadow-sm text-black">
+      <h2 className="text-lg font-bold text-gray-800">Review Import ({staged.length} file{staged.length !== 1 ? 's' : ''})</h2>
+      <p className="text-sm text-gray-500 mb-4">Check each roster and its warnings, correct the date if needed, then accept or reject it. Nothing is saved until you import.</p>
+
+      <ul className="space-y-3">
+        {staged.map(item => {
+          const issues = [...item.warnings, ...getStagedDateIssues(item, staged)];
+          const accepted = item.decision === 'accept';
+          // Earlier files for the same date are applied first, so conflicts are shown against their result.
+          const stored = item.roster ? getStagedBase(item, staged, historicalRosters) : undefined;
+          return (
+            <li key={item.id} className={`border rounded-md p-3 ${accepted ? 'border-gray-200' : 'border-gray-200 bg-gray-50 opacity-70'}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileTextIcon className="w-5 h-5 text-gray-400 shrink-0" />
+                  <span className="font-medium truncate">{item.fileName}</span>
+                </div>
+                {item.roster && (
+                  <div className="flex items-center gap-2">
+                    <label htmlFor={`import-date-${item.id}`} className="text-xs text-gray-500">Date</label>
+                    <input
+                      id={`import-date-${item.id}`}
+                      type="date"
+                      value={item.roster.date}
+                      onChange={(e) => setDate(item.id, e.target.value)}
+                      className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <button
+                      onClick={() => setDecision(item.id, 'accept')}
+                      className={`h-8 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${accepted ? 'bg-emerald-600 text-white' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => setDecision(item.id, 'reject')}
+                      className={`h-8 px-3 text-sm font-medium rounded-md transition-colors duration-200 ${!accepted ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'}`}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {item.error && (
+                <p className="mt-2 text-sm text-red-700 flex items-start gap-2">
+                  <XCircleIcon className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>Could not be read: {item.error}</span>
+                </p>
+              )}
+
+              {issues.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-amber-700">
+                  {issues.map((issue, i) => (
+                    <li key={i} className="flex items-start gap-2">
+                      <AlertTriangleIcon className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>{issue}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {accepted && stored && (
+                <RosterConflict stored={stored} item={item} onChange={(update) => updateItem(item.id, current => ({ ...current, ...update }))} />
+              )}
+
+              {item.roster && <RosterPreview roster={item.roster} />}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={onCancel} className="h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">Cancel</button>
+        <button onClick={onCommit} disabled={acceptedCount === 0} className="h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40">
+          Import {acceptedCount} roster{acceptedCount !== 1 ? 's' : ''}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,20 @@
 import { memo, FC, ReactElement, cloneElement } from 'react';
-import { NurseStats } from '../types';
-import { UsersIcon, AlertTriangleIcon, HeartPulseIcon, BriefcaseIcon, type IconProps } from './icons';
+import { NurseStats, StaffMember } from '../types';
+import { describeStaffMember } from '../services/staffService';
+import { UsersIcon, AlertTriangleIcon, HeartPulseIcon, BriefcaseIcon, ShieldIcon, type IconProps } from './icons';
 
 interface NurseCardProps {
   nurseStats: NurseStats;
+  staffMember?: StaffMember;
+  isSelected?: boolean;
+  onToggleSelect?: (name: string) => void;
+  onOpenDetail?: (name: string) => void;
 }
 
 interface MetricPillProps {
   text: string;
   icon: ReactElement<IconProps>;
-  color: 'amber' | 'rose' | 'sky';
+  color: 'amber' | 'rose' | 'sky' | 'violet';
   active: boolean;
 }
 
@@ -19,7 +24,8 @@ const MetricPill: FC<MetricPillProps> = ({ text, icon, color, active }) => {
   const colors = {
     amber: 'bg-amber-100 text-amber-800',
     rose: 'bg-rose-100 text-rose-800',
-    sky: 'bg-sky-100 text-sky-800'
+    sky: 'bg-sky-100 text-sky-800',
+    violet: 'bg-violet-100 text-violet-800'
   };
 
   return (
@@ -30,36 +36,74 @@ const MetricPill: FC<MetricPillProps> = ({ text, icon, color, active }) => {
   );
 };
 
-export const NurseCard: FC<NurseCardProps> = memo(({ nurseStats }) => {
+export const NurseCard: FC<NurseCardProps> = memo(({ nurseStats, staffMember, isSelected, onToggleSelect, onOpenDetail }) => {
+  // Dates only matter once the card covers more than one roster.
+  const showDates = new Set(nurseStats.patients.map(p => p.date)).size > 1;
   return (
-    <div className="bg-white border border-gray-200 rounded-xl shadow-sm transform hover:-translate-y-1 transition-all duration-300 ease-in-out">
+    <div className={`bg-white border rounded-xl ${isSelected ? 'border-indigo-500 ring-2 ring-indigo-200' : 'border-gray-200'} shadow-sm transform hover:-translate-y-1 transition-all duration-300 ease-in-out`}>
       <div className="p-5">
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-lg font-bold text-gray-800 truncate flex items-center gap-2">
+            {onToggleSelect && (
+              <input
+                type="checkbox"
+                checked={Boolean(isSelected)}
+                onChange={() => onToggleSelect(nurseStats.name)}
+                title="Select to merge with another nurse"
+                className="h-4 w-4 rounded bg-gray-100 border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+            )}
             <UsersIcon className="w-6 h-6 text-gray-500" />
-            {nurseStats.name}
+            {onOpenDetail ? (
+              <button onClick={() => onOpenDetail(nurseStats.name)} title="Show every shift this nurse worked" className="truncate hover:text-indigo-600 hover:underline">
+                {nurseStats.name}
+              </button>
+            ) : nurseStats.name}
           </h3>
           {nurseStats.isHighAssignment && <AlertTriangleIcon className="w-6 h-6 text-red-500 animate-pulse" title="Assigned 5 or more patients" />}
         </div>
+        <p className="text-xs text-gray-500 -mt-2 mb-3">
+          {nurseStats.shift === 'combined'
+            ? `Day ${nurseStats.patientCountsByShift.day} · Night ${nurseStats.patientCountsByShift.night} patients`
+            : nurseStats.shift === 'day' ? 'Day shift' : 'Night shift'}
+          {nurseStats.chargeNurses.length > 0 && ` · Charge: ${nurseStats.chargeNurses.join(', ')}`}
+        </p>
+        {staffMember && <p className="text-xs text-indigo-600 -mt-2 mb-3">{describeStaffMember(staffMember)}</p>}
 
-        <div className="bg-gray-50 p-3 rounded-md mb-4 border border-gray-200">
-          <p className="text-sm text-gray-500">Patient Count</p>
-          <p className="text-3xl font-bold text-gray-900">{nurseStats.patientCount}</p>
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <div className="bg-gray-50 p-3 rounded-md border border-gray-200">
+            <p className="text-sm text-gray-500">Patient Count</p>
+            <p className="text-3xl font-bold text-gray-900">{nurseStats.patientCount}</p>
+          </div>
+          <div className="bg-gray-50 p-3 rounded-md border border-gray-200" title="Sum of acuity points from each patient's STATUS">
+            <p className="text-sm text-gray-500">Acuity Score</p>
+            <p className="text-3xl font-bold text-indigo-700">{nurseStats.acuityScore}</p>
+          </div>
         </div>
 
         <div className="flex flex-wrap gap-2 mb-4">
           <MetricPill text="Triple" icon={<AlertTriangleIcon />} color="amber" active={nurseStats.isTriple} />
           <MetricPill text="1-to-1" icon={<HeartPulseIcon />} color="rose" active={nurseStats.isOneToOne} />
           <MetricPill text="Float" icon={<BriefcaseIcon />} color="sky" active={nurseStats.isFloat} />
+          <MetricPill text={`Isolation ×${nurseStats.isolationPatientCount}`} icon={<ShieldIcon />} color="violet" active={nurseStats.isolationPatientCount > 0} />
         </div>
 
+        {(nurseStats.extendedShifts > 0 || nurseStats.extraStaff.length > 0) && (
+          <p className="text-xs text-gray-500 -mt-2 mb-4" title="From the EXT column">
+            {nurseStats.extendedShifts > 0 && `Extended ${nurseStats.extendedShifts} shift${nurseStats.extendedShifts !== 1 ? 's' : ''} (+${nurseStats.hoursExtended}h)`}
+            {nurseStats.extendedShifts > 0 && nurseStats.extraStaff.length > 0 && ' · '}
+            {nurseStats.extraStaff.length > 0 && `Help: ${nurseStats.extraStaff.join(', ')}`}
+          </p>
+        )}
+
         {nurseStats.patients.length > 0 && (
           <div>
             <h4 className="text-xs text-gray-400 uppercase font-semibold mb-2">Assigned Patients</h4>
             <ul className="space-y-1 text-sm">
               {nurseStats.patients.map(p => (
-                <li key={p.room} className="text-gray-600">
+                <li key={`${p.date}:${p.shift}:${p.room}`} className="text-gray-600">
                   <span className="font-semibold text-gray-800">{p.room}:</span> {p.patient}
+                  {showDates && <span className="text-xs text-gray-400"> · {p.date}{nurseStats.shift === 'combined' ? ` ${p.shift}` : ''}</span>}
                 </li>
               ))}
             </ul>
@@ -0,0 +1,174 @@
+import { useMemo, FC } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Roster, AcuityTable, NurseAliasTable, StaffMember, Shift } from '../types';
+import { NurseShiftEntry, buildNurseTimeline, calculateStreaks } from '../services/nurseTimelineService';
+import { describeStaffMember } from '../services/staffService';
+import { UsersIcon, XCircleIcon } from './icons';
+
+interface NurseDetailProps {
+  name: string;
+  rosters: Roster[];
+  acuityTable: AcuityTable;
+  aliases: NurseAliasTable;
+  staffIndex: Map<string, StaffMember>;
+  staffMember?: StaffMember;
+  onClose: () => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const SHIFT_BADGE: Record<Shift, string> = {
+  day: 'bg-amber-100 text-amber-800',
+  night: 'bg-slate-200 text-slate-800',
+};
+
+const StreakCard: FC<{ label: string; value: number; unit: string }> = ({ label, value, unit }) => (
+  <div className="bg-gray-50 p-3 rounded-md border border-gray-200">
+    <p className="text-sm text-gray-500">{label}</p>
+    <p className="text-2xl font-bold text-gray-900">{value} <span className="text-sm font-normal text-gray-500">{unit}{value !== 1 ? 's' : ''}</span></p>
+  </div>
+);
+
+// One calendar month, with each worked day shaded by the shift(s) worked.
+const MonthCalendar: FC<{ month: string; shiftsByDate: Map<string, Shift[]> }> = ({ month, shiftsByDate }) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const firstWeekday = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay();
+  const days = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const title = new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-1">{title}</h4>
+      <div className="grid grid-cols-7 gap-1 text-xs text-center">
+        {WEEKDAYS.map((day, i) => <span key={i} className="text-gray-400">{day}</span>)}
+        {Array.from({ length: firstWeekday }, (_, i) => <span key={`blank-${i}`} />)}
+        {Array.from({ length: days }, (_, i) => {
+          const date = `${month}-${String(i + 1).padStart(2, '0')}`;
+          const shifts = shiftsByDate.get(date) ?? [];
+          const color = shifts.length === 2 ? 'bg-indigo-300 text-indigo-900' : shifts[0] ? SHIFT_BADGE[shifts[0]] : 'text-gray-400';
+          return (
+            <span key={date} title={shifts.length ? `${date}: ${shifts.join(' and ')}` : undefined} className={`rounded py-1 ${color}`}>
+              {i + 1}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const ShiftRow: FC<{ entry: NurseShiftEntry }> = ({ entry }) => (
+  <li className="border-t border-gray-100 py-2">
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="font-semibold text-gray-800">{entry.date}</span>
+      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SHIFT_BADGE[entry.shift]}`}>{entry.shift === 'day' ? 'Day' : 'Night'}</span>
+      {entry.isCharge && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">Charge</span>}
+      {entry.isFloat && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-sky-100 text-sky-800">Float</span>}
+      {entry.patients.length === 3 && <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">Triple</span>}
+      <span className="text-gray-500">
+        {entry.patients.length} patient{entry.patients.length !== 1 ? 's' : ''} · Acuity {entry.acuityScore}
+        {entry.chargeNurse && !entry.isCharge && ` · Charge: ${entry.chargeNurse}`}
+      </span>
+    </div>
+    {entry.patients.length > 0 && (
+      <ul className="mt-1 ml-4 text-sm text-gray-600 space-y-0.5">
+        {entry.patients.map(p => (
+          <li key={p.room}>
+            <span className="font-semibold text-gray-800">{p.room}:</span> {p.patient.replace(/\n/g, ' ')}
+            {p.status && <span className="text-gray-400"> · {p.status.replace(/\n/g, ' ')}</span>}
+          </li>
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+export const NurseDetail: FC<NurseDetailProps> = ({ name, rosters, acuityTable, aliases, staffIndex, staffMember, onClose }) => {
+  const entries = useMemo(() => buildNurseTimeline(rosters, name, acuityTable, aliases, staffIndex), [rosters, name, acuityTable, aliases, staffIndex]);
+
+  const latestDate = rosters.reduce<string | null>((latest, r) => (!latest || r.date > latest ? r.date : latest), null);
+  const streaks = calculateStreaks(entries, latestDate);
+
+  const shiftsByDate = new Map<string, Shift[]>();
+  entries.forEach(entry => shiftsByDate.set(entry.date, [...(shiftsByDate.get(entry.date) ?? []), entry.shift]));
+  const months = Array.from(new Set(entries.map(e => e.date.slice(0, 7)))).sort();
+
+  const trendData = entries.map(entry => ({
+    label: `${entry.date} ${entry.shift === 'day' ? 'D' : 'N'}`,
+    patients: entry.patients.length,
+    acuity: entry.acuityScore,
+  }));
+
+  const dayShifts = entries.filter(e => e.shift === 'day').length;
+
+  return (
+    <div className="bg-white border border-indigo-200 rounded-lg p-5 shadow-sm">
+      <div className="flex justify-between items-start gap-2 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+            <UsersIcon className="w-6 h-6 text-gray-500" />
+            {name}
+          </h2>
+          {staffMember && <p className="text-sm text-indigo-600">{describeStaffMember(staffMember)}</p>}
+          <p className="text-sm text-gray-500">
+            {entries.length} shift{entries.length !== 1 ? 's' : ''} ({dayShifts} day, {entries.length - dayShifts} night) in {rosters.length} roster{rosters.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        <button onClick={onClose} title="Back to all nurses" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+          <XCircleIcon className="w-5 h-5" />
+          <span>Close</span>
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No shifts found for {name} in the selected date range.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <StreakCard label="Current run" value={streaks.currentRun} unit="day" />
+            <StreakCard label="Longest run" value={streaks.longestRun} unit="day" />
+            <StreakCard label="Longest night run" value={streaks.longestNightRun} unit="night" />
+            <StreakCard label="Triples in a row" value={streaks.longestTripleRun} unit="shift" />
+          </div>
+
+          {trendData.length > 1 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-2">Patients and Acuity per Shift</h3>
+              <div style={{ width: '100%', height: 240 }}>
+                <ResponsiveContainer>
+                  <LineChart data={trendData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" stroke="#4b5563" tick={{ fontSize: 10 }} />
+                    <YAxis stroke="#4b5563" allowDecimals={false} width={28} />
+                    <Tooltip />
+                    <Legend verticalAlign="top" height={24} />
+                    <Line type="monotone" dataKey="patients" name="Patients" stroke="#818cf8" strokeWidth={2} dot={{ r: 3 }} />
+                    <Line type="monotone" dataKey="acuity" name="Acuity score" stroke="#fb7185" strokeWidth={2} dot={{ r: 3 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-gray-800">Calendar</h3>
+              <p className="text-xs text-gray-500 flex flex-wrap gap-2">
+                <span className={`px-2 rounded ${SHIFT_BADGE.day}`}>Day</span>
+                <span className={`px-2 rounded ${SHIFT_BADGE.night}`}>Night</span>
+                <span className="px-2 rounded bg-indigo-300 text-indigo-900">Both</span>
+              </p>
+              {months.map(month => <MonthCalendar key={month} month={month} shiftsByDate={shiftsByDate} />)}
+            </div>
+            <div className="lg:col-span-2">
+              <h3 className="text-lg font-semibold text-gray-800">Shifts</h3>
+              <ul className="max-h-[32rem] overflow-y-auto">
+                {[...entries].reverse().map(entry => <ShiftRow key={`${entry.date}:${entry.shift}`} entry={entry} />)}
+              </ul>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
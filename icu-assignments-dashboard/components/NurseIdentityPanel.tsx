@@ -0,0 +1,72 @@
+import { useMemo, FC } from 'react';
+import { NurseAliasTable } from '../types';
+import { normalizeNurseKey, suggestNurseMerges, suggestionKey } from '../services/nurseIdentityService';
+import { UsersIcon, XCircleIcon } from './icons';
+
+interface NurseIdentityPanelProps {
+  nurseNames: string[];
+  aliases: NurseAliasTable;
+  // Pair keys from `suggestionKey` the user marked "Not the same"; saved with the settings.
+  dismissed: string[];
+  onMerge: (names: string[], canonical: string) => void;
+  onRemoveAlias: (aliasKey: string) => void;
+  onDismiss: (key: string) => void;
+}
+
+export const NurseIdentityPanel: FC<NurseIdentityPanelProps> = ({ nurseNames, aliases, dismissed, onMerge, onRemoveAlias, onDismiss }) => {
+  const suggestions = useMemo(() => suggestNurseMerges(nurseNames, new Set(dismissed)), [nurseNames, dismissed]);
+  // The canonical name's own entry is bookkeeping, not an alias worth listing.
+  const aliasEntries = Object.entries(aliases)
+    .filter(([aliasKey, canonical]) => aliasKey !== normalizeNurseKey(canonical))
+    .sort((a, b) => a[1].localeCompare(b[1]) || a[0].localeCompare(b[0]));
+
+  if (suggestions.length === 0 && aliasEntries.length === 0) return null;
+
+  return (
+    <details className="bg-white border border-gray-200 rounded-lg p-4 mb-6 shadow-sm text-black">
+      <summary className="cursor-pointer text-lg font-bold text-gray-800 inline-flex items-center gap-2">
+        <UsersIcon className="w-5 h-5 text-indigo-500" />
+        Nurse Names
+        {suggestions.length > 0 && <span className="text-sm font-medium text-amber-600">({suggestions.length} possible duplicate{suggestions.length !== 1 ? 's' : ''})</span>}
+      </summary>
+      <p className="text-sm text-gray-500 mt-1 mb-3">Merged names are counted as one nurse in every statistic and export. You can also select nurse cards below and merge them.</p>
+
+      {suggestions.length > 0 && (
+        <div className="mb-4">
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Possible duplicates</h3>
+          <ul className="space-y-1 text-sm">
+            {suggestions.map(({ names, reason }) => (
+              <li key={suggestionKey(names)} className="flex flex-wrap items-center justify-between gap-2 border-l-4 border-amber-300 pl-2">
+                <span>
+                  <span className="font-medium">{names[0]}</span> and <span className="font-medium">{names[1]}</span>
+                  <span className="text-gray-400"> · {reason}</span>
+                </span>
+                <span className="flex items-center gap-2 text-xs">
+                  <button onClick={() => onMerge(names, names[0])} className="text-indigo-600 hover:underline">Keep "{names[0]}"</button>
+                  <button onClick={() => onMerge(names, names[1])} className="text-indigo-600 hover:underline">Keep "{names[1]}"</button>
+                  <button onClick={() => onDismiss(suggestionKey(names))} className="text-gray-500 hover:underline">Not the same</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {aliasEntries.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Aliases</h3>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+            {aliasEntries.map(([aliasKey, canonical]) => (
+              <li key={aliasKey} className="flex items-center justify-between gap-2">
+                <span><span className="text-gray-500">{aliasKey}</span> → <span className="font-medium">{canonical}</span></span>
+                <button onClick={() => onRemoveAlias(aliasKey)} title="Stop treating this name as an alias" className="text-gray-400 hover:text-red-600">
+                  <XCircleIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </details>
+  );
+};
@@ -0,0 +1,174 @@
+import { useMemo, FC } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Roster, UnitConfig } from '../types';
+import { analyzeOccupancy } from '../services/occupancyService';
+import { exportOccupancyToCsv, exportRoomOccupancyToCsv } from '../services/exportService';
+import { DownloadIcon } from './icons';
+
+interface OccupancyPanelProps {
+  rosters: Roster[];
+  unitConfig: UnitConfig;
+  // Used in export file names, e.g. "2026-10-01_to_2026-10-14".
+  fileDate: string;
+}
+
+const StatCard: FC<{ title: string; value: string | number; detail?: string }> = ({ title, value, detail }) => (
+  <div className="bg-white p-5 rounded-lg border border-gray-200 shadow-sm">
+    <p className="text-sm text-gray-500 font-medium">{title}</p>
+    <p className="text-2xl font-bold text-gray-900">{value}</p>
+    {detail && <p className="text-xs text-gray-400">{detail}</p>}
+  </div>
+);
+
+// Heat map shades, from rarely to almost always occupied.
+const heatColor = (percent: number) => {
+  if (percent >= 90) return 'bg-indigo-700 text-white';
+  if (percent >= 75) return 'bg-indigo-500 text-white';
+  if (percent >= 50) return 'bg-indigo-300 text-indigo-950';
+  if (percent >= 25) return 'bg-indigo-100 text-indigo-900';
+  return 'bg-gray-50 text-gray-500';
+};
+
+const EXPORT_BUTTON = 'flex items-center justify-center gap-2 h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-emerald-600 text-white hover:bg-emerald-700';
+
+export const OccupancyPanel: FC<OccupancyPanelProps> = ({ rosters, unitConfig, fileDate }) => {
+  const report = useMemo(() => analyzeOccupancy(rosters, unitConfig), [rosters, unitConfig]);
+
+  if (report.days.length === 0) {
+    return (
+      <div className="text-center py-10 px-6 bg-gray-50 border border-gray-200 rounded-lg">
+        <h3 className="text-xl font-semibold text-gray-700">No Rosters in This Range</h3>
+        <p className="mt-1 text-gray-500">Choose a different date range to see occupancy.</p>
+      </div>
+    );
+  }
+
+  const emptiest = [...report.rooms].filter(r => r.daysListed > 0).sort((a, b) => a.percent - b.percent)[0];
+  const chartData = report.days.map(day => ({ date: day.date, occupied: day.occupied, empty: day.totalRooms - day.occupied }));
+  const roomGroups = [...unitConfig.teams.map(team => team.name), ...report.rooms.map(r => r.team)]
+    .filter((team, i, all) => all.indexOf(team) === i)
+    .map(team => ({ team, rooms: report.rooms.filter(r => r.team === team) }))
+    .filter(group => group.rooms.length > 0);
+
+  return (
+    <div className="text-black">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-xl font-bold text-gray-800">
+          Bed Occupancy <span className="text-base font-normal text-gray-500">(from {report.days.length} roster{report.days.length !== 1 ? 's' : ''})</span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => exportOccupancyToCsv(report, fileDate)} title="Export occupancy per day to CSV" className={EXPORT_BUTTON}>
+            <DownloadIcon className="w-4 h-4" />
+            <span>Daily CSV</span>
+          </button>
+          <button onClick={() => exportRoomOccupancyToCsv(report, fileDate)} title="Export occupancy per room to CSV" className={EXPORT_BUTTON}>
+            <DownloadIcon className="w-4 h-4" />
+            <span>Rooms CSV</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard title="Average Occupied Beds" value={report.averageOccupied} detail={`of ${unitConfig.rooms.length} rooms on the unit`} />
+        <StatCard title="Average Occupancy" value={`${report.averagePercent}%`} />
+        <StatCard title="Average Empty Rooms" value={Math.round(report.days.reduce((sum, d) => sum + d.emptyRooms.length, 0) / report.days.length * 10) / 10} />
+        <StatCard title="Least Used Room" value={emptiest ? emptiest.room : '—'} detail={emptiest ? `Occupied ${emptiest.percent}% of days` : undefined} />
+      </div>
+
+      {chartData.length > 1 && (
+        <div className="mt-8 bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-gray-800 mb-6">Occupied and Empty Beds per Day</h3>
+          <div style={{ width: '100%', height: 280 }}>
+            <ResponsiveContainer>
+              <AreaChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="date" stroke="#4b5563" tick={{ fontSize: 11 }} />
+                <YAxis stroke="#4b5563" allowDecimals={false} width={32} />
+                <Tooltip />
+                <Legend verticalAlign="top" height={24} />
+                <Area type="monotone" dataKey="occupied" name="Occupied" stackId="beds" stroke="#6366f1" fill="#a5b4fc" />
+                <Area type="monotone" dataKey="empty" name="Empty" stackId="beds" stroke="#9ca3af" fill="#e5e7eb" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Occupancy by Team</h3>
+          <ul className="space-y-3 text-sm">
+            {report.teams.map(team => (
+              <li key={team.team}>
+                <div className="flex justify-between mb-1">
+                  <span className="font-medium text-gray-700">{team.team}</span>
+                  <span className="text-gray-500">{team.percent}% · {team.occupiedRoomDays}/{team.roomDays} room-days</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${team.percent}%` }} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="lg:col-span-2 bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-gray-800 mb-1">Room Heat Map</h3>
+          <p className="text-sm text-gray-500 mb-4">Share of days each room had a patient.</p>
+          <div className="space-y-3">
+            {roomGroups.map(group => (
+              <div key={group.team}>
+                <h4 className="text-xs text-gray-400 uppercase font-semibold mb-1">{group.team}</h4>
+                <div className="grid grid-cols-4 sm:grid-cols-8 gap-1">
+                  {group.rooms.map(room => (
+                    <div
+                      key={room.room}
+                      title={`${room.room}: occupied ${room.daysOccupied} of ${room.daysListed} days`}
+                      className={`rounded p-1 text-center text-xs ${heatColor(room.percent)}`}
+                    >
+                      <p className="font-semibold">{room.room}</p>
+                      <p>{room.percent}%</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-8 bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Daily Census</h3>
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-xs text-gray-500">
+                <th className="pb-1 pr-2 font-medium">Date</th>
+                <th className="pb-1 pr-2 font-medium">Occupied</th>
+                <th className="pb-1 pr-2 font-medium">Empty</th>
+                <th className="pb-1 pr-2 font-medium">Occupancy</th>
+                {report.teams.map(team => <th key={team.team} className="pb-1 pr-2 font-medium">{team.team}</th>)}
+                <th className="pb-1 font-medium">Empty Rooms</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...report.days].reverse().map(day => (
+                <tr key={day.date} className="border-t border-gray-100 align-top">
+                  <td className="py-1 pr-2 font-medium">{day.date}</td>
+                  <td className="py-1 pr-2">{day.occupied}</td>
+                  <td className="py-1 pr-2">{day.emptyRooms.length}</td>
+                  <td className="py-1 pr-2">{day.percent}%</td>
+                  {report.teams.map(team => {
+                    const counts = day.teams[team.team];
+                    return <td key={team.team} className="py-1 pr-2 text-gray-600">{counts ? `${counts.occupied}/${counts.totalRooms}` : '—'}</td>;
+                  })}
+                  <td className="py-1 text-gray-500">{day.emptyRooms.join(', ') || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
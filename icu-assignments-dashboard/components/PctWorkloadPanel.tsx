@@ -0,0 +1,86 @@
+import { useMemo, FC } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Roster, NurseAliasTable, ShiftView, Shift } from '../types';
+import { calculatePctWorkload } from '../services/pctService';
+import { UsersIcon } from './icons';
+
+interface PctWorkloadPanelProps {
+  // Rosters inside the dashboard's date range.
+  rosters: Roster[];
+  aliases: NurseAliasTable;
+  shiftView: ShiftView;
+}
+
+const SHIFT_COLUMNS: { shift: Shift; label: string; color: string }[] = [
+  { shift: 'day', label: 'Day', color: '#818cf8' },
+  { shift: 'night', label: 'Night', color: '#475569' },
+];
+
+export const PctWorkloadPanel: FC<PctWorkloadPanelProps> = ({ rosters, aliases, shiftView }) => {
+  const workloads = useMemo(() => calculatePctWorkload(rosters, aliases), [rosters, aliases]);
+  const columns = SHIFT_COLUMNS.filter(({ shift }) => shiftView === 'combined' || shiftView === shift);
+
+  const rows = workloads
+    .filter(workload => columns.some(({ shift }) => workload.shifts[shift].shiftsWorked > 0))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (rows.length === 0) return null;
+
+  const chartData = rows.map(workload => ({
+    name: workload.name,
+    day: workload.shifts.day.avgPatients,
+    night: workload.shifts.night.avgPatients,
+  }));
+
+  return (
+    <details className="mt-8 bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <summary className="cursor-pointer text-lg font-bold text-gray-800 inline-flex items-center gap-2">
+        <UsersIcon className="w-5 h-5 text-indigo-500" />
+        PCT Workload
+        <span className="text-sm font-medium text-gray-500">({rows.length} PCT{rows.length !== 1 ? 's' : ''})</span>
+      </summary>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Occupied rooms in each PCT's room ranges per shift. A room listed under two PCTs counts for both.
+      </p>
+
+      <div style={{ width: '100%', height: 240 }} className="mb-4">
+        <ResponsiveContainer>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="name" stroke="#4b5563" tick={{ fontSize: 11 }} />
+            <YAxis stroke="#4b5563" width={32} />
+            <Tooltip />
+            <Legend verticalAlign="top" height={24} />
+            {columns.map(({ shift, label, color }) => <Bar key={shift} dataKey={shift} name={`${label} avg. patients`} fill={color} />)}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-1 pr-2 font-medium">PCT</th>
+            {columns.map(({ shift, label }) => (
+              <th key={shift} className="pb-1 pr-2 font-medium">{label} shifts · avg · max</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(workload => (
+            <tr key={workload.name} className="border-t border-gray-100">
+              <td className="py-1 pr-2 font-medium text-gray-800">{workload.name}</td>
+              {columns.map(({ shift }) => {
+                const totals = workload.shifts[shift];
+                return (
+                  <td key={shift} className="py-1 pr-2 text-gray-600">
+                    {totals.shiftsWorked > 0 ? `${totals.shiftsWorked} · ${totals.avgPatients} · ${totals.maxPatients}` : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
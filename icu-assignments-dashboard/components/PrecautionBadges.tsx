@@ -0,0 +1,26 @@
+import { FC } from 'react';
+import { parsePrecautions, getPrecautionType } from '../services/precautionService';
+
+interface PrecautionBadgesProps {
+  prec: string;
+  className?: string;
+}
+
+// Colored badges for the precautions recognised in a PREC cell; renders nothing if there are none.
+export const PrecautionBadges: FC<PrecautionBadgesProps> = ({ prec, className = '' }) => {
+  const codes = parsePrecautions(prec);
+  if (codes.length === 0) return null;
+
+  return (
+    <span className={`flex flex-wrap gap-0.5 ${className}`}>
+      {codes.map(code => {
+        const type = getPrecautionType(code);
+        return (
+          <span key={code} title={`${type.label} precautions`} className={`px-1 rounded text-[10px] font-bold leading-4 ${type.badgeClass}`}>
+            {type.short}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
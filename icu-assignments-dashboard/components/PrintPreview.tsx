@@ -0,0 +1,162 @@
+import { useMemo, FC } from 'react';
+import { Roster, RosterTeam, UnitConfig } from '../types';
+import { getTeamDividerRooms } from '../services/unitConfigService';
+import { getRosterTeams } from '../services/teamService';
+import { formatRtCell } from '../services/respiratoryService';
+import { PrinterIcon, XCircleIcon } from './icons';
+
+export type PrintShift = 'both' | 'day' | 'night';
+
+interface PrintableRosterProps {
+  roster: Roster;
+  unitConfig: UnitConfig;
+  shift: PrintShift;
+}
+
+const CELL_STYLE = 'border border-black px-1 align-top';
+const HEADER_CELL_STYLE = 'border border-black px-1 bg-[#e6f2e8] font-bold text-center align-middle';
+
+// Static, input-free rendering of the roster sized to fit one letter page.
+const PrintableRoster: FC<PrintableRosterProps> = ({ roster, unitConfig, shift }) => {
+  const teams = useMemo(() => getRosterTeams(roster, unitConfig), [roster, unitConfig]);
+  const teamDividerRooms = useMemo(() => getTeamDividerRooms({ ...unitConfig, teams }), [unitConfig, teams]);
+  const showDay = shift !== 'night';
+  const showNight = shift !== 'day';
+  const printedRts = { day: showDay ? roster.respiratory.day : [], night: showNight ? roster.respiratory.night : [] };
+  // Team leads for the printed shift(s), e.g. "TEAM A (Smith / #7520)".
+  const teamLabel = (team: RosterTeam) => {
+    const leads = [
+      ...(showDay ? [team.chargeNurses.day, team.pcts.day] : []),
+      ...(showNight ? [team.chargeNurses.night, team.pcts.night] : []),
+    ].filter(Boolean);
+    return leads.length > 0 ? `${team.name} (${leads.join(' / ')})` : team.name;
+  };
+
+  return (
+    <div className="bg-white text-black w-[7.7in] mx-auto p-2 text-[8.5pt] leading-tight print:p-0 print:w-full">
+      <h1 className="text-center font-bold text-[12pt] mb-1">{unitConfig.unitName}</h1>
+
+      <table className="w-full border-collapse border-2 border-black">
+        <tbody>
+          <tr>
+            <td className={`${CELL_STYLE} font-bold w-[20%]`}>Date: {roster.date}</td>
+            <td className={`${CELL_STYLE} font-bold w-[20%]`}>{teams.map(teamLabel).join(' / ')}</td>
+            {showDay && (
+              <td className={CELL_STYLE}>
+                <div className="font-bold">7A-7P &middot; CHARGE NURSE: {roster.chargeNurses.day}</div>
+                <div className="whitespace-pre-line">PCT's: {roster.pctsDay}</div>
+              </td>
+            )}
+            {showNight && (
+              <td className={CELL_STYLE}>
+                <div className="font-bold">7P-7A &middot; CHARGE NURSE: {roster.chargeNurses.night}</div>
+                <div className="whitespace-pre-line">PCT's: {roster.pctsNight}</div>
+              </td>
+            )}
+          </tr>
+        </tbody>
+      </table>
+
+      <table className="w-full border-collapse border-2 border-black mt-1 table-fixed">
+        <thead>
+          <tr>
+            <th className={`${HEADER_CELL_STYLE} w-[6%]`}>RM</th>
+            <th className={`${HEADER_CELL_STYLE} w-[6%]`}>PREC</th>
+            <th className={HEADER_CELL_STYLE}>PATIENT</th>
+            <th className={`${HEADER_CELL_STYLE} w-[11%]`}>MRN</th>
+            <th className={HEADER_CELL_STYLE}>STATUS</th>
+            {showDay && <th className={HEADER_CELL_STYLE}>RN DAYS</th>}
+            {showDay && <th className={`${HEADER_CELL_STYLE} w-[6%]`}>EXT</th>}
+            {showNight && <th className={HEADER_CELL_STYLE}>RN NIGHTS</th>}
+            {showNight && <th className={`${HEADER_CELL_STYLE} w-[6%]`}>EXT</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {roster.assignments.map(row => (
+            <tr key={row.room} className={`h-[0.22in] ${teamDividerRooms.has(row.room) ? 'border-b-[3px] border-black' : ''}`}>
+              <td className={HEADER_CELL_STYLE}>{row.room}</td>
+              <td className={CELL_STYLE}>{row.prec}</td>
+              <td className={`${CELL_STYLE} truncate`}>{row.patient}</td>
+              <td className={`${CELL_STYLE} truncate`}>{row.mrn}</td>
+              <td className={`${CELL_STYLE} truncate`}>{row.status}</td>
+              {showDay && <td className={`${CELL_STYLE} truncate`}>{row.rnDay}</td>}
+              {showDay && <td className={CELL_STYLE}>{row.extDay}</td>}
+              {showNight && <td className={`${CELL_STYLE} truncate`}>{row.rnNight}</td>}
+              {showNight && <td className={CELL_STYLE}>{row.extNight}</td>}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="w-full border-collapse border-2 border-black mt-1 table-fixed">
+        <thead>
+          <tr>
+            <th className={HEADER_CELL_STYLE}>RESPIRATORY THERAPISTS:</th>
+            {showDay && <th className={HEADER_CELL_STYLE}>FLOATS (DAYS)</th>}
+            {showNight && <th className={HEADER_CELL_STYLE}>FLOATS (NIGHTS):</th>}
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="h-[0.6in]">
+            <td className={`${CELL_STYLE} whitespace-pre-line`}>{formatRtCell(printedRts).join('\n')}</td>
+            {showDay && <td className={`${CELL_STYLE} whitespace-pre-line`}>{roster.floats.day.join('\n')}</td>}
+            {showNight && <td className={`${CELL_STYLE} whitespace-pre-line`}>{roster.floats.night.join('\n')}</td>}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+
+interface PrintPreviewProps {
+  roster: Roster;
+  unitConfig: UnitConfig;
+  shift: PrintShift;
+  onShiftChange: (shift: PrintShift) => void;
+  onClose: () => void;
+}
+
+export const PrintPreview: FC<PrintPreviewProps> = ({ roster, unitConfig, shift, onShiftChange, onClose }) => {
+  const handlePrint = () => {
+    // The browser uses the document title as the suggested PDF file name.
+    const previousTitle = document.title;
+    const shiftLabel = shift === 'both' ? '' : ` ${shift}`;
+    document.title = `${unitConfig.unitName} ${roster.date}${shiftLabel}`;
+    window.print();
+    document.title = previousTitle;
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white border border-gray-200 rounded-lg p-4 mb-4 shadow-sm print:hidden">
+        <div className="flex items-center gap-2">
+          <label htmlFor="print-shift" className="text-sm text-gray-500">Columns:</label>
+          <select
+            id="print-shift"
+            value={shift}
+            onChange={(e) => onShiftChange(e.target.value as PrintShift)}
+            className="bg-white border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+          >
+            <option value="both">Day &amp; Night</option>
+            <option value="day">Day only</option>
+            <option value="night">Night only</option>
+          </select>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="flex items-center justify-center gap-2 h-[42px] px-3 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
+            <XCircleIcon className="w-4 h-4" />
+            <span>Close</span>
+          </button>
+          <button onClick={handlePrint} title="Print, or choose 'Save as PDF' as the destination" className="flex items-center justify-center gap-2 h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">
+            <PrinterIcon className="w-4 h-4" />
+            <span>Print / Save as PDF</span>
+          </button>
+        </div>
+      </div>
+      <div className="bg-white shadow-sm border border-gray-200 py-4 print:border-0 print:shadow-none print:py-0">
+        <PrintableRoster roster={roster} unitConfig={unitConfig} shift={shift} />
+      </div>
+    </div>
+  );
+};
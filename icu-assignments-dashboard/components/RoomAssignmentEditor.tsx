@@ -0,0 +1,97 @@
+import { useState, useEffect, FC } from 'react';
+import { RoomAssignment } from '../types';
+import { createRoomAssignment, findUnknownRooms, formatRoomAssignments, parseRoomAssignments } from '../services/unitConfigService';
+import { XCircleIcon } from './icons';
+
+interface RoomAssignmentEditorProps {
+  // Staff-to-rooms text in its stored form, e.g. "#7520: 501-516\n#7521: 517-532".
+  value: string;
+  onChange: (text: string) => void;
+  // Rooms the ranges are checked against, in grid order.
+  rooms: string[];
+  // What the staff are called in labels and buttons, e.g. "PCT" or "RT".
+  staffLabel: string;
+  // Names for autocomplete, e.g. from the staff directory.
+  staffOptions?: string[];
+  listId: string;
+  inputClassName?: string;
+}
+
+const INPUT_STYLE = 'bg-transparent p-1 focus:bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded-sm';
+
+/**
+ * Edits room coverage as one person and room range per row. Changes are written back
+ * as text in the same "Name: ranges" form the roster documents use.
+ */
+export const RoomAssignmentEditor: FC<RoomAssignmentEditorProps> = ({ value, onChange, rooms, staffLabel, staffOptions = [], listId, inputClassName = '' }) => {
+  const [rows, setRows] = useState<RoomAssignment[]>(() => parseRoomAssignments(value));
+
+  useEffect(() => {
+    setRows(parseRoomAssignments(value));
+  }, [value]);
+
+  // Compares against the stored text as parsed, so leaving a field untouched doesn't rewrite
+  // "Smith 501-516" as "Smith: 501-516" or add a history entry.
+  const commit = (next: RoomAssignment[]) => {
+    const text = formatRoomAssignments(next);
+    if (text !== formatRoomAssignments(parseRoomAssignments(value))) onChange(text);
+  };
+
+  const updateRow = (index: number, field: keyof RoomAssignment, fieldValue: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: fieldValue } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    const next = rows.filter((_, i) => i !== index);
+    setRows(next);
+    commit(next);
+  };
+
+  return (
+    <div className="w-full">
+      {rows.map((row, index) => {
+        const unknownRooms = findUnknownRooms(row.rooms, rooms);
+        return (
+          <div key={index}>
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                value={row.staff}
+                onChange={(e) => updateRow(index, 'staff', e.target.value)}
+                onBlur={() => commit(rows)}
+                list={listId}
+                placeholder={staffLabel}
+                aria-label={staffLabel}
+                className={`w-24 ${INPUT_STYLE} ${inputClassName}`}
+              />
+              <span>:</span>
+              <input
+                type="text"
+                value={row.rooms}
+                onChange={(e) => updateRow(index, 'rooms', e.target.value)}
+                onBlur={() => commit(rows)}
+                placeholder="501-516"
+                aria-label={`Rooms for ${row.staff || staffLabel}`}
+                className={`flex-1 min-w-0 ${INPUT_STYLE} ${inputClassName}`}
+              />
+              <button onClick={() => removeRow(index)} title={`Remove this ${staffLabel}`} className="text-gray-400 hover:text-red-600 print:hidden">
+                <XCircleIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {unknownRooms.length > 0 && (
+              <p className="text-[10px] text-amber-700 pl-1 print:hidden">Not on this unit: {unknownRooms.join(', ')}</p>
+            )}
+          </div>
+        );
+      })}
+      <button onClick={() => setRows(prev => [...prev, createRoomAssignment()])} className="text-xs text-indigo-600 hover:text-indigo-800 px-1 print:hidden">
+        + Add {staffLabel}
+      </button>
+      {staffOptions.length > 0 && (
+        <datalist id={listId}>
+          {staffOptions.map(option => <option key={option} value={option} />)}
+        </datalist>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useMemo, FC } from 'react';
+import { Roster } from '../types';
+import { ConflictResolution, StagedImport } from '../services/importService';
+import { MergeChoice, diffRosters, isEmptyDiff } from '../services/rosterDiffService';
+import { ROW_FIELD_LABELS } from '../services/historyService';
+
+interface RosterConflictProps {
+  stored: Roster;
+  item: StagedImport;
+  onChange: (update: Partial<StagedImport>) => void;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  keep: 'Keep stored',
+  replace: 'Take new',
+  merge: 'Merge per room',
+};
+
+const showValue = (value: string) => (value.trim() ? value : '(blank)');
+
+const ChoiceSelect: FC<{ value: MergeChoice; onChange: (choice: MergeChoice) => void }> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as MergeChoice)}
+    className="bg-white border border-gray-300 rounded-md py-0.5 px-1 text-xs focus:ring-1 focus:ring-indigo-500"
+  >
+    <option value="keep">Stored</option>
+    <option value="incoming">New</option>
+  </select>
+);
+
+export const RosterConflict: FC<RosterConflictProps> = ({ stored, item, onChange }) => {
+  const incoming = item.roster as Roster;
+  const diff = useMemo(() => diffRosters(stored, incoming), [stored, incoming]);
+  const isMerge = item.resolution === 'merge';
+
+  if (isEmptyDiff(diff)) {
+    return <p className="mt-2 text-sm text-gray-500">A roster for {stored.date} is already stored and is identical to this file.</p>;
+  }
+
+  return (
+    <div className="mt-2 border border-amber-200 bg-amber-50 rounded-md p-2 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-amber-800 font-medium">
+          A roster for {stored.date} is already stored: {diff.rooms.length} room{diff.rooms.length !== 1 ? 's' : ''} differ{diff.rooms.length === 1 ? 's' : ''}.
+        </span>
+        <div className="flex items-center gap-1">
+          {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+            <button
+              key={resolution}
+              onClick={() => onChange({ resolution })}
+              className={`h-7 px-2 text-xs font-medium rounded-md transition-colors duration-200 ${item.resolution === resolution ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+            >
+              {RESOLUTION_LABELS[resolution]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">The stored roster is kept as an earlier version and can be rolled back.</p>
+
+      <table className="w-full mt-2 text-xs bg-white">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="px-2 py-1 font-medium w-16">RM</th>
+            <th className="px-2 py-1 font-medium">Changes (stored → new)</th>
+            {isMerge && <th className="px-2 py-1 font-medium w-20">Use</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {diff.rooms.map(({ room, changes }) => (
+            <tr key={room} className="border-t border-gray-100 align-top">
+              <td className="px-2 py-1 font-semibold">{room}</td>
+              <td className="px-2 py-1">
+                {changes.map(change => (
+                  <div key={change.field}>
+                    <span className="text-gray-500">{ROW_FIELD_LABELS[change.field]}:</span>{' '}
+                    <span className="text-red-700 line-through">{showValue(change.before)}</span> →{' '}
+                    <span className="text-emerald-700">{showValue(change.after)}</span>
+                  </div>
+                ))}
+              </td>
+              {isMerge && (
+                <td className="px-2 py-1">
+                  <ChoiceSelect
+                    value={item.roomChoices[room] ?? 'keep'}
+                    onChange={(choice) => onChange({ roomChoices: { ...item.roomChoices, [room]: choice } })}
+                  />
+                </td>
+              )}
+            </tr>
+          ))}
+          {diff.details.length > 0 && (
+            <tr className="border-t border-gray-100 align-top">
+              <td className="px-2 py-1 font-semibold">Other</td>
+              <td className="px-2 py-1">
+                {diff.details.map(change => (
+                  <div key={change.label}>
+                    <span className="text-gray-500">{change.label}:</span>{' '}
+                    <span className="text-red-700 line-through">{showValue(change.before)}</span> →{' '}
+                    <span className="text-emerald-700">{showValue(change.after)}</span>
+                  </div>
+                ))}
+              </td>
+              {isMerge && (
+                <td className="px-2 py-1">
+                  <ChoiceSelect value={item.detailsChoice} onChange={(detailsChoice) => onChange({ detailsChoice })} />
+                </td>
+              )}
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { FC } from 'react';
+import { Roster } from '../types';
+import { PrecautionBadges } from './PrecautionBadges';
+import { XCircleIcon } from './icons';
+
+interface RosterDayDetailProps {
+  roster: Roster;
+  onClose: () => void;
+}
+
+// Read-only view of one stored roster, opened from the trend charts.
+export const RosterDayDetail: FC<RosterDayDetailProps> = ({ roster, onClose }) => {
+  const occupied = roster.assignments.filter(row => row.patient.trim() !== '').length;
+  const floats = (names: string[]) => names.filter(name => name.trim()).join(', ') || '—';
+
+  return (
+    <div className="mt-6 bg-white border border-indigo-200 rounded-lg p-4 shadow-sm">
+      <div className="flex flex-wrap justify-between items-start gap-2 mb-3">
+        <div>
+          <h3 className="text-lg font-bold text-gray-800">Roster for {roster.date}</h3>
+          <p className="text-sm text-gray-500">
+            {occupied} of {roster.assignments.length} rooms occupied · Charge {roster.chargeNurses.day || '—'} / {roster.chargeNurses.night || '—'}
+          </p>
+          <p className="text-sm text-gray-500">Floats: Day {floats(roster.floats.day)} · Night {floats(roster.floats.night)}</p>
+        </div>
+        <button onClick={onClose} title="Close roster" className="text-gray-400 hover:text-gray-600">
+          <XCircleIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+              <th className="py-1 pr-2 font-medium">RM</th>
+              <th className="py-1 pr-2 font-medium">Prec</th>
+              <th className="py-1 pr-2 font-medium">Patient</th>
+              <th className="py-1 pr-2 font-medium">Status</th>
+              <th className="py-1 pr-2 font-medium">RN Days</th>
+              <th className="py-1 font-medium">RN Nights</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roster.assignments.map(row => (
+              <tr key={row.room} className={`border-t border-gray-100 align-top ${row.patient.trim() ? '' : 'text-gray-400'}`}>
+                <td className="py-1 pr-2 font-semibold">{row.room}</td>
+                <td className="py-1 pr-2">{row.prec}<PrecautionBadges prec={row.prec} /></td>
+                <td className="py-1 pr-2 whitespace-pre-line">{row.patient || 'Empty'}</td>
+                <td className="py-1 pr-2 whitespace-pre-line">{row.status}</td>
+                <td className="py-1 pr-2">{row.rnDay}</td>
+                <td className="py-1">{row.rnNight}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { FC } from 'react';
+import { Roster, RosterVersion } from '../types';
+import { diffRosters } from '../services/rosterDiffService';
+import { versionsForDate } from '../services/versionService';
+import { HistoryIcon } from './icons';
+
+interface RosterVersionsProps {
+  versions: RosterVersion[];
+  historicalRosters: Roster[];
+  onRollback: (version: RosterVersion) => void;
+  onDelete: (version: RosterVersion) => void;
+}
+
+export const RosterVersions: FC<RosterVersionsProps> = ({ versions, historicalRosters, onRollback, onDelete }) => {
+  if (versions.length === 0) return null;
+
+  const currentByDate = new Map(historicalRosters.map(r => [r.date, r]));
+  const dates = Array.from(new Set(versions.map(v => v.date))).sort((a, b) => b.localeCompare(a));
+
+  return (
+    <details className="bg-white border border-gray-200 rounded-lg p-4 mb-6 shadow-sm text-black">
+      <summary className="cursor-pointer text-lg font-bold text-gray-800 inline-flex items-center gap-2">
+        <HistoryIcon className="w-5 h-5 text-indigo-500" />
+        Earlier Roster Versions ({versions.length})
+      </summary>
+      <p className="text-sm text-gray-500 mt-1 mb-3">Rosters replaced by a re-import. Rolling back keeps the current roster as another version.</p>
+
+      <div className="space-y-3 text-sm">
+        {dates.map(date => {
+          const current = currentByDate.get(date);
+          return (
+            <div key={date}>
+              <h3 className="font-semibold text-gray-700">{date}</h3>
+              <ul className="mt-1 space-y-1">
+                {versionsForDate(versions, date).map(version => {
+                  const changedRooms = current ? diffRosters(current, version.roster).rooms.length : null;
+                  return (
+                    <li key={version.id} className="flex flex-wrap items-center justify-between gap-2 border-l-4 border-gray-200 pl-2">
+                      <span className="text-gray-600">
+                        {new Date(version.replacedAt).toLocaleString()} · {version.reason}
+                        {changedRooms !== null && <span className="text-gray-400"> · {changedRooms} room{changedRooms !== 1 ? 's' : ''} differ from current</span>}
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <button onClick={() => onRollback(version)} className="text-xs text-indigo-600 hover:underline">Roll back</button>
+                        <button onClick={() => onDelete(version)} className="text-xs text-red-600 hover:underline">Delete</button>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,93 @@
+import { useMemo, FC } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Roster, NurseAliasTable, ShiftView, Shift } from '../types';
+import { calculateRtWorkload } from '../services/respiratoryService';
+import { HeartPulseIcon } from './icons';
+
+interface RtWorkloadPanelProps {
+  // Rosters inside the dashboard's date range.
+  rosters: Roster[];
+  aliases: NurseAliasTable;
+  shiftView: ShiftView;
+}
+
+const SHIFT_COLUMNS: { shift: Shift; label: string; color: string; ventColor: string }[] = [
+  { shift: 'day', label: 'Day', color: '#5eead4', ventColor: '#0d9488' },
+  { shift: 'night', label: 'Night', color: '#94a3b8', ventColor: '#334155' },
+];
+
+export const RtWorkloadPanel: FC<RtWorkloadPanelProps> = ({ rosters, aliases, shiftView }) => {
+  const workloads = useMemo(() => calculateRtWorkload(rosters, aliases), [rosters, aliases]);
+  const columns = SHIFT_COLUMNS.filter(({ shift }) => shiftView === 'combined' || shiftView === shift);
+
+  const rows = workloads
+    .filter(workload => columns.some(({ shift }) => workload.shifts[shift].shiftsWorked > 0))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (rows.length === 0) return null;
+
+  const chartData = rows.map(workload => ({
+    name: workload.name,
+    dayPatients: workload.shifts.day.avgPatients,
+    dayVented: workload.shifts.day.avgVentilated,
+    nightPatients: workload.shifts.night.avgPatients,
+    nightVented: workload.shifts.night.avgVentilated,
+  }));
+
+  return (
+    <details className="mt-8 bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <summary className="cursor-pointer text-lg font-bold text-gray-800 inline-flex items-center gap-2">
+        <HeartPulseIcon className="w-5 h-5 text-teal-500" />
+        RT Workload
+        <span className="text-sm font-medium text-gray-500">({rows.length} RT{rows.length !== 1 ? 's' : ''})</span>
+      </summary>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Patients with a vent, trach, BiPAP/CPAP or high flow in their STATUS within each RT's rooms, per shift the RT worked.
+      </p>
+
+      <div style={{ width: '100%', height: 240 }} className="mb-4">
+        <ResponsiveContainer>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="name" stroke="#4b5563" tick={{ fontSize: 11 }} />
+            <YAxis stroke="#4b5563" width={32} />
+            <Tooltip />
+            <Legend verticalAlign="top" height={24} />
+            {columns.flatMap(({ shift, label, color, ventColor }) => [
+              <Bar key={`${shift}-patients`} dataKey={`${shift}Patients`} name={`${label} avg. respiratory patients`} fill={color} />,
+              <Bar key={`${shift}-vented`} dataKey={`${shift}Vented`} name={`${label} avg. vented`} fill={ventColor} />,
+            ])}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-1 pr-2 font-medium">RT</th>
+            {columns.map(({ shift, label }) => (
+              <th key={shift} className="pb-1 pr-2 font-medium">{label} shifts · patients · vented · avg · max</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(workload => (
+            <tr key={workload.name} className="border-t border-gray-100">
+              <td className="py-1 pr-2 font-medium text-gray-800">{workload.name}</td>
+              {columns.map(({ shift }) => {
+                const totals = workload.shifts[shift];
+                return (
+                  <td key={shift} className="py-1 pr-2 text-gray-600">
+                    {totals.shiftsWorked > 0
+                      ? `${totals.shiftsWorked} · ${totals.respiratoryPatients} · ${totals.ventilatedPatients} · ${totals.avgPatients} · ${totals.maxPatients}`
+                      : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
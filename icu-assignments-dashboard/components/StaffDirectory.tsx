@@ -0,0 +1,134 @@
+import { useState, useEffect, FC } from 'react';
+import { StaffMember, StaffRole } from '../types';
+import { STAFF_ROLES, createStaffMember, normalizeBadgeNumber, validateStaffDirectory } from '../services/staffService';
+import { TrashIcon } from './icons';
+
+interface StaffDirectoryProps {
+  staffDirectory: StaffMember[];
+  onSave: (directory: StaffMember[]) => void;
+}
+
+interface DraftMember {
+  id: string;
+  name: string;
+  badgeNumber: string;
+  role: StaffRole;
+  fte: string;
+  credentials: string;
+}
+
+const INPUT_STYLE = 'w-full bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+const toDraft = (member: StaffMember): DraftMember => ({
+  id: member.id,
+  name: member.name,
+  badgeNumber: member.badgeNumber,
+  role: member.role,
+  fte: member.fte === null ? '' : String(member.fte),
+  credentials: member.credentials.join(', '),
+});
+
+export const StaffDirectory: FC<StaffDirectoryProps> = ({ staffDirectory, onSave }) => {
+  const [members, setMembers] = useState<DraftMember[]>(staffDirectory.map(toDraft));
+  const [roleFilter, setRoleFilter] = useState<StaffRole | ''>('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    setMembers(staffDirectory.map(toDraft));
+    setErrors([]);
+  }, [staffDirectory]);
+
+  const updateMember = (id: string, field: keyof DraftMember, value: string) => {
+    setMembers(prev => prev.map(member => (member.id === id ? { ...member, [field]: value } : member)));
+  };
+
+  const handleSave = () => {
+    const parsed: StaffMember[] = members
+      .filter(member => member.name.trim() || member.badgeNumber.trim())
+      .map(member => ({
+        id: member.id,
+        name: member.name.trim(),
+        badgeNumber: normalizeBadgeNumber(member.badgeNumber),
+        role: member.role,
+        fte: member.fte.trim() === '' ? null : Number(member.fte),
+        credentials: member.credentials.split(',').map(c => c.trim().toUpperCase()).filter(Boolean),
+      }));
+
+    const problems = validateStaffDirectory(parsed);
+    setErrors(problems);
+    if (problems.length === 0) onSave(parsed);
+  };
+
+  const visibleMembers = members.filter(member => !roleFilter || member.role === roleFilter);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-black mt-6">
+      <div className="flex flex-wrap justify-between items-start gap-2">
+        <div>
+          <h2 className="text-lg font-bold text-gray-800">Staff Directory</h2>
+          <p className="text-sm text-gray-500 mb-4">RNs, float pool and travel nurses are suggested in the RN DAYS / RN NIGHTS columns of the roster.</p>
+        </div>
+        <select
+          value={roleFilter}
+          onChange={(e) => setRoleFilter(e.target.value as StaffRole | '')}
+          aria-label="Filter staff by role"
+          className="bg-white border border-gray-300 rounded-md py-1 px-2 text-sm focus:ring-1 focus:ring-indigo-500"
+        >
+          <option value="">All roles ({members.length})</option>
+          {STAFF_ROLES.map(role => (
+            <option key={role} value={role}>{role} ({members.filter(m => m.role === role).length})</option>
+          ))}
+        </select>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-1 pr-2 font-medium">Name</th>
+            <th className="pb-1 pr-2 w-28 font-medium">Badge #</th>
+            <th className="pb-1 pr-2 w-32 font-medium">Role</th>
+            <th className="pb-1 pr-2 w-20 font-medium">FTE</th>
+            <th className="pb-1 pr-2 font-medium">Credentials (comma separated)</th>
+            <th className="pb-1 w-10"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleMembers.map(member => (
+            <tr key={member.id}>
+              <td className="pr-2 py-1"><input type="text" value={member.name} onChange={(e) => updateMember(member.id, 'name', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="pr-2 py-1"><input type="text" value={member.badgeNumber} placeholder="#7501" onChange={(e) => updateMember(member.id, 'badgeNumber', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="pr-2 py-1">
+                <select value={member.role} onChange={(e) => updateMember(member.id, 'role', e.target.value)} className={INPUT_STYLE}>
+                  {STAFF_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </td>
+              <td className="pr-2 py-1"><input type="number" step="0.1" min="0" value={member.fte} onChange={(e) => updateMember(member.id, 'fte', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="pr-2 py-1"><input type="text" value={member.credentials} placeholder="CCRN, BLS" onChange={(e) => updateMember(member.id, 'credentials', e.target.value)} className={INPUT_STYLE} /></td>
+              <td className="py-1">
+                <button onClick={() => setMembers(prev => prev.filter(m => m.id !== member.id))} title="Remove staff member" className="p-1 text-gray-400 hover:text-red-600">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {visibleMembers.length === 0 && <p className="text-sm text-gray-500 py-2">No staff added yet.</p>}
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-700 list-disc list-inside" role="alert">
+          {errors.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-between gap-2 mt-4">
+        <button onClick={() => setMembers(prev => [...prev, toDraft(createStaffMember('', roleFilter || 'RN'))])} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
+          Add Staff Member
+        </button>
+        <button onClick={handleSave} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">
+          Save Directory
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import { useState, useEffect, FC } from 'react';
+import { Roster, UnitConfig, AcuityTable, Shift } from '../types';
+import { suggestAssignments, applySuggestions, SuggestionResult, DEFAULT_SUGGESTION_OPTIONS } from '../services/suggestionService';
+import { XCircleIcon } from './icons';
+
+interface SuggestionPanelProps {
+  roster: Roster;
+  unitConfig: UnitConfig;
+  acuityTable: AcuityTable;
+  availableNurses: { day: string[]; night: string[] };
+  onApply: (updatedRoster: Roster) => void;
+  onClose: () => void;
+}
+
+const BUTTON_STYLE = 'h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200';
+
+export const SuggestionPanel: FC<SuggestionPanelProps> = ({ roster, unitConfig, acuityTable, availableNurses, onApply, onClose }) => {
+  const [shift, setShift] = useState<Shift>('day');
+  const [nursesText, setNursesText] = useState(availableNurses.day.join('\n'));
+  const [keepExisting, setKeepExisting] = useState(DEFAULT_SUGGESTION_OPTIONS.keepExisting);
+  const [result, setResult] = useState<SuggestionResult | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  // A proposal is only valid for the roster it was generated from.
+  useEffect(() => {
+    setResult(null);
+  }, [roster]);
+
+  const handleShiftChange = (newShift: Shift) => {
+    setShift(newShift);
+    setNursesText(availableNurses[newShift].join('\n'));
+    setResult(null);
+  };
+
+  const handleGenerate = () => {
+    const nurses = nursesText.split('\n').map(n => n.trim()).filter(Boolean);
+    const suggestion = suggestAssignments(roster, unitConfig, shift, nurses, acuityTable, { ...DEFAULT_SUGGESTION_OPTIONS, keepExisting });
+    setResult(suggestion);
+    setSelected(new Set(suggestion.changes.map((_, i) => i)));
+  };
+
+  const toggleChange = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(applySuggestions(roster, result.changes.filter((_, i) => selected.has(i))));
+    onClose();
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 mb-4 shadow-sm text-black print:hidden">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-800">Suggest Assignments</h2>
+          <p className="text-sm text-gray-500">Balances acuity across the listed nurses, keeps 1:1s dedicated and groups adjacent rooms on the same team.</p>
+        </div>
+        <button onClick={onClose} title="Close" className="p-1 text-gray-400 hover:text-gray-600">
+          <XCircleIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="suggest-shift" className="text-xs text-gray-500 mb-1 block">Shift</label>
+            <select
+              id="suggest-shift"
+              value={shift}
+              onChange={(e) => handleShiftChange(e.target.value as Shift)}
+              className="w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+            >
+              <option value="day">RN DAYS</option>
+              <option value="night">RN NIGHTS</option>
+            </select>
+          </div>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input type="checkbox" checked={keepExisting} onChange={() => setKeepExisting(!keepExisting)} className="h-4 w-4 rounded bg-gray-100 border-gray-300 text-indigo-600 focus:ring-indigo-500" />
+            <span className="text-sm text-gray-600">Keep existing assignments</span>
+          </label>
+        </div>
+        <div className="md:col-span-2">
+          <label htmlFor="suggest-nurses" className="text-xs text-gray-500 mb-1 block">Available nurses (one per line)</label>
+          <textarea
+            id="suggest-nurses"
+            rows={4}
+            value={nursesText}
+            onChange={(e) => setNursesText(e.target.value)}
+            className="w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end mt-3">
+        <button onClick={handleGenerate} className={`${BUTTON_STYLE} bg-indigo-600 text-white hover:bg-indigo-700`}>Generate Proposal</button>
+      </div>
+
+      {result && (
+        <div className="mt-4 border-t border-gray-200 pt-4">
+          {result.unassignedRooms.length > 0 && (
+            <div className="mb-3 p-3 bg-amber-100 border border-amber-400 text-amber-800 rounded-lg text-sm" role="alert">
+              Not enough nurses to cover room{result.unassignedRooms.length !== 1 ? 's' : ''} {result.unassignedRooms.join(', ')}.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="lg:col-span-2">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Proposed changes ({result.changes.length})</h3>
+              {result.changes.length === 0 ? (
+                <p className="text-sm text-gray-500">The current assignments already match the proposal.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="pb-1 w-8"></th>
+                      <th className="pb-1 font-medium">Room</th>
+                      <th className="pb-1 font-medium">Patient</th>
+                      <th className="pb-1 font-medium">Status</th>
+                      <th className="pb-1 font-medium">Current</th>
+                      <th className="pb-1 font-medium">Suggested</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.changes.map((change, index) => {
+                      const row = roster.assignments[change.rowIndex];
+                      return (
+                        <tr key={`${change.rowIndex}-${change.field}`} className="border-t border-gray-100">
+                          <td className="py-1"><input type="checkbox" checked={selected.has(index)} onChange={() => toggleChange(index)} className="h-4 w-4 rounded border-gray-300 text-indigo-600" /></td>
+                          <td className="py-1 font-semibold text-gray-800">{change.room}</td>
+                          <td className="py-1 text-gray-600">{row.patient}</td>
+                          <td className="py-1 text-gray-600">{row.status}</td>
+                          <td className="py-1 text-red-700 line-through">{change.from}</td>
+                          <td className="py-1 text-emerald-700 font-medium">{change.to || <span className="text-amber-700 italic">Unassigned</span>}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Resulting load</h3>
+              <ul className="space-y-1 text-sm">
+                {result.nurseLoads.map(load => (
+                  <li key={load.name} className="flex justify-between gap-2 text-gray-600">
+                    <span className="font-semibold text-gray-800 truncate">{load.name}</span>
+                    <span>{load.patientCount} pt &middot; acuity {load.acuityScore} &middot; {load.rooms.join(', ') || '—'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={() => setResult(null)} className={`${BUTTON_STYLE} bg-gray-200 text-gray-600 hover:bg-gray-300`}>Discard</button>
+            <button onClick={handleApply} disabled={selected.size === 0} className={`${BUTTON_STYLE} bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50`}>
+              Apply {selected.size} Change{selected.size !== 1 ? 's' : ''}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,8 @@
 import { FC, ReactNode } from 'react';
-import { UsersIcon, FileTextIcon, AlertTriangleIcon, HeartPulseIcon, BriefcaseIcon } from './icons';
+import { Shift, ShiftView, DateRange } from '../types';
+import { SummaryCounts, PeriodSummary } from '../services/statsService';
+import { formatDateRange } from '../services/dateRangeService';
+import { UsersIcon, FileTextIcon, AlertTriangleIcon, HeartPulseIcon, BriefcaseIcon, RepeatIcon } from './icons';
 
 interface SummaryStatsProps {
   totalNurses: number;
@@ -7,17 +10,41 @@ interface SummaryStatsProps {
   totalTriples: number;
   totalOneToOnes: number;
   totalFloats: number;
+  continuityRate: number | null;
   historicalRosterCount: number;
+  shiftView: ShiftView;
+  shiftSummaries: Record<Shift, SummaryCounts>;
+  range: DateRange | null;
+  comparisonRange: DateRange | null;
+  comparison: PeriodSummary | null;
 }
 
-const StatCard: FC<{ icon: ReactNode; title: string; value: string | number; color: string }> = ({ icon, title, value, color }) => (
+const SHIFT_TITLES: Record<ShiftView, string> = {
+  day: 'Day Shift',
+  night: 'Night Shift',
+  combined: 'Both Shifts',
+};
+
+// Change against the comparison period. Only metrics with a better direction are coloured.
+const DeltaBadge: FC<{ delta: number; unit?: string; better?: 'up' | 'down' }> = ({ delta, unit = '', better }) => {
+  const improved = better === 'up' ? delta > 0 : delta < 0;
+  const tone = !better || delta === 0 ? 'text-gray-500' : improved ? 'text-emerald-600' : 'text-red-600';
+  return (
+    <span className={`ml-2 text-xs font-semibold ${tone}`}>
+      {delta > 0 ? '▲' : delta < 0 ? '▼' : '±'}{Math.abs(delta)}{unit}
+    </span>
+  );
+};
+
+const StatCard: FC<{ icon: ReactNode; title: string; value: string | number; color: string; detail?: string; delta?: ReactNode }> = ({ icon, title, value, color, detail, delta }) => (
   <div className="bg-white p-5 rounded-lg border border-gray-200 flex items-center space-x-4 shadow-sm">
     <div className={`rounded-full p-3 bg-gray-100`}>
       {icon}
     </div>
     <div>
       <p className="text-sm text-gray-500 font-medium">{title}</p>
-      <p className={`text-2xl font-bold ${color}`}>{value}</p>
+      <p className={`text-2xl font-bold ${color}`}>{value}{delta}</p>
+      {detail && <p className="text-xs text-gray-400">{detail}</p>}
     </div>
   </div>
 );
@@ -29,45 +56,85 @@ export const SummaryStats: FC<SummaryStatsProps> = ({
   totalTriples,
   totalOneToOnes,
   totalFloats,
-  historicalRosterCount
+  continuityRate,
+  historicalRosterCount,
+  shiftView,
+  shiftSummaries,
+  range,
+  comparisonRange,
+  comparison
   }) => {
+  // In the combined view each card also shows its day and night split.
+  const shiftDetail = (key: keyof SummaryCounts) =>
+    shiftView === 'combined' ? `Day ${shiftSummaries.day[key]} · Night ${shiftSummaries.night[key]}` : undefined;
+
+  const values: SummaryCounts = { totalNurses, totalPatients, totalTriples, totalOneToOnes, totalFloats };
+  const countDelta = (key: keyof SummaryCounts, better?: 'up' | 'down') =>
+    comparison ? <DeltaBadge delta={values[key] - comparison.summaryStats[key]} better={better} /> : undefined;
+  const previousContinuity = comparison?.summaryStats.continuityRate ?? null;
+  const continuityDelta = continuityRate !== null && previousContinuity !== null
+    ? <DeltaBadge delta={Math.round((continuityRate - previousContinuity) * 100)} unit=" pts" better="up" />
+    : undefined;
+
   return (
     <>
       <div className="mb-4">
         <h2 className="text-xl font-bold text-gray-800">
-          Historical Summary <span className="text-base font-normal text-gray-500">(from {historicalRosterCount} roster{historicalRosterCount !== 1 ? 's' : ''})</span>
+          Historical Summary: {SHIFT_TITLES[shiftView]} <span className="text-base font-normal text-gray-500">(from {historicalRosterCount} roster{historicalRosterCount !== 1 ? 's' : ''} · {formatDateRange(range)})</span>
         </h2>
+        {comparison && (
+          <p className="text-sm text-gray-500">
+            Changes are against {formatDateRange(comparisonRange)} ({comparison.rosterCount} roster{comparison.rosterCount !== 1 ? 's' : ''}).
+          </p>
+        )}
       </div>
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
         <StatCard 
           icon={<UsersIcon className="w-6 h-6 text-indigo-500" />}
           title="Total Nurses"
           value={totalNurses}
           color="text-gray-900"
+          detail={shiftDetail('totalNurses')}
+          delta={countDelta('totalNurses')}
         />
         <StatCard 
           icon={<FileTextIcon className="w-6 h-6 text-cyan-500" />}
           title="Total Patients"
           value={totalPatients}
           color="text-gray-900"
+          detail={shiftDetail('totalPatients')}
+          delta={countDelta('totalPatients')}
         />
         <StatCard 
           icon={<BriefcaseIcon className="w-6 h-6 text-sky-500" />}
           title="Float Assignments"
           value={totalFloats}
           color="text-sky-600"
+          detail={shiftDetail('totalFloats')}
+          delta={countDelta('totalFloats')}
         />
         <StatCard 
           icon={<AlertTriangleIcon className="w-6 h-6 text-amber-500" />}
           title="Triple Assignments"
           value={totalTriples}
           color="text-amber-600"
+          detail={shiftDetail('totalTriples')}
+          delta={countDelta('totalTriples', 'down')}
         />
         <StatCard 
           icon={<HeartPulseIcon className="w-6 h-6 text-rose-500" />}
           title="High-Acuity 1:1s"
           value={totalOneToOnes}
           color="text-rose-600"
+          detail={shiftDetail('totalOneToOnes')}
+          delta={countDelta('totalOneToOnes')}
+        />
+        <StatCard 
+          icon={<RepeatIcon className="w-6 h-6 text-emerald-500" />}
+          title="Continuity of Care"
+          value={continuityRate === null ? '—' : `${Math.round(continuityRate * 100)}%`}
+          color="text-emerald-600"
+          delta={continuityDelta}
         />
       </div>
     </>
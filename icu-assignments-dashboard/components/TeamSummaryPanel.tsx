@@ -0,0 +1,70 @@
+import { FC } from 'react';
+import { TeamSummary } from '../services/teamService';
+import { UsersIcon } from './icons';
+
+interface TeamSummaryPanelProps {
+  // Summaries for every team in the date range; not narrowed by the team filter.
+  summaries: TeamSummary[];
+  teamFilter: string;
+  onSelectTeam: (name: string) => void;
+}
+
+export const TeamSummaryPanel: FC<TeamSummaryPanelProps> = ({ summaries, teamFilter, onSelectTeam }) => {
+  const rows = summaries.filter(summary => summary.rosterCount > 0);
+  if (rows.length === 0) return null;
+
+  return (
+    <details className="mt-8 bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <summary className="cursor-pointer text-lg font-bold text-gray-800 inline-flex items-center gap-2">
+        <UsersIcon className="w-5 h-5 text-indigo-500" />
+        Teams
+        <span className="text-sm font-medium text-gray-500">({rows.length} team{rows.length !== 1 ? 's' : ''})</span>
+      </summary>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Census and staffing for each team's rooms. Select a team to narrow the whole dashboard to it.
+      </p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500">
+            <th className="pb-1 pr-2 font-medium">Team</th>
+            <th className="pb-1 pr-2 font-medium">Rosters</th>
+            <th className="pb-1 pr-2 font-medium">Avg. census</th>
+            <th className="pb-1 pr-2 font-medium">Patients / RN</th>
+            <th className="pb-1 pr-2 font-medium">Nurses</th>
+            <th className="pb-1 pr-2 font-medium">Triples</th>
+            <th className="pb-1 pr-2 font-medium">1-to-1s</th>
+            <th className="pb-1 pr-2 font-medium">Charge / resource</th>
+            <th className="pb-1 pr-2 font-medium">PCTs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(summary => {
+            const isSelected = summary.name === teamFilter;
+            return (
+              <tr key={summary.name} className={`border-t border-gray-100 ${isSelected ? 'bg-indigo-50' : ''}`}>
+                <td className="py-1 pr-2">
+                  <button
+                    onClick={() => onSelectTeam(isSelected ? '' : summary.name)}
+                    title={isSelected ? 'Show all teams' : `Show only ${summary.name}`}
+                    className="font-medium text-indigo-700 hover:underline"
+                  >
+                    {summary.name}
+                  </button>
+                </td>
+                <td className="py-1 pr-2 text-gray-600">{summary.rosterCount}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.avgCensus}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.avgPatientsPerRn ?? '—'}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.nurses}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.triples}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.oneToOnes}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.chargeNurses.join(', ') || '—'}</td>
+                <td className="py-1 pr-2 text-gray-600">{summary.pcts.join(', ') || '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </details>
+  );
+};
@@ -0,0 +1,155 @@
+import { useMemo, FC, ReactElement } from 'react';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { ShiftView, PrecautionCode } from '../types';
+import { DailyTrendPoint } from '../services/trendService';
+import { PRECAUTION_TYPES } from '../services/precautionService';
+
+interface TrendChartsProps {
+  trends: DailyTrendPoint[];
+  shiftView: ShiftView;
+  selectedDate: string | null;
+  onSelectDate: (date: string) => void;
+}
+
+// Also holds the patients per precaution code, e.g. `contact`.
+interface TrendDataItem extends Record<PrecautionCode, number> {
+  date: string;
+  census: number;
+  dayAvg: number | null;
+  nightAvg: number | null;
+  triples: number;
+  oneToOnes: number;
+  dayFloats: number;
+  nightFloats: number;
+  isolationPatients: number;
+}
+
+interface TrendTooltipProps {
+  active?: boolean;
+  payload?: { value: number | null; name?: string; color?: string }[];
+  label?: string | number;
+}
+
+const TrendTooltip: FC<TrendTooltipProps> = ({ active, payload, label }) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-white/80 p-3 border border-gray-300 rounded-lg backdrop-blur-sm shadow-md">
+        <p className="label text-gray-700 font-semibold">{`${label}`}</p>
+        {payload.map(entry => (
+          <p key={entry.name} className="intro text-gray-600" style={{ color: entry.color }}>{`${entry.name}: ${entry.value ?? '—'}`}</p>
+        ))}
+        <p className="text-xs text-gray-400 mt-1">Click to view this day's roster</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+const PRECAUTION_COLORS: Record<PrecautionCode, string> = {
+  contact: '#fbbf24',
+  droplet: '#38bdf8',
+  airborne: '#f87171',
+  enteric: '#fb923c',
+  neutropenic: '#a78bfa',
+};
+
+// Every chart shares the same frame; clicking anywhere on a date selects that day's roster.
+const TrendChart: FC<{ title: string; children: ReactElement }> = ({ title, children }) => (
+  <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+    <h3 className="text-lg font-semibold text-gray-800 mb-6">{title}</h3>
+    <div style={{ width: '100%', height: 260 }} className="cursor-pointer">
+      <ResponsiveContainer>{children}</ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export const TrendCharts: FC<TrendChartsProps> = ({ trends, shiftView, selectedDate, onSelectDate }) => {
+  const data = useMemo<TrendDataItem[]>(() => trends.map(point => {
+    const { day, night } = point.shifts;
+    const showDay = shiftView !== 'night';
+    const showNight = shiftView !== 'day';
+    return {
+      date: point.date,
+      census: point.census,
+      dayAvg: day.avgPatientsPerRn,
+      nightAvg: night.avgPatientsPerRn,
+      triples: (showDay ? day.triples : 0) + (showNight ? night.triples : 0),
+      oneToOnes: (showDay ? day.oneToOnes : 0) + (showNight ? night.oneToOnes : 0),
+      dayFloats: day.floats,
+      nightFloats: night.floats,
+      isolationPatients: point.isolationPatients,
+      ...point.precautions,
+    };
+  }), [trends, shiftView]);
+
+  // A single day has no trend to show.
+  if (data.length < 2) return null;
+
+  const handleClick = (state: { activeLabel?: string } | null) => {
+    if (state?.activeLabel) onSelectDate(String(state.activeLabel));
+  };
+
+  // Shared axes, tooltip and a marker on the day currently shown below the charts.
+  const axes = (allowDecimals: boolean) => (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+      <XAxis dataKey="date" stroke="#4b5563" tick={{ fontSize: 11 }} />
+      <YAxis stroke="#4b5563" allowDecimals={allowDecimals} width={32} />
+      <Tooltip content={<TrendTooltip />} />
+      <Legend verticalAlign="top" height={24} />
+      {selectedDate && <ReferenceLine x={selectedDate} stroke="#6366f1" strokeDasharray="4 2" />}
+    </>
+  );
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">Daily Trends</h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <TrendChart title="Daily Census (Occupied Rooms)">
+          <LineChart data={data} onClick={handleClick}>
+            {axes(false)}
+            <Line type="monotone" dataKey="census" name="Census" stroke="#06b6d4" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} />
+          </LineChart>
+        </TrendChart>
+
+        <TrendChart title="Average Patients per RN">
+          <LineChart data={data} onClick={handleClick}>
+            {axes(true)}
+            {shiftView !== 'night' && <Line type="monotone" dataKey="dayAvg" name="Day" stroke="#818cf8" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} connectNulls />}
+            {shiftView !== 'day' && <Line type="monotone" dataKey="nightAvg" name="Night" stroke="#475569" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} connectNulls />}
+          </LineChart>
+        </TrendChart>
+
+        <TrendChart title="Triples and 1:1s per Day">
+          <LineChart data={data} onClick={handleClick}>
+            {axes(false)}
+            <Line type="monotone" dataKey="triples" name="Triples" stroke="#fbbf24" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} />
+            <Line type="monotone" dataKey="oneToOnes" name="1:1s" stroke="#fb7185" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} />
+          </LineChart>
+        </TrendChart>
+
+        <TrendChart title="Floats Used per Day">
+          <BarChart data={data} onClick={handleClick}>
+            {axes(false)}
+            {shiftView !== 'night' && <Bar dataKey="dayFloats" name="Day" stackId="floats" fill="#38bdf8" />}
+            {shiftView !== 'day' && <Bar dataKey="nightFloats" name="Night" stackId="floats" fill="#475569" />}
+          </BarChart>
+        </TrendChart>
+
+        <TrendChart title="Isolation Patients per Day">
+          <BarChart data={data} onClick={handleClick}>
+            {axes(false)}
+            {PRECAUTION_TYPES.map(type => <Bar key={type.code} dataKey={type.code} name={type.label} stackId="precautions" fill={PRECAUTION_COLORS[type.code]} />)}
+          </BarChart>
+        </TrendChart>
+
+        <TrendChart title="Patients on Any Precaution">
+          <LineChart data={data} onClick={handleClick}>
+            {axes(false)}
+            <Line type="monotone" dataKey="isolationPatients" name="Isolation patients" stroke="#8b5cf6" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 6 }} />
+          </LineChart>
+        </TrendChart>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState, useEffect, FC } from 'react';
+import { UnitConfig } from '../types';
+import {
+  DEFAULT_UNIT_CONFIG,
+  parseRoomList,
+  parseTeamDefinitions,
+  formatTeamDefinitions,
+  validateUnitConfig,
+} from '../services/unitConfigService';
+import { RoomAssignmentEditor } from './RoomAssignmentEditor';
+
+interface UnitSettingsProps {
+  unitConfig: UnitConfig;
+  onSave: (config: UnitConfig) => void;
+}
+
+const INPUT_STYLE = 'w-full bg-white border border-gray-300 rounded-md py-2 px-3 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition';
+
+export const UnitSettings: FC<UnitSettingsProps> = ({ unitConfig, onSave }) => {
+  const [unitName, setUnitName] = useState(unitConfig.unitName);
+  const [roomsText, setRoomsText] = useState(unitConfig.rooms.join(', '));
+  const [teamsText, setTeamsText] = useState(formatTeamDefinitions(unitConfig));
+  const [defaultPcts, setDefaultPcts] = useState(unitConfig.defaultPcts);
+  const [defaultChargeNurse, setDefaultChargeNurse] = useState(unitConfig.defaultChargeNurse);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const loadDraft = (config: UnitConfig) => {
+    setUnitName(config.unitName);
+    setRoomsText(config.rooms.join(', '));
+    setTeamsText(formatTeamDefinitions(config));
+    setDefaultPcts(config.defaultPcts);
+    setDefaultChargeNurse(config.defaultChargeNurse);
+    setProblems([]);
+  };
+
+  useEffect(() => {
+    loadDraft(unitConfig);
+  }, [unitConfig]);
+
+  const handleSave = () => {
+    const rooms = parseRoomList(roomsText);
+    const { teams, rejected } = parseTeamDefinitions(teamsText, rooms);
+    const draft: UnitConfig = {
+      unitName: unitName.trim(),
+      rooms,
+      teams,
+      defaultPcts,
+      defaultChargeNurse: defaultChargeNurse.trim(),
+    };
+    const validationProblems = [
+      ...rejected.map(line => `Team line "${line}" needs a name, a colon and rooms on the unit, e.g. "TEAM A: 501-516".`),
+      ...validateUnitConfig(draft),
+    ];
+    setProblems(validationProblems);
+    if (validationProblems.length === 0) {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-black">
+      <h2 className="text-lg font-bold text-gray-800">Unit Layout</h2>
+      <p className="text-sm text-gray-500 mb-4">Configure the unit name, rooms and teams used by the roster and the .docx importer.</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="unit-name" className="text-xs text-gray-500 mb-1 block">Unit Name</label>
+          <input id="unit-name" type="text" value={unitName} onChange={(e) => setUnitName(e.target.value)} className={INPUT_STYLE} />
+        </div>
+        <div>
+          <label htmlFor="unit-charge" className="text-xs text-gray-500 mb-1 block">Default Charge Nurse</label>
+          <input id="unit-charge" type="text" value={defaultChargeNurse} onChange={(e) => setDefaultChargeNurse(e.target.value)} className={INPUT_STYLE} />
+        </div>
+        <div>
+          <label htmlFor="unit-rooms" className="text-xs text-gray-500 mb-1 block">Rooms (in grid order, separated by commas or new lines)</label>
+          <textarea id="unit-rooms" rows={5} value={roomsText} onChange={(e) => setRoomsText(e.target.value)} className={INPUT_STYLE} />
+        </div>
+        <div>
+          <label htmlFor="unit-teams" className="text-xs text-gray-500 mb-1 block">Teams (one per line, e.g. "TEAM A: 501-516")</label>
+          <textarea id="unit-teams" rows={5} value={teamsText} onChange={(e) => setTeamsText(e.target.value)} className={INPUT_STYLE} />
+        </div>
+        <div className="md:col-span-2">
+          <p className="text-xs text-gray-500 mb-1">Default PCT's for a blank roster (one PCT per row with the rooms they cover)</p>
+          <div className="border border-gray-300 rounded-md p-2 text-sm">
+            <RoomAssignmentEditor value={defaultPcts} onChange={setDefaultPcts} rooms={parseRoomList(roomsText)} staffLabel="PCT" listId="unit-pct-options" />
+          </div>
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-lg text-sm" role="alert">
+          <ul className="list-disc list-inside">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button onClick={() => loadDraft(DEFAULT_UNIT_CONFIG)} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-gray-200 text-gray-600 hover:bg-gray-300">
+          Reset to Default
+        </button>
+        <button onClick={handleSave} className="h-[42px] px-4 text-sm font-medium rounded-md transition-colors duration-200 bg-indigo-600 text-white hover:bg-indigo-700">
+          Save Layout
+        </button>
+      </div>
+    </div>
+  );
+};
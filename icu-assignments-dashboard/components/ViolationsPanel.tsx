@@ -0,0 +1,57 @@
+import { FC } from 'react';
+import { RosterViolation, ViolationSeverity } from '../types';
+import { AlertTriangleIcon } from './icons';
+
+interface ViolationsPanelProps {
+  violations: RosterViolation[];
+}
+
+const SEVERITY_STYLES: Record<ViolationSeverity, { label: string; badge: string; item: string }> = {
+  error: { label: 'Errors', badge: 'bg-red-100 text-red-800', item: 'border-red-500' },
+  warning: { label: 'Warnings', badge: 'bg-amber-100 text-amber-800', item: 'border-amber-400' },
+  info: { label: 'Notes', badge: 'bg-sky-100 text-sky-800', item: 'border-sky-400' },
+};
+
+const SEVERITIES: ViolationSeverity[] = ['error', 'warning', 'info'];
+
+const scrollToRow = (violation: RosterViolation) => {
+  const firstCell = violation.cells[0];
+  if (!firstCell) return;
+  document.getElementById(`roster-row-${firstCell.rowIndex}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+export const ViolationsPanel: FC<ViolationsPanelProps> = ({ violations }) => {
+  return (
+    <aside className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm text-black">
+      <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+        <AlertTriangleIcon className="w-5 h-5 text-amber-500" />
+        Assignment Checks
+      </h2>
+
+      <div className="flex flex-wrap gap-2 mt-2 mb-4">
+        {SEVERITIES.map(severity => (
+          <span key={severity} className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[severity].badge}`}>
+            {violations.filter(v => v.severity === severity).length} {SEVERITY_STYLES[severity].label}
+          </span>
+        ))}
+      </div>
+
+      {violations.length === 0 ? (
+        <p className="text-sm text-gray-500">No problems found in the current roster.</p>
+      ) : (
+        <ul className="space-y-2 text-sm max-h-[70vh] overflow-y-auto">
+          {violations.map((violation, index) => (
+            <li key={`${violation.ruleId}-${index}`}>
+              <button
+                onClick={() => scrollToRow(violation)}
+                className={`w-full text-left border-l-4 pl-2 py-1 text-gray-700 hover:bg-gray-50 ${SEVERITY_STYLES[violation.severity].item}`}
+              >
+                {violation.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
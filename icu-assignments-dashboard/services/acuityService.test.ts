@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { getMatchedAcuityRules, scorePatientAcuity } from './acuityService';
+import { getRespiratorySupport } from './respiratoryService';
+
+const labels = (status: string) => getMatchedAcuityRules(status).map(rule => rule.label);
+
+describe('getMatchedAcuityRules', () => {
+  it('matches keywords as whole words', () => {
+    expect(labels('Vented, levo gtt')).toEqual(['Ventilator', 'Drips']);
+    expect(labels('on ventilator; pressors')).toEqual(['Ventilator', 'Drips']);
+    expect(labels('intubated 1:1')).toEqual(['1:1', 'Ventilator']);
+    expect(labels('ventricular drain, prevent falls')).toEqual([]);
+  });
+
+  it('scores an occupied bed from its base and rule points', () => {
+    expect(scorePatientAcuity('A', 'vent, CRRT')).toBe(6);
+    expect(scorePatientAcuity('', 'vent')).toBe(0);
+  });
+});
+
+describe('getRespiratorySupport', () => {
+  it('recognises ventilator, trach and high flow wording', () => {
+    const supports = (status: string) => getRespiratorySupport(status).map(s => s.label);
+    expect(supports('vent')).toEqual(['Ventilator']);
+    expect(supports('trached, HFNC')).toEqual(['Trach', 'High flow']);
+    expect(supports('tracheostomy')).toEqual(['Trach']);
+    expect(supports('ventricular assist')).toEqual([]);
+  });
+});
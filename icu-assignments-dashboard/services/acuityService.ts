@@ -0,0 +1,41 @@
+import { AcuityRule, AcuityTable } from '../types';
+
+export const DEFAULT_ACUITY_TABLE: AcuityTable = {
+  basePoints: 1,
+  rules: [
+    { label: '1:1', keywords: ['1:1', '1-1'], points: 2 },
+    { label: 'ECMO', keywords: ['ecmo'], points: 4 },
+    { label: 'Impella/IABP', keywords: ['impella', 'iabp', 'balloon pump'], points: 3 },
+    { label: 'CRRT', keywords: ['crrt', 'cvvhd', 'cvvhdf', 'cvvh'], points: 3 },
+    { label: 'Ventilator', keywords: ['vent', 'vented', 'ventilator', 'ventilated', 'intubated', 'ett'], points: 2 },
+    { label: 'Drips', keywords: ['drip', 'drips', 'gtt', 'gtts', 'pressor', 'pressors'], points: 2 },
+    { label: 'Comfort care', keywords: ['comfort', 'cmo'], points: 1 },
+    { label: 'CIWA', keywords: ['ciwa'], points: 1 },
+    { label: 'Restraints', keywords: ['restraint', 'restraints'], points: 1 },
+  ],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords match whole words, so "vent" matches "vent/ETT" but not "prevent" or "ventricular";
+// list each form that should count, e.g. "vent" and "vented".
+export function matchesKeyword(status: string, keyword: string): boolean {
+  const trimmed = keyword.trim();
+  if (!trimmed) return false;
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(trimmed.toLowerCase())}(?=$|[^a-z0-9])`).test(status);
+}
+
+// Returns the rules triggered by a status string, each rule counted at most once.
+export function getMatchedAcuityRules(status: string, table: AcuityTable = DEFAULT_ACUITY_TABLE): AcuityRule[] {
+  const s = (status || '').toLowerCase();
+  if (!s.trim()) return [];
+  return table.rules.filter(rule => rule.keywords.some(k => matchesKeyword(s, k)));
+}
+
+/**
+ * Scores a single patient from their STATUS text. Empty beds score 0.
+ */
+export function scorePatientAcuity(patient: string, status: string, table: AcuityTable = DEFAULT_ACUITY_TABLE): number {
+  if (!patient || patient.trim() === '') return 0;
+  return getMatchedAcuityRules(status, table).reduce((sum, rule) => sum + rule.points, table.basePoints);
+}
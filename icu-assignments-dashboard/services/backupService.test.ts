@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { BackupError, createBackup, parseBackup, restoreHistoricalRosters } from './backupService';
+import { DEFAULT_UNIT_CONFIG } from './unitConfigService';
+import { makeRoster } from './testFixtures';
+
+const settings = { unitConfig: DEFAULT_UNIT_CONFIG, acuityTable: null, nurseAliases: { smith: 'Smith' }, staffDirectory: null, dismissedNurseMerges: ['smith|smyth'] };
+
+const problemsFor = (text: string) => {
+  try {
+    parseBackup(text);
+    return [];
+  } catch (e) {
+    return e instanceof BackupError ? e.problems : [String(e)];
+  }
+};
+
+describe('parseBackup', () => {
+  it('reads back a backup it wrote', () => {
+    const roster = makeRoster('2026-01-05', [{ patient: 'A', rnDay: 'Smith' }]);
+    const parsed = parseBackup(JSON.stringify(createBackup(null, [roster], [], settings)));
+    expect(parsed.historicalRosters).toEqual([roster]);
+    expect(parsed.settings.nurseAliases).toEqual({ smith: 'Smith' });
+    expect(parsed.settings.dismissedNurseMerges).toEqual(['smith|smyth']);
+  });
+
+  it('reads backups made before dismissed merges were saved', () => {
+    const { dismissedNurseMerges: _, ...olderSettings } = settings;
+    const backup = { ...createBackup(null, [], [], settings), settings: olderSettings };
+    expect(parseBackup(JSON.stringify(backup)).settings.dismissedNurseMerges).toBeNull();
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('[1, 2]')).toThrow('not an ICU assignments backup');
+    expect(() => parseBackup('{')).toThrow('not valid JSON');
+  });
+
+  it('lists every malformed roster and setting', () => {
+    const backup = createBackup(null, [makeRoster('2026-01-05', [])], [], settings);
+    const text = JSON.stringify({
+      ...backup,
+      historicalRosters: [{ ...backup.historicalRosters[0], floats: null, assignments: [{ room: 501 }] }],
+      settings: { ...settings, nurseAliases: { smith: 3 }, staffDirectory: [{ id: '1', name: 'Smith' }] },
+    });
+    expect(problemsFor(text)).toEqual([
+      'Roster 2026-01-05: floats must be lists of names.',
+      'Roster 2026-01-05: assignment row 1 has invalid room, prec, patient, mrn, status, rnDay, extDay, rnNight, extNight.',
+      'Nurse aliases: every alias must map to a name.',
+      'Staff directory: every entry needs an id, name, badge number, role, FTE and credential list.',
+    ]);
+  });
+});
+
+describe('restoreHistoricalRosters', () => {
+  const stored = [makeRoster('2026-01-05', [{ patient: 'A' }]), makeRoster('2026-01-06', [{ patient: 'B' }])];
+  const incoming = [makeRoster('2026-01-06', [{ patient: 'C' }]), makeRoster('2026-01-07', [])];
+
+  it('archives a stored roster replaced in merge mode', () => {
+    const restored = restoreHistoricalRosters(stored, incoming, 'merge', { '2026-01-06': 'incoming' });
+    expect(restored.historicalRosters.map(r => r.date)).toEqual(['2026-01-07', '2026-01-06', '2026-01-05']);
+    expect(restored.archived.map(v => v.roster)).toEqual([stored[1]]);
+  });
+
+  it('keeps conflicting stored rosters by default', () => {
+    const restored = restoreHistoricalRosters(stored, incoming, 'merge');
+    expect(restored.historicalRosters).toContain(stored[1]);
+    expect(restored.archived).toEqual([]);
+  });
+
+  it('archives every stored roster that replace mode replaces or removes', () => {
+    const restored = restoreHistoricalRosters(stored, [...incoming, stored[0]], 'replace');
+    expect(restored.historicalRosters.map(r => r.date)).toEqual(['2026-01-07', '2026-01-06', '2026-01-05']);
+    expect(restored.archived.map(v => [v.date, v.reason])).toEqual([['2026-01-06', 'Replaced by backup restore']]);
+    expect(restoreHistoricalRosters(stored, incoming, 'replace').archived.map(v => v.reason)).toEqual(['Removed by backup restore', 'Replaced by backup restore']);
+  });
+});
@@ -0,0 +1,266 @@
+import { Roster, RosterTeam, RosterVersion, UnitConfig, AcuityTable, NurseAliasTable, StaffMember } from '../types';
+import { migrateRoster, ROSTER_SCHEMA_VERSION } from './storageService';
+import { validateUnitConfig } from './unitConfigService';
+import { STAFF_ROLES, validateStaffDirectory } from './staffService';
+import { createRosterVersion } from './versionService';
+
+const BACKUP_FORMAT = 'icu-assignments-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupSettings {
+  unitConfig: UnitConfig | null;
+  acuityTable: AcuityTable | null;
+  nurseAliases: NurseAliasTable | null;
+  staffDirectory: StaffMember[] | null;
+  // Suggested nurse merges marked "Not the same"; absent from backups made before they were saved.
+  dismissedNurseMerges: string[] | null;
+}
+
+// The single-file backup of everything the app stores.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  rosterSchemaVersion: number;
+  exportedAt: string;
+  liveRoster: Roster | null;
+  historicalRosters: Roster[];
+  rosterVersions: RosterVersion[];
+  settings: BackupSettings;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+export type ConflictResolution = 'keep' | 'incoming';
+
+export interface BackupConflict {
+  date: string;
+  current: Roster;
+  incoming: Roster;
+  identical: boolean;
+}
+
+export class BackupError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export function createBackup(
+  liveRoster: Roster | null,
+  historicalRosters: Roster[],
+  rosterVersions: RosterVersion[],
+  settings: BackupSettings,
+): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    rosterSchemaVersion: ROSTER_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    liveRoster,
+    historicalRosters,
+    rosterVersions,
+    settings,
+  };
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isShiftPair = (value: unknown): value is { day: string; night: string } => isRecord(value) && isString(value.day) && isString(value.night);
+const isRosterTeam = (value: unknown): value is RosterTeam =>
+  isRecord(value) && isString(value.name) && isStringArray(value.rooms) && isShiftPair(value.chargeNurses) && isShiftPair(value.pcts);
+const isStaffMember = (value: unknown): value is StaffMember =>
+  isRecord(value) && isString(value.id) && isString(value.name) && isString(value.badgeNumber)
+  && STAFF_ROLES.some(role => role === value.role) && (value.fte === null || typeof value.fte === 'number') && isStringArray(value.credentials);
+const ROW_FIELDS = ['room', 'prec', 'patient', 'mrn', 'status', 'rnDay', 'extDay', 'rnNight', 'extNight'];
+
+const isUnitConfig = (value: unknown): value is UnitConfig =>
+  isRecord(value) && isString(value.unitName) && isStringArray(value.rooms) && isString(value.defaultPcts) && isString(value.defaultChargeNurse)
+  && Array.isArray(value.teams) && value.teams.every(team => isRecord(team) && isString(team.name) && isStringArray(team.rooms));
+const isAcuityTable = (value: unknown): value is AcuityTable =>
+  isRecord(value) && typeof value.basePoints === 'number' && Array.isArray(value.rules)
+  && value.rules.every(rule => isRecord(rule) && isString(rule.label) && isStringArray(rule.keywords) && typeof rule.points === 'number');
+const isNurseAliasTable = (value: unknown): value is NurseAliasTable => isRecord(value) && Object.values(value).every(isString);
+
+/**
+ * Checks that a value has the current `Roster` shape. Returns a list of problems,
+ * each prefixed with `label`; an empty list means the roster is valid.
+ */
+export function validateRosterShape(value: unknown, label: string): string[] {
+  if (!isRecord(value)) return [`${label}: not an object.`];
+  const roster = value;
+  const problems: string[] = [];
+
+  if (!isString(roster.date) || !/^\d{4}-\d{2}-\d{2}$/.test(roster.date)) problems.push(`${label}: date must be YYYY-MM-DD.`);
+  if (!isString(roster.pctsDay) || !isString(roster.pctsNight)) problems.push(`${label}: PCT fields must be text.`);
+  if (!isShiftPair(roster.chargeNurses)) problems.push(`${label}: charge nurses are missing.`);
+  if (!isRecord(roster.floats) || !isStringArray(roster.floats.day) || !isStringArray(roster.floats.night)) problems.push(`${label}: floats must be lists of names.`);
+  if (!isRecord(roster.respiratory) || !isStringArray(roster.respiratory.day) || !isStringArray(roster.respiratory.night)) {
+    problems.push(`${label}: respiratory therapists must be lists of names for each shift.`);
+  }
+  if (!Array.isArray(roster.teams) || !roster.teams.every(isRosterTeam)) {
+    problems.push(`${label}: teams must each have a name, rooms, charge nurses and PCTs.`);
+  }
+  if (!Array.isArray(roster.assignments)) {
+    problems.push(`${label}: assignments are missing.`);
+  } else {
+    roster.assignments.forEach((row: unknown, i: number) => {
+      const badFields = ROW_FIELDS.filter(field => !isRecord(row) || !isString(row[field]));
+      if (badFields.length > 0) problems.push(`${label}: assignment row ${i + 1} has invalid ${badFields.join(', ')}.`);
+    });
+  }
+  return problems;
+}
+
+// The roster's date for problem labels, when it has one.
+const dateLabel = (value: unknown, fallback: string) => (isRecord(value) && isString(value.date) && value.date ? value.date : fallback);
+
+/**
+ * Parses and validates a backup file. Rosters written with an older schema are
+ * upgraded first. Throws a BackupError listing every problem found.
+ */
+export function parseBackup(text: string): BackupFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) throw new BackupError('The file is not an ICU assignments backup.');
+  const { formatVersion } = raw;
+  if (typeof formatVersion !== 'number' || formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupError(`Backup format version ${formatVersion} is not supported by this version of the app.`);
+  }
+  if (!Array.isArray(raw.historicalRosters)) throw new BackupError('The backup has no historical roster list.');
+  const rosterSchemaVersion = typeof raw.rosterSchemaVersion === 'number' ? raw.rosterSchemaVersion : 0;
+
+  const problems: string[] = [];
+  const upgrade = (value: unknown, label: string): Roster | null => {
+    try {
+      const roster = migrateRoster(value, rosterSchemaVersion);
+      const rosterProblems = validateRosterShape(roster, label);
+      problems.push(...rosterProblems);
+      return rosterProblems.length === 0 ? roster : null;
+    } catch (e) {
+      problems.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+      return null;
+    }
+  };
+
+  const historicalRosters = raw.historicalRosters.map((r: unknown, i: number) => upgrade(r, `Roster ${dateLabel(r, `#${i + 1}`)}`));
+  const liveRoster = raw.liveRoster ? upgrade(raw.liveRoster, 'Live roster') : null;
+
+  // Backups made before earlier versions were archived have no version list.
+  const rosterVersions: RosterVersion[] = [];
+  (Array.isArray(raw.rosterVersions) ? raw.rosterVersions : []).forEach((v: unknown, i: number) => {
+    const label = `Earlier version ${dateLabel(v, `#${i + 1}`)}`;
+    if (!isRecord(v) || !isString(v.id) || !isString(v.replacedAt) || !isString(v.reason)) {
+      problems.push(`${label}: id, replacedAt or reason is missing.`);
+      return;
+    }
+    const roster = upgrade(v.roster, label);
+    if (roster) rosterVersions.push({ id: v.id, date: roster.date, replacedAt: v.replacedAt, reason: v.reason, roster });
+  });
+
+  const dates = new Set<string>();
+  historicalRosters.forEach((r: Roster | null) => {
+    if (!r) return;
+    if (dates.has(r.date)) problems.push(`Roster ${r.date}: appears more than once.`);
+    dates.add(r.date);
+  });
+
+  const settings = isRecord(raw.settings) ? raw.settings : {};
+  let unitConfig: UnitConfig | null = null;
+  if (settings.unitConfig) {
+    if (!isUnitConfig(settings.unitConfig)) {
+      problems.push('Unit settings: unit name, rooms, teams or defaults are missing.');
+    } else {
+      unitConfig = settings.unitConfig;
+      problems.push(...validateUnitConfig(unitConfig).map(p => `Unit settings: ${p}`));
+    }
+  }
+  let acuityTable: AcuityTable | null = null;
+  if (settings.acuityTable) {
+    if (!isAcuityTable(settings.acuityTable)) problems.push('Acuity settings: base points or rules are missing.');
+    else acuityTable = settings.acuityTable;
+  }
+  let nurseAliases: NurseAliasTable | null = null;
+  if (settings.nurseAliases) {
+    if (!isNurseAliasTable(settings.nurseAliases)) problems.push('Nurse aliases: every alias must map to a name.');
+    else nurseAliases = settings.nurseAliases;
+  }
+  let staffDirectory: StaffMember[] | null = null;
+  if (settings.staffDirectory) {
+    if (!Array.isArray(settings.staffDirectory) || !settings.staffDirectory.every(isStaffMember)) problems.push('Staff directory: every entry needs an id, name, badge number, role, FTE and credential list.');
+    else {
+      staffDirectory = settings.staffDirectory;
+      problems.push(...validateStaffDirectory(staffDirectory).map(p => `Staff directory: ${p}`));
+    }
+  }
+  let dismissedNurseMerges: string[] | null = null;
+  if (settings.dismissedNurseMerges) {
+    if (!isStringArray(settings.dismissedNurseMerges)) problems.push('Dismissed nurse merges: must be a list of name pairs.');
+    else dismissedNurseMerges = settings.dismissedNurseMerges;
+  }
+
+  if (problems.length > 0) throw new BackupError('The backup failed validation.', problems);
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion,
+    rosterSchemaVersion: ROSTER_SCHEMA_VERSION,
+    exportedAt: isString(raw.exportedAt) ? raw.exportedAt : '',
+    liveRoster,
+    historicalRosters: historicalRosters.filter((r): r is Roster => r !== null),
+    rosterVersions,
+    settings: { unitConfig, acuityTable, nurseAliases, staffDirectory, dismissedNurseMerges },
+  };
+}
+
+// Lists every date present in both the current history and the backup.
+export function findBackupConflicts(current: Roster[], incoming: Roster[]): BackupConflict[] {
+  const currentByDate = new Map(current.map(r => [r.date, r]));
+  return incoming
+    .filter(r => currentByDate.has(r.date))
+    .map(r => {
+      const existing = currentByDate.get(r.date)!;
+      return { date: r.date, current: existing, incoming: r, identical: JSON.stringify(existing) === JSON.stringify(r) };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export interface RestoredHistory {
+  historicalRosters: Roster[];
+  // Current rosters the restore replaced or removed, archived so they can be rolled back.
+  archived: RosterVersion[];
+}
+
+/**
+ * Combines the current history with a backup. In "replace" mode the backup wins
+ * outright; in "merge" mode dates only in one side are kept and each conflicting
+ * date follows its resolution (defaulting to the current roster). Either way every
+ * current roster that does not survive unchanged is archived as an earlier version.
+ */
+export function restoreHistoricalRosters(
+  current: Roster[],
+  incoming: Roster[],
+  mode: RestoreMode,
+  resolutions: Record<string, ConflictResolution> = {},
+): RestoredHistory {
+  const merged = new Map(mode === 'replace' ? [] : current.map(r => [r.date, r]));
+  incoming.forEach(r => {
+    if (mode === 'replace' || !merged.has(r.date) || resolutions[r.date] === 'incoming') merged.set(r.date, r);
+  });
+
+  const archived = current
+    .filter(r => JSON.stringify(merged.get(r.date)) !== JSON.stringify(r))
+    .map(r => createRosterVersion(r, merged.has(r.date) ? 'Replaced by backup restore' : 'Removed by backup restore'));
+  return { historicalRosters: Array.from(merged.values()).sort((a, b) => b.date.localeCompare(a.date)), archived };
+}
+
+// Replace mode takes the backup's versions; merge mode keeps both sets, matched by id.
+export function restoreRosterVersions(current: RosterVersion[], incoming: RosterVersion[], mode: RestoreMode): RosterVersion[] {
+  const merged = mode === 'replace' ? incoming : [...current, ...incoming.filter(v => !current.some(c => c.id === v.id))];
+  return [...merged].sort((a, b) => b.replacedAt.localeCompare(a.replacedAt));
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildContinuitySuggestions, calculateContinuityMetric, previousDate } from './continuityService';
+import { mergeNurseNames } from './nurseIdentityService';
+import { makeRoster } from './testFixtures';
+
+const patient = { patient: 'Doe', mrn: '123 456' };
+
+describe('buildContinuitySuggestions', () => {
+  it('ranks aliases of one nurse as a single candidate', () => {
+    const history = [
+      makeRoster('2026-01-03', [{ ...patient, rnDay: 'Smith, J' }]),
+      makeRoster('2026-01-04', [{ ...patient, rnDay: 'J Smith' }]),
+    ];
+    const aliases = mergeNurseNames({}, ['Smith, J', 'J Smith'], 'Smith, J');
+    const [row] = buildContinuitySuggestions(makeRoster('2026-01-05', [patient]), history, aliases);
+    expect(row.day).toEqual([{ name: 'Smith, J', daysWithPatient: 2, daysConsidered: 2 }]);
+  });
+});
+
+describe('previousDate', () => {
+  it('steps back across month, year and daylight-saving boundaries', () => {
+    expect(previousDate('2026-03-01')).toBe('2026-02-28');
+    expect(previousDate('2026-01-01')).toBe('2025-12-31');
+    expect(previousDate('2026-03-09')).toBe('2026-03-08');
+    expect(previousDate('2024-03-01')).toBe('2024-02-29');
+  });
+
+  it('returns an empty string for a date it cannot read', () => {
+    expect(previousDate('')).toBe('');
+    expect(previousDate('not a date')).toBe('');
+  });
+});
+
+describe('calculateContinuityMetric', () => {
+  it('counts a patient-day only when the same MRN was on the unit the day before', () => {
+    const rosters = [
+      makeRoster('2026-01-03', [{ ...patient, rnDay: 'Ann' }]),
+      // Same patient on the 5th, but the 4th is missing: not eligible.
+      makeRoster('2026-01-05', [{ ...patient, rnDay: 'Ann' }, { patient: 'Roe', mrn: '999', rnDay: 'Bob' }]),
+      // MRN written with different spacing; a night nurse from yesterday's day shift still counts.
+      makeRoster('2026-01-06', [{ patient: 'Doe', mrn: '123456', rnNight: 'Ann' }, { patient: 'Roe', mrn: '999', rnDay: 'Cal' }]),
+    ];
+    expect(calculateContinuityMetric(rosters)).toEqual({ eligiblePatientDays: 2, continuousPatientDays: 1, rate: 0.5 });
+  });
+
+  it('skips empty rooms and rows without an MRN, and has no rate with nothing eligible', () => {
+    const rosters = [
+      makeRoster('2026-01-04', [{ ...patient, rnDay: 'Ann' }, { patient: 'Roe', rnDay: 'Bob' }]),
+      makeRoster('2026-01-05', [{ mrn: '123 456', rnDay: 'Ann' }, { patient: 'Roe', rnDay: 'Bob' }]),
+    ];
+    expect(calculateContinuityMetric(rosters)).toEqual({ eligiblePatientDays: 0, continuousPatientDays: 0, rate: null });
+  });
+
+  it('matches nurses through aliases', () => {
+    const rosters = [
+      makeRoster('2026-01-04', [{ ...patient, rnDay: 'Smith, J' }]),
+      makeRoster('2026-01-05', [{ ...patient, rnDay: 'J Smith' }]),
+    ];
+    expect(calculateContinuityMetric(rosters).rate).toBe(0);
+    const aliases = mergeNurseNames({}, ['Smith, J', 'J Smith'], 'Smith, J');
+    expect(calculateContinuityMetric(rosters, aliases).rate).toBe(1);
+  });
+});
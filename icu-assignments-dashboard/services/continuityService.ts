@@ -0,0 +1,124 @@
+import { Roster, AssignmentRow, NurseAliasTable } from '../types';
+import { resolveNurseName } from './nurseIdentityService';
+
+export interface ContinuityCandidate {
+  name: string;
+  daysWithPatient: number;
+  daysConsidered: number;
+}
+
+export interface RowContinuity {
+  day: ContinuityCandidate[];
+  night: ContinuityCandidate[];
+}
+
+export interface ContinuityMetric {
+  eligiblePatientDays: number;
+  continuousPatientDays: number;
+  rate: number | null;
+}
+
+export const DEFAULT_CONTINUITY_LOOKBACK = 3;
+
+export const normalizeMrn = (mrn: string) => (mrn || '').replace(/\s+/g, '').toUpperCase();
+
+// Dates are stored as YYYY-MM-DD; the arithmetic is done in UTC to avoid DST shifts.
+export function previousDate(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  if (isNaN(date.getTime())) return '';
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().split('T')[0];
+}
+
+const nurseNames = (row: AssignmentRow, aliases: NurseAliasTable) =>
+  [row.rnDay, row.rnNight].map(n => resolveNurseName(n, aliases)).filter(Boolean);
+
+const findRowByMrn = (roster: Roster, mrn: string) =>
+  roster.assignments.find(row => normalizeMrn(row.mrn) === mrn && row.patient && row.patient.trim() !== '');
+
+// Names are resolved through `aliases` first, so "Smith, J" and "J Smith" count as one nurse.
+function rankCandidates(days: (string | undefined)[], aliases: NurseAliasTable): ContinuityCandidate[] {
+  const counts = new Map<string, { name: string; count: number }>();
+  days.forEach(rawName => {
+    const name = rawName && resolveNurseName(rawName, aliases);
+    if (!name) return;
+    const key = name.toLowerCase();
+    const entry = counts.get(key) ?? { name, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  return Array.from(counts.values())
+    .map(({ name, count }) => ({ name, daysWithPatient: count, daysConsidered: days.length }))
+    .sort((a, b) => b.daysWithPatient - a.daysWithPatient || a.name.localeCompare(b.name));
+}
+
+/**
+ * For every row in the live roster, ranks the nurses who cared for that row's MRN
+ * on the most recent `lookback` historical days the patient was on the unit.
+ * Day and night history are kept separate so each dropdown ranks its own shift.
+ * Nurse names are resolved through `aliases`.
+ */
+export function buildContinuitySuggestions(
+  liveRoster: Roster,
+  historicalRosters: Roster[],
+  aliases: NurseAliasTable = {},
+  lookback: number = DEFAULT_CONTINUITY_LOOKBACK,
+): RowContinuity[] {
+  const priorRosters = historicalRosters
+    .filter(r => r.date < liveRoster.date)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  return liveRoster.assignments.map(row => {
+    const mrn = normalizeMrn(row.mrn);
+    if (!mrn) return { day: [], night: [] };
+
+    const recentRows = priorRosters
+      .map(roster => findRowByMrn(roster, mrn))
+      .filter((r): r is AssignmentRow => r !== undefined)
+      .slice(0, lookback);
+
+    return {
+      day: rankCandidates(recentRows.map(r => r.rnDay.trim() || undefined), aliases),
+      night: rankCandidates(recentRows.map(r => r.rnNight.trim() || undefined), aliases),
+    };
+  });
+}
+
+export const formatContinuityLabel = (candidate: ContinuityCandidate) =>
+  `had this patient ${candidate.daysWithPatient} of last ${candidate.daysConsidered} day${candidate.daysConsidered !== 1 ? 's' : ''}`;
+
+/**
+ * Share of patient-days kept with a repeat nurse. A patient-day is eligible when the
+ * same MRN was also on the unit the previous calendar day, and continuous when at
+ * least one of today's nurses (either shift) also cared for the patient yesterday.
+ * Nurse names are compared after resolving aliases.
+ */
+export function calculateContinuityMetric(rosters: Roster[], aliases: NurseAliasTable = {}): ContinuityMetric {
+  const byDate = new Map(rosters.map(r => [r.date, r]));
+  let eligiblePatientDays = 0;
+  let continuousPatientDays = 0;
+
+  rosters.forEach(roster => {
+    const yesterday = byDate.get(previousDate(roster.date));
+    if (!yesterday) return;
+
+    roster.assignments.forEach(row => {
+      const mrn = normalizeMrn(row.mrn);
+      if (!mrn || !row.patient || row.patient.trim() === '') return;
+      const previousRow = findRowByMrn(yesterday, mrn);
+      if (!previousRow) return;
+
+      eligiblePatientDays++;
+      const previousNurses = new Set(nurseNames(previousRow, aliases).map(n => n.toLowerCase()));
+      if (nurseNames(row, aliases).some(n => previousNurses.has(n.toLowerCase()))) {
+        continuousPatientDays++;
+      }
+    });
+  });
+
+  return {
+    eligiblePatientDays,
+    continuousPatientDays,
+    rate: eligiblePatientDays > 0 ? continuousPatientDays / eligiblePatientDays : null,
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { presetRange, previousPeriod } from './dateRangeService';
+
+describe('previousPeriod', () => {
+  it('compares a whole month with the month before', () => {
+    expect(previousPeriod({ start: '2026-03-01', end: '2026-03-31' })).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+  });
+
+  it('shifts a multi-month range back by its month count without overlapping', () => {
+    expect(previousPeriod({ start: '2026-01-01', end: '2026-03-31' })).toEqual({ start: '2025-10-01', end: '2025-12-31' });
+  });
+
+  it('uses the same number of days for ranges that happen to start on the 1st', () => {
+    expect(previousPeriod({ start: '2026-03-01', end: '2026-03-07' })).toEqual({ start: '2026-02-22', end: '2026-02-28' });
+    expect(previousPeriod({ start: '2026-03-01', end: '2026-04-15' })).toEqual({ start: '2026-01-14', end: '2026-02-28' });
+  });
+
+  it('uses the same number of days for other ranges', () => {
+    expect(previousPeriod({ start: '2026-03-10', end: '2026-03-16' })).toEqual({ start: '2026-03-03', end: '2026-03-09' });
+  });
+});
+
+describe('presetRange', () => {
+  it('resolves presets against today', () => {
+    expect(presetRange('last-7', '2026-03-05')).toEqual({ start: '2026-02-27', end: '2026-03-05' });
+    expect(presetRange('last-month', '2026-03-05')).toEqual({ start: '2026-02-01', end: '2026-02-28' });
+    expect(presetRange('all', '2026-03-05')).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { Roster, DateRange, DateRangePreset, DateRangeSelection } from '../types';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'all', label: 'All dates' },
+  { value: 'last-7', label: 'Last 7 days' },
+  { value: 'last-14', label: 'Last 2 weeks' },
+  { value: 'last-30', label: 'Last 30 days' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+export const DEFAULT_DATE_RANGE_SELECTION: DateRangeSelection = {
+  preset: 'all',
+  customRange: { start: '', end: '' },
+  comparison: 'none',
+  customComparison: { start: '', end: '' },
+};
+
+// Dates are handled as UTC calendar days so month lengths and DST never shift a range.
+const parseDay = (date: string) => new Date(`${date}T00:00:00Z`);
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (date: string, days: number) => {
+  const d = parseDay(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDay(d);
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Moves a date by whole calendar months, clamping to the end of shorter months.
+const addMonths = (date: string, months: number) => {
+  const d = parseDay(date);
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  target.setUTCDate(Math.min(d.getUTCDate(), daysInMonth(target.getUTCFullYear(), target.getUTCMonth())));
+  return formatDay(target);
+};
+
+export const rangeLengthInDays = (range: DateRange) =>
+  Math.round((parseDay(range.end).getTime() - parseDay(range.start).getTime()) / 86_400_000) + 1;
+
+export const isCompleteRange = (range: DateRange) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(range.start) && /^\d{4}-\d{2}-\d{2}$/.test(range.end) && range.start <= range.end;
+
+/** Returns the range a preset covers, or null for 'all' and 'custom'. `today` is YYYY-MM-DD. */
+export function presetRange(preset: DateRangePreset, today: string): DateRange | null {
+  switch (preset) {
+    case 'last-7': return { start: addDays(today, -6), end: today };
+    case 'last-14': return { start: addDays(today, -13), end: today };
+    case 'last-30': return { start: addDays(today, -29), end: today };
+    case 'this-month': return { start: `${today.slice(0, 7)}-01`, end: today };
+    case 'last-month': {
+      const start = addMonths(`${today.slice(0, 7)}-01`, -1);
+      return { start, end: addDays(`${today.slice(0, 7)}-01`, -1) };
+    }
+    default: return null;
+  }
+}
+
+// The number of calendar months `range` covers exactly, e.g. 3 for Jan 1 - Mar 31; 0 if it is not whole months.
+const wholeMonthCount = (range: DateRange) => {
+  if (!range.start.endsWith('-01')) return 0;
+  const start = parseDay(range.start);
+  const end = parseDay(range.end);
+  const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+  return months > 0 && range.end === addDays(addMonths(range.start, months), -1) ? months : 0;
+};
+
+/**
+ * The period just before `range`. Whole-month ranges are compared with the same number of
+ * whole months before them ("last month vs the month before"); any other range is compared
+ * with the same number of days immediately before it.
+ */
+export function previousPeriod(range: DateRange): DateRange {
+  const months = wholeMonthCount(range);
+  if (months > 0) return { start: addMonths(range.start, -months), end: addDays(range.start, -1) };
+  const length = rangeLengthInDays(range);
+  return { start: addDays(range.start, -length), end: addDays(range.start, -1) };
+}
+
+export interface ResolvedDateRanges {
+  // Null means every stored roster.
+  range: DateRange | null;
+  comparison: DateRange | null;
+}
+
+/** Turns the picker's selection into concrete ranges. Incomplete custom ranges are ignored. */
+export function resolveDateRanges(selection: DateRangeSelection, today: string): ResolvedDateRanges {
+  const range = selection.preset === 'custom'
+    ? (isCompleteRange(selection.customRange) ? selection.customRange : null)
+    : presetRange(selection.preset, today);
+
+  let comparison: DateRange | null = null;
+  if (selection.comparison === 'previous' && range) comparison = previousPeriod(range);
+  if (selection.comparison === 'custom' && isCompleteRange(selection.customComparison)) comparison = selection.customComparison;
+
+  return { range, comparison };
+}
+
+export const filterRostersByRange = (rosters: Roster[], range: DateRange | null) =>
+  range ? rosters.filter(r => r.date >= range.start && r.date <= range.end) : rosters;
+
+export const formatDateRange = (range: DateRange | null) =>
+  !range ? 'All dates' : range.start === range.end ? range.start : `${range.start} to ${range.end}`;
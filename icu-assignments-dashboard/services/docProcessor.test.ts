@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { parseRosterFromHtml } from './docProcessor';
+
+const paragraphs = (lines: string[]) => lines.map(line => `<p>${line}</p>`).join('');
+
+// The smallest form the parser accepts, with the charge nurse cells given as their lines of text.
+const formHtml = (dayCharge: string[], nightCharge: string[]) => `
+  <table>
+    <tr><td><p>TEAM A</p></td><td><p>DATE: 01/05/2026</p></td><td><p>PCT'S:</p></td><td>${paragraphs(dayCharge)}</td></tr>
+    <tr><td><p>NIGHT SHIFT</p></td><td></td><td><p>PCT'S:</p></td><td>${paragraphs(nightCharge)}</td></tr>
+  </table>
+  <table>
+    <tr>${['RM', 'PREC', 'PATIENT', 'MRN', 'STATUS', 'RN DAYS', 'EXT', 'RN NIGHTS', 'EXT'].map(h => `<td><p>${h}</p></td>`).join('')}</tr>
+    <tr><td><p>RESPIRATORY THERAPISTS</p></td><td><p>FLOATS (DAYS)</p></td><td><p>FLOATS (NIGHTS)</p></td></tr>
+  </table>`;
+
+const chargeNurses = (dayCharge: string[], nightCharge: string[]) => parseRosterFromHtml(formHtml(dayCharge, nightCharge)).chargeNurses;
+
+describe('charge nurse cells', () => {
+  it('reads the value on the CHARGE NURSE line', () => {
+    expect(chargeNurses(['UL:', '7A-7P', 'CHARGE NURSE: #7501'], ['7P-7A', 'CHARGE NURSE: Smith, J'])).toEqual({ day: '#7501', night: 'Smith, J' });
+  });
+
+  it('keeps double spaces and capitalised words with colons in the name', () => {
+    expect(chargeNurses(['7A-7P', 'CHARGE NURSE: Mary  Smith'], ['7P-7A', 'CHARGE NURSE: Lee ICU: Float'])).toEqual({ day: 'Mary  Smith', night: 'Lee ICU: Float' });
+  });
+
+  it('stops at the next form label when the lines run together', () => {
+    expect(chargeNurses(['7A-7P CHARGE NURSE: #7501 UL:'], ['CHARGE NURSE: Mary Smith 7P-7A'])).toEqual({ day: '#7501', night: 'Mary Smith' });
+  });
+
+  it('does not take the next line as the value', () => {
+    expect(chargeNurses(['7A-7P', 'CHARGE NURSE:', 'Smith'], ['7P-7A', 'CHARGE NURSE:'])).toEqual({ day: '', night: '' });
+  });
+});
@@ -1,8 +1,18 @@
 
-import { Roster, AssignmentRow } from '../types';
+import { Roster, RosterTeam, UnitConfig } from '../types';
+import { DEFAULT_UNIT_CONFIG, createBlankAssignments, findRoomIndex, teamKey } from './unitConfigService';
+import { createRosterTeams, parseTeamCell } from './teamService';
+import { parseRtCell } from './respiratoryService';
 
 declare const mammoth: any;
 
+// A parsed roster plus everything the parser had to skip or guess along the way.
+export interface RosterParseResult {
+    roster: Roster;
+    warnings: string[];
+    dateFound: boolean;
+}
+
 export async function readDocxFile(file: File): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -26,8 +36,15 @@ export async function readDocxFile(file: File): Promise<string> {
 // Helper to get text from a cell, cleaning it up.
 const getCellText = (cell: HTMLElement | null | undefined): string => {
     if (!cell) return '';
-    // Use innerText to handle line breaks within cells correctly
-    return cell.innerText.trim();
+    // innerText does not lay out documents created by DOMParser, so paragraphs
+    // and <br>s are turned into line breaks by hand to keep multi-line cells intact.
+    const clone = cell.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    const paragraphs = Array.from(clone.querySelectorAll('p, li'));
+    const text = paragraphs.length > 0
+        ? paragraphs.map(p => p.textContent || '').join('\n')
+        : clone.textContent || '';
+    return text.trim();
 };
 
 // Helper to extract a list of names from a single cell's text content
@@ -37,10 +54,14 @@ const extractListFromCell = (cell: HTMLElement | null | undefined): string[] =>
 };
 
 
+// The charge nurse after "CHARGE NURSE:" on the same line, e.g. "#7501" or "Smith, J". The value
+// runs to the end of the line, or to one of the form's own labels when a cell's lines run together.
+const CHARGE_NURSE_PATTERN = /CHARGE NURSE:[ \t]*(.*?)(?=\s+(?:UL:|7A-7P|7P-7A|PCT'S:|DATE:)|$)/m;
+
 /**
  * Parses the top information table (Teams, PCTs, Charge Nurses).
  */
-function parseInfoTable(table: HTMLTableElement): Partial<Roster> {
+function parseInfoTable(table: HTMLTableElement, unitConfig: UnitConfig, warnings: string[]): Partial<Roster> {
     const rosterPart: Partial<Roster> = {
         chargeNurses: { day: '', night: '' },
     };
@@ -63,6 +84,8 @@ function parseInfoTable(table: HTMLTableElement): Partial<Roster> {
                 // Use getDate() which is 1-indexed
                 const day = String(potentialDate.getDate()).padStart(2, '0');
                 rosterPart.date = `${year}-${month}-${day}`;
+            } else if (dateText) {
+                warnings.push(`The DATE cell "${dateText}" could not be read as a date.`);
             }
         }
         
@@ -71,8 +94,8 @@ function parseInfoTable(table: HTMLTableElement): Partial<Roster> {
 
         const chargeDayCell = Array.from(dayRow.cells).find(c => getCellText(c).includes('CHARGE NURSE:'));
         if (chargeDayCell) {
-             const match = getCellText(chargeDayCell).match(/CHARGE NURSE:\s*(#?\S+)/);
-             if(match) rosterPart.chargeNurses!.day = match[1];
+             const match = getCellText(chargeDayCell).match(CHARGE_NURSE_PATTERN);
+             if(match) rosterPart.chargeNurses!.day = match[1].trim();
         }
     }
 
@@ -84,8 +107,8 @@ function parseInfoTable(table: HTMLTableElement): Partial<Roster> {
 
         const chargeNightCell = Array.from(nightRow.cells).find(c => getCellText(c).includes('CHARGE NURSE:'));
         if (chargeNightCell) {
-            const match = getCellText(chargeNightCell).match(/CHARGE NURSE:\s*(#?\S+)/);
-            if(match) rosterPart.chargeNurses!.night = match[1];
+            const match = getCellText(chargeNightCell).match(CHARGE_NURSE_PATTERN);
+            if(match) rosterPart.chargeNurses!.night = match[1].trim();
         }
     }
     
@@ -93,14 +116,39 @@ function parseInfoTable(table: HTMLTableElement): Partial<Roster> {
         rosterPart.pctsNight = rosterPart.pctsDay;
     }
 
+    // Team cells are in the first column: "TEAM A", or "TEAM A: 501-516" followed by CHARGE/PCT lines.
+    const unitTeamKeys = new Set(unitConfig.teams.map(team => teamKey(team.name)));
+    rosterPart.teams = rows
+        .map(r => getCellText(r.cells[0]))
+        .map(text => parseTeamCell(text, unitConfig))
+        .filter((team): team is RosterTeam => team !== null && (/^TEAM\b/i.test(team.name) || unitTeamKeys.has(teamKey(team.name))));
+    rosterPart.teams.filter(team => team.rooms.length === 0).forEach(team => {
+        warnings.push(`No rooms were found for ${team.name}; add them in the roster's team editor.`);
+    });
+
     return rosterPart;
 }
 
 /**
  * Main parser function that orchestrates the parsing of the entire document.
  * This version is resilient to table merging during .docx conversion.
+ * Only rooms that belong to the given unit configuration are kept.
  */
-export function parseRosterFromHtml(htmlContent: string): Roster {
+export function parseRosterFromHtml(htmlContent: string, unitConfig: UnitConfig = DEFAULT_UNIT_CONFIG): Roster {
+    return parseRosterWithDiagnostics(htmlContent, unitConfig).roster;
+}
+
+/**
+ * Same as `parseRosterFromHtml`, but also reports what was skipped or guessed:
+ * rooms not on the unit, missing columns, a missing floats section and a missing date
+ * (in which case `fallbackDate` is used). Structural failures still throw.
+ */
+export function parseRosterWithDiagnostics(
+    htmlContent: string,
+    unitConfig: UnitConfig = DEFAULT_UNIT_CONFIG,
+    fallbackDate: string = new Date().toLocaleDateString('en-CA'),
+): RosterParseResult {
+    const warnings: string[] = [];
     const parser = new DOMParser();
     const doc = parser.parseFromString(htmlContent, 'text/html');
 
@@ -157,6 +205,7 @@ export function parseRosterFromHtml(htmlContent: string): Roster {
     // The bottom header must be different, come after the grid header, and have a decent score
     if (bottomHeaderIndex === gridHeaderIndex || bottomHeaderIndex < gridHeaderIndex || maxBottomScore < 2) {
         bottomHeaderIndex = -1; // Invalidate if it's not a good candidate
+        warnings.push('The RESPIRATORY THERAPISTS / FLOATS section was not found, so floats and respiratory therapists are empty.');
     }
 
     // --- Parse Main Grid ---
@@ -165,10 +214,7 @@ export function parseRosterFromHtml(htmlContent: string): Roster {
     const mainGridHeaderRow = gridRows[0];
     const mainGridBodyRows = gridRows.slice(1);
 
-    const initialAssignments: AssignmentRow[] = Array.from({ length: 32 }, (_, i) => ({
-        room: (501 + i).toString(), prec: '', patient: '', mrn: '', status: '',
-        rnDay: '', extDay: '', rnNight: '', extNight: '',
-    }));
+    const initialAssignments = createBlankAssignments(unitConfig);
 
     const headerCells = Array.from(mainGridHeaderRow.querySelectorAll<HTMLElement>('th, td')).map(c => getCellText(c).toUpperCase());
     const colIdx: { [key: string]: number } = {};
@@ -186,16 +232,31 @@ export function parseRosterFromHtml(htmlContent: string): Roster {
     colIdx.extDay = extIndices.find(i => i > colIdx.rnDay && i < (colIdx.rnNight > -1 ? colIdx.rnNight : Infinity)) ?? -1;
     colIdx.extNight = extIndices.find(i => i > colIdx.rnNight) ?? -1;
 
+    const COLUMN_LABELS: { [key: string]: string } = {
+        rm: 'RM', prec: 'PREC', patient: 'PATIENT', mrn: 'MRN', status: 'STATUS',
+        rnDay: 'RN DAYS', extDay: 'EXT (days)', rnNight: 'RN NIGHTS', extNight: 'EXT (nights)',
+    };
+    const missingColumns = Object.keys(COLUMN_LABELS).filter(key => colIdx[key] === -1).map(key => COLUMN_LABELS[key]);
+    if (missingColumns.length > 0) {
+        warnings.push(`Missing column${missingColumns.length > 1 ? 's' : ''}: ${missingColumns.join(', ')}. ${missingColumns.length > 1 ? 'These fields were' : 'This field was'} left blank.`);
+    }
+
+    const skippedRooms: string[] = [];
+    const seenRooms = new Set<number>();
+
     if (colIdx.rm !== -1) {
       mainGridBodyRows.forEach(row => {
           const cells = Array.from(row.cells);
           const roomNumberStr = getCellText(cells[colIdx.rm]);
           if (roomNumberStr) {
-              const roomNumber = parseInt(roomNumberStr, 10);
-              if (!isNaN(roomNumber) && roomNumber >= 501 && roomNumber <= 532) {
-                  const index = roomNumber - 501;
+              const index = findRoomIndex(unitConfig, roomNumberStr);
+              if (index === -1) {
+                  skippedRooms.push(roomNumberStr.split(/\s+/)[0]);
+              } else {
+                  if (seenRooms.has(index)) warnings.push(`Room ${unitConfig.rooms[index]} appears more than once; the last row was used.`);
+                  seenRooms.add(index);
                   initialAssignments[index] = {
-                      room: roomNumberStr,
+                      room: unitConfig.rooms[index],
                       prec: getCellText(cells[colIdx.prec]),
                       patient: getCellText(cells[colIdx.patient]),
                       mrn: getCellText(cells[colIdx.mrn]),
@@ -209,11 +270,14 @@ export function parseRosterFromHtml(htmlContent: string): Roster {
           }
       });
     }
+    if (skippedRooms.length > 0) {
+        warnings.push(`Rooms not on this unit were skipped: ${skippedRooms.join(', ')}.`);
+    }
 
     // --- Parse Bottom Section ---
     const bottomPart: Pick<Roster, 'floats' | 'respiratory'> = {
         floats: { day: [], night: [] },
-        respiratory: [],
+        respiratory: { day: [], night: [] },
     };
     if (bottomHeaderIndex !== -1) {
         const bottomRows = contentRows.slice(bottomHeaderIndex);
@@ -232,22 +296,26 @@ export function parseRosterFromHtml(htmlContent: string): Roster {
                 return acc;
             }, {} as { respiratory?: number, floatsDay?: number, floatsNight?: number });
 
-            if (headerMap.respiratory !== undefined) bottomPart.respiratory = extractListFromCell(bottomDataCells[headerMap.respiratory]);
+            if (headerMap.respiratory !== undefined) bottomPart.respiratory = parseRtCell(extractListFromCell(bottomDataCells[headerMap.respiratory]));
             if (headerMap.floatsDay !== undefined) bottomPart.floats.day = extractListFromCell(bottomDataCells[headerMap.floatsDay]);
             if (headerMap.floatsNight !== undefined) bottomPart.floats.night = extractListFromCell(bottomDataCells[headerMap.floatsNight]);
         }
     }
 
     // --- Combine and Finalize ---
-    const infoPart = parseInfoTable(infoTable);
-    const finalDate = infoPart.date || new Date().toISOString().split('T')[0];
+    const infoPart = parseInfoTable(infoTable, unitConfig, warnings);
+    if (!infoPart.date) {
+        warnings.push(`No date was found in the document; ${fallbackDate} was used instead.`);
+    }
 
-    return {
-        date: finalDate,
+    const roster: Roster = {
+        date: infoPart.date || fallbackDate,
         pctsDay: infoPart.pctsDay || '',
         pctsNight: infoPart.pctsNight || '',
         chargeNurses: infoPart.chargeNurses || { day: '', night: '' },
         assignments: initialAssignments,
         ...bottomPart,
+        teams: infoPart.teams && infoPart.teams.length > 0 ? infoPart.teams : createRosterTeams(unitConfig),
     };
+    return { roster, warnings, dateFound: Boolean(infoPart.date) };
 }
@@ -0,0 +1,64 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeAll } from 'vitest';
+import mammoth from 'mammoth';
+import { Roster } from '../types';
+import { buildRosterDocx } from './docxWriter';
+import { parseRosterWithDiagnostics, readDocxFile } from './docProcessor';
+import { DEFAULT_UNIT_CONFIG, createBlankAssignments } from './unitConfigService';
+import { createRosterTeam } from './teamService';
+
+const config = DEFAULT_UNIT_CONFIG;
+
+// The app loads mammoth's browser build, which takes an ArrayBuffer; the Node build takes a Buffer.
+beforeAll(() => {
+  Object.assign(globalThis, {
+    mammoth: { convertToHtml: ({ arrayBuffer }: { arrayBuffer: ArrayBuffer }) => mammoth.convertToHtml({ buffer: Buffer.from(arrayBuffer) }) },
+  });
+});
+
+// Writes the roster the way the export button does and reads it back the way an upload does.
+async function roundTrip(roster: Roster) {
+  const file = new File([buildRosterDocx(roster, config)], 'roster.docx');
+  return parseRosterWithDiagnostics(await readDocxFile(file), config);
+}
+
+const fullRoster = (): Roster => {
+  const teamA = createRosterTeam('TEAM A', config.rooms.slice(0, 16));
+  teamA.chargeNurses = { day: 'Smith, J', night: '#7503' };
+  teamA.pcts = { day: '#7520', night: '' };
+  const teamB = createRosterTeam('TEAM B', config.rooms.slice(16));
+  teamB.pcts.night = 'Kim';
+
+  const assignments = createBlankAssignments(config);
+  assignments[0] = { ...assignments[0], prec: 'Contact', patient: 'Doe, Jane', mrn: '123456', status: 'Vent, levo gtt', rnDay: 'Ann', extDay: '4521; +2h', rnNight: 'Bob', extNight: 'help: Smith, J' };
+  assignments[1] = { ...assignments[1], patient: 'Roe, Rick', mrn: '654321', status: '1:1', rnDay: 'Cal', rnNight: 'Bob' };
+  assignments[20] = { ...assignments[20], prec: 'Droplet', patient: 'Poe, Pat', status: 'HFNC', rnDay: 'Ann', extNight: 'x4530', rnNight: 'Dee' };
+
+  return {
+    date: '2026-01-05',
+    pctsDay: '#7520: 501-516\n#7521: 517-532',
+    pctsNight: 'Kim: 501-532',
+    chargeNurses: { day: '#7501', night: 'Mary Smith' },
+    assignments,
+    floats: { day: ['Ann'], night: ['Dee', 'Eve'] },
+    respiratory: { day: ['Jones: 501-516', 'Day, John: 517-532'], night: ['Lee: 501-532'] },
+    teams: [teamA, teamB],
+  };
+};
+
+describe('buildRosterDocx', () => {
+  it('round-trips through the roster parser without losing data', async () => {
+    const roster = fullRoster();
+    const { roster: parsed, warnings } = await roundTrip(roster);
+    expect(warnings).toEqual([]);
+    expect(parsed).toEqual(roster);
+  });
+
+  it('round-trips an RT list shared by both shifts and a blank roster', async () => {
+    const roster = { ...fullRoster(), respiratory: { day: ['Jones: 501-532'], night: ['Jones: 501-532'] } };
+    expect((await roundTrip(roster)).roster).toEqual(roster);
+
+    const blank = { ...fullRoster(), pctsDay: '', pctsNight: '', assignments: createBlankAssignments(config), floats: { day: [], night: [] } };
+    expect((await roundTrip(blank)).roster).toEqual(blank);
+  });
+});
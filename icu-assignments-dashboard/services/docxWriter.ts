@@ -0,0 +1,256 @@
+import { Roster, UnitConfig } from '../types';
+import { DEFAULT_UNIT_CONFIG } from './unitConfigService';
+import { createRosterTeam, formatTeamCell, getRosterTeams } from './teamService';
+import { formatRtCell } from './respiratoryService';
+
+// --- Minimal ZIP (store-only) writer ---
+// A .docx is a ZIP package of XML parts. The parts are small, so storing them
+// uncompressed keeps this writer dependency-free and usable offline.
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+function createZip(files: { name: string; content: string }[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(new Date());
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+        const nameBytes = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true); // Local file header signature
+        local.setUint16(4, 20, true); // Version needed to extract
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // Stored (no compression)
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, nameBytes.length, true);
+        local.setUint16(28, 0, true);
+        localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true); // Central directory header signature
+        central.setUint16(4, 20, true); // Version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, nameBytes.length, true);
+        central.setUint32(42, offset, true); // Offset of the local header
+        centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+        offset += 30 + nameBytes.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    parts.forEach(part => {
+        output.set(part, position);
+        position += part.length;
+    });
+    return output;
+}
+
+// --- WordprocessingML helpers ---
+
+const HEADER_FILL = 'E6F2E8';
+// Letter page with half-inch margins, in twentieths of a point.
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const PAGE_MARGIN = 720;
+const CONTENT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2;
+
+interface CellOptions {
+    bold?: boolean;
+    header?: boolean;
+    center?: boolean;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function paragraph(text: string, { bold, center }: CellOptions = {}, fontSize = 18): string {
+    const pPr = center ? '<w:pPr><w:spacing w:after="0"/><w:jc w:val="center"/></w:pPr>' : '<w:pPr><w:spacing w:after="0"/></w:pPr>';
+    const rPr = `<w:rPr>${bold ? '<w:b/>' : ''}<w:sz w:val="${fontSize}"/></w:rPr>`;
+    const run = text ? `<w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>` : '';
+    return `<w:p>${pPr}${run}</w:p>`;
+}
+
+// Each line of a cell becomes its own paragraph so the importer can split it again.
+function cell(lines: string | string[], width: number, options: CellOptions = {}): string {
+    const textLines = Array.isArray(lines) ? lines : lines.split('\n');
+    const shading = options.header ? `<w:shd w:val="clear" w:color="auto" w:fill="${HEADER_FILL}"/>` : '';
+    // Word requires at least one paragraph per cell.
+    const content = (textLines.length > 0 ? textLines : ['']).map(line => paragraph(line, { ...options, bold: options.bold || options.header })).join('');
+    return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shading}</w:tcPr>${content}</w:tc>`;
+}
+
+function row(cells: string[]): string {
+    return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells.join('')}</w:tr>`;
+}
+
+function table(columnWidths: number[], rows: string[]): string {
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="8" w:space="0" w:color="000000"/>`;
+    const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('');
+    const grid = columnWidths.map(w => `<w:gridCol w:w="${w}"/>`).join('');
+    return `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${rows.join('')}</w:tbl>`;
+}
+
+const columnWidths = (fractions: number[]) => fractions.map(f => Math.round(CONTENT_WIDTH * f));
+
+// Dates are written as MM/DD/YYYY, which the importer reads back as a local date.
+function formatFormDate(isoDate: string): string {
+    const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? `${match[2]}/${match[3]}/${match[1]}` : isoDate;
+}
+
+// --- Roster sections ---
+
+function buildInfoTable(roster: Roster, unitConfig: UnitConfig): string {
+    const widths = columnWidths([0.2, 0.2, 0.35, 0.25]);
+    const rosterTeams = getRosterTeams(roster, unitConfig);
+    const teams = rosterTeams.length > 0 ? rosterTeams : [createRosterTeam('TEAM A')];
+    const rooms = roster.assignments.map(a => a.room);
+
+    const teamRows = teams.map((team, i) => row(i === 0
+        ? [
+            cell(formatTeamCell(team, rooms), widths[0], { bold: true, center: true }),
+            cell(`DATE: ${formatFormDate(roster.date)}`, widths[1], { bold: true }),
+            cell(["PCT'S:", ...roster.pctsDay.split('\n')], widths[2]),
+            cell(['UL:', '7A-7P', `CHARGE NURSE: ${roster.chargeNurses.day}`], widths[3], { bold: true, center: true }),
+        ]
+        : [
+            cell(formatTeamCell(team, rooms), widths[0], { bold: true, center: true }),
+            cell('', widths[1]),
+            cell('', widths[2]),
+            cell('', widths[3]),
+        ]));
+
+    const nightRow = row([
+        cell('NIGHT SHIFT', widths[0], { bold: true, center: true }),
+        cell('', widths[1]),
+        cell(["PCT'S:", ...roster.pctsNight.split('\n')], widths[2]),
+        cell(['7P-7A', `CHARGE NURSE: ${roster.chargeNurses.night}`], widths[3], { bold: true, center: true }),
+    ]);
+
+    return table(widths, [...teamRows, nightRow]);
+}
+
+function buildAssignmentTable(roster: Roster): string {
+    const widths = columnWidths([0.06, 0.06, 0.18, 0.1, 0.14, 0.17, 0.06, 0.17, 0.06]);
+    const headers = ['RM', 'PREC', 'PATIENT', 'MRN', 'STATUS', 'RN DAYS', 'EXT', 'RN NIGHTS', 'EXT'];
+    const headerRow = row(headers.map((h, i) => cell(h, widths[i], { header: true, center: true })));
+
+    const bodyRows = roster.assignments.map(a => row([
+        cell(a.room, widths[0], { header: true, center: true }),
+        cell(a.prec, widths[1]),
+        cell(a.patient, widths[2]),
+        cell(a.mrn, widths[3]),
+        cell(a.status, widths[4]),
+        cell(a.rnDay, widths[5]),
+        cell(a.extDay, widths[6]),
+        cell(a.rnNight, widths[7]),
+        cell(a.extNight, widths[8]),
+    ]));
+
+    return table(widths, [headerRow, ...bodyRows]);
+}
+
+function buildFooterTable(roster: Roster): string {
+    const widths = columnWidths([1 / 3, 1 / 3, 1 / 3]);
+    const headerRow = row([
+        cell('RESPIRATORY THERAPISTS:', widths[0], { header: true, center: true }),
+        cell('FLOATS (DAYS)', widths[1], { header: true, center: true }),
+        cell('FLOATS (NIGHTS):', widths[2], { header: true, center: true }),
+    ]);
+    const dataRow = row([
+        cell(formatRtCell(roster.respiratory), widths[0]),
+        cell(roster.floats.day, widths[1]),
+        cell(roster.floats.night, widths[2]),
+    ]);
+    return table(widths, [headerRow, dataRow]);
+}
+
+function buildDocumentXml(roster: Roster, unitConfig: UnitConfig): string {
+    const spacer = paragraph('', {}, 8);
+    const body = [
+        paragraph(unitConfig.unitName, { bold: true, center: true }, 24),
+        buildInfoTable(roster, unitConfig),
+        spacer,
+        buildAssignmentTable(roster),
+        spacer,
+        buildFooterTable(roster),
+    ].join('');
+
+    const sectPr = `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>`;
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}${sectPr}</w:body></w:document>`;
+}
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>';
+const PACKAGE_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>';
+const DOCUMENT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+/**
+ * Builds a .docx that mirrors the paper assignment form: the info table,
+ * the 9-column RN DAYS/RN NIGHTS grid and the RESPIRATORY/FLOATS footer.
+ * The layout matches what `parseRosterFromHtml` expects, so exports re-import cleanly.
+ */
+export function buildRosterDocx(roster: Roster, unitConfig: UnitConfig = DEFAULT_UNIT_CONFIG): Blob {
+    const zip = createZip([
+        { name: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+        { name: '_rels/.rels', content: PACKAGE_RELS_XML },
+        { name: 'word/document.xml', content: buildDocumentXml(roster, unitConfig) },
+        { name: 'word/_rels/document.xml.rels', content: DOCUMENT_RELS_XML },
+    ]);
+    return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+}
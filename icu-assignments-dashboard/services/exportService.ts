@@ -1,4 +1,7 @@
-import { NurseStats } from '../types';
+import { NurseStats, Roster, UnitConfig, DateRange } from '../types';
+import { buildRosterDocx } from './docxWriter';
+import { BackupFile } from './backupService';
+import { OccupancyReport } from './occupancyService';
 
 function escapeCsvCell(cellData: string | number | boolean): string {
     const stringData = String(cellData);
@@ -8,29 +11,58 @@ function escapeCsvCell(cellData: string | number | boolean): string {
     return stringData;
 }
 
-export function exportNursesToCsv(nurses: NurseStats[], date: string, fileNamePrefix: string = 'icu_staffing_report') {
+// `period` is the range of roster dates the stats cover; it is repeated on every row.
+export function exportNursesToCsv(nurses: NurseStats[], date: string, fileNamePrefix: string = 'icu_staffing_report', period: DateRange | null = null) {
     const fileName = `${fileNamePrefix}_${date}.csv`;
     const headers = [
         'Nurse Name',
+        'Shift',
         'Patient Count',
+        'Day Patients',
+        'Night Patients',
+        'Acuity Score',
+        'Isolation Patients',
         'Is Triple',
         'Is 1-to-1',
         'Is Float',
         'Is High Assignment (5+)',
-        'Assigned Patients (Rooms)'
+        'Shifts Worked',
+        'Triple Shifts',
+        '1-to-1 Shifts',
+        'Extended Shifts',
+        'Hours Extended',
+        'Extra Staff',
+        'Charge Nurse(s)',
+        'Assigned Patients (Rooms)',
+        'Period Start',
+        'Period End'
     ];
 
     const rows = nurses.map(nurse => {
-        const patientDetails = nurse.patients.map(p => `${p.patient} (${p.room})`).join('; ');
+        const patientDetails = nurse.patients.map(p => `${p.patient} (${p.room}, ${p.date} ${p.shift})`).join('; ');
         
         return [
             nurse.name,
+            nurse.shift,
             nurse.patientCount,
+            nurse.patientCountsByShift.day,
+            nurse.patientCountsByShift.night,
+            nurse.acuityScore,
+            nurse.isolationPatientCount,
             nurse.isTriple,
             nurse.isOneToOne,
             nurse.isFloat,
             nurse.isHighAssignment,
+            nurse.shiftsWorked,
+            nurse.tripleShifts,
+            nurse.oneToOneShifts,
+            nurse.extendedShifts,
+            nurse.hoursExtended,
+            nurse.extraStaff.join('; '),
+            nurse.chargeNurses.join('; '),
             patientDetails,
+            period?.start ?? '',
+            period?.end ?? '',
         ].map(escapeCsvCell);
     });
 
@@ -40,6 +72,67 @@ export function exportNursesToCsv(nurses: NurseStats[], date: string, fileNamePr
     ].join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    downloadBlob(blob, fileName);
+}
+
+// One row per roster date, with a pair of columns for each team.
+export function exportOccupancyToCsv(report: OccupancyReport, date: string, fileNamePrefix: string = 'icu_occupancy') {
+    const fileName = `${fileNamePrefix}_${date}.csv`;
+    const teams = report.teams.map(t => t.team);
+    const headers = [
+        'Date',
+        'Occupied Rooms',
+        'Total Rooms',
+        'Occupancy %',
+        ...teams.flatMap(team => [`${team} Occupied`, `${team} %`]),
+        'Empty Rooms'
+    ];
+
+    const rows = report.days.map(day => [
+        day.date,
+        day.occupied,
+        day.totalRooms,
+        day.percent,
+        ...teams.flatMap(team => {
+            const counts = day.teams[team];
+            return counts ? [counts.occupied, counts.totalRooms > 0 ? Math.round((counts.occupied / counts.totalRooms) * 1000) / 10 : 0] : [0, 0];
+        }),
+        day.emptyRooms.join('; '),
+    ].map(escapeCsvCell));
+
+    const csvContent = [
+        headers.join(','),
+        ...rows.map(row => row.join(',')),
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), fileName);
+}
+
+// How often each room was occupied, i.e. the data behind the room heat map.
+export function exportRoomOccupancyToCsv(report: OccupancyReport, date: string, fileNamePrefix: string = 'icu_room_occupancy') {
+    const fileName = `${fileNamePrefix}_${date}.csv`;
+    const headers = ['Room', 'Team', 'Days Listed', 'Days Occupied', 'Occupancy %'];
+    const rows = report.rooms.map(room => [room.room, room.team, room.daysListed, room.daysOccupied, room.percent].map(escapeCsvCell));
+
+    const csvContent = [
+        headers.join(','),
+        ...rows.map(row => row.join(',')),
+    ].join('\n');
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), fileName);
+}
+
+export function exportRosterToDocx(roster: Roster, unitConfig: UnitConfig, fileNamePrefix: string = 'icu_assignments') {
+    const fileName = `${fileNamePrefix}_${roster.date}.docx`;
+    downloadBlob(buildRosterDocx(roster, unitConfig), fileName);
+}
+
+export function exportBackupToJson(backup: BackupFile, fileNamePrefix: string = 'icu_assignments_backup') {
+    const fileName = `${fileNamePrefix}_${backup.exportedAt.split('T')[0]}.json`;
+    downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), fileName);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
     const link = document.createElement('a');
     if (link.download !== undefined) {
         const url = URL.createObjectURL(blob);
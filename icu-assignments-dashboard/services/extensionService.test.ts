@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { parseExtension } from './extensionService';
+
+describe('parseExtension', () => {
+  it('reads phone, hours and extra staff', () => {
+    expect(parseExtension('x4521; +2h; help: Jones')).toEqual({ phone: '4521', hoursExtended: 2, extraStaff: ['Jones'], unrecognized: [] });
+    expect(parseExtension('4521 +1.5 hrs')).toMatchObject({ phone: '4521', hoursExtended: 1.5 });
+    expect(parseExtension('4521, +Jones')).toMatchObject({ phone: '4521', extraStaff: ['Jones'] });
+  });
+
+  it('keeps "Last, First" names together', () => {
+    expect(parseExtension('help: Smith, J\n4521').extraStaff).toEqual(['Smith, J']);
+    expect(parseExtension('+Smith, J; +Lee').extraStaff).toEqual(['Smith, J', 'Lee']);
+  });
+
+  it('flags parts it does not recognise', () => {
+    expect(parseExtension('4521; see charge').unrecognized).toEqual(['see charge']);
+  });
+
+  it('gives an empty entry for an empty cell', () => {
+    expect(parseExtension('')).toEqual({ phone: '', hoursExtended: 0, extraStaff: [], unrecognized: [] });
+  });
+});
@@ -0,0 +1,36 @@
+import { ExtensionEntry } from '../types';
+
+const PHONE_PATTERN = /^(?:x|ext\.?)?\s*(\d{3,6})$/i;
+const HOURS_PATTERN = /^(?:ext(?:ended)?\.?\s*)?\+?\s*(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hours?)$/i;
+const EXTRA_STAFF_PATTERN = /^(?:\+|(?:extra|help|support)\s*:?)\s*([a-z].*)$/i;
+
+export const EXTENSION_FORMAT_HINT = 'Phone extension (4521), hours extended (+2h) or extra staff (+Jones), separated by ";"';
+
+export const createExtensionEntry = (): ExtensionEntry => ({ phone: '', hoursExtended: 0, extraStaff: [], unrecognized: [] });
+
+/** Parses one EXT cell. An empty cell gives an empty entry. */
+export function parseExtension(text: string): ExtensionEntry {
+  const entry = createExtensionEntry();
+  // "4521 +2h" and "4521, +2h" are accepted as two parts as well. Other commas stay in their part,
+  // so "help: Smith, J" names one person.
+  const parts = (text || '').split(/[;\n]|(?:,\s*|\s+)(?=\+)/).map(part => part.trim()).filter(Boolean);
+
+  parts.forEach(part => {
+    const phone = part.match(PHONE_PATTERN);
+    const hours = part.match(HOURS_PATTERN);
+    const extra = part.match(EXTRA_STAFF_PATTERN);
+    if (hours) {
+      entry.hoursExtended = Math.max(entry.hoursExtended, parseFloat(hours[1]));
+    } else if (phone && !entry.phone) {
+      entry.phone = phone[1];
+    } else if (extra) {
+      entry.extraStaff.push(extra[1].trim());
+    } else {
+      entry.unrecognized.push(part);
+    }
+  });
+
+  return entry;
+}
+
+export const isExtendedShift = (entry: ExtensionEntry) => entry.hoursExtended > 0;
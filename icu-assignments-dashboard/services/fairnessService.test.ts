@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { NurseStats } from '../types';
+import { DEFAULT_FAIRNESS_SETTINGS, analyzeFairness } from './fairnessService';
+
+// Only the per-shift counts feed the fairness report; the rest is filler.
+const nurse = (name: string, shiftsWorked: number, counts: Partial<Pick<NurseStats, 'tripleShifts' | 'oneToOneShifts' | 'shiftAcuityScores'>> = {}): NurseStats => ({
+  name,
+  shift: 'combined',
+  patientCount: 0,
+  patientCountsByShift: { day: 0, night: 0 },
+  patients: [],
+  isTriple: false,
+  isOneToOne: false,
+  isFloat: false,
+  isHighAssignment: false,
+  acuityScore: 0,
+  isolationPatientCount: 0,
+  extendedShifts: 0,
+  hoursExtended: 0,
+  extraStaff: [],
+  chargeNurses: [],
+  shiftsWorked,
+  tripleShifts: 0,
+  oneToOneShifts: 0,
+  shiftAcuityScores: [],
+  ...counts,
+});
+
+describe('analyzeFairness', () => {
+  it('gives an evenly spread unit an equity index of 1 and flags nobody', () => {
+    const even = ['Ann', 'Bob', 'Cal', 'Dee'].map(name => nurse(name, 4, { tripleShifts: 1, oneToOneShifts: 2, shiftAcuityScores: [9, 3, 3, 3] }));
+    const report = analyzeFairness(even);
+
+    expect(report.metrics.triples).toEqual({ mean: 0.25, stdDev: 0, equityIndex: 1 });
+    expect(report.metrics.oneToOnes.equityIndex).toBe(1);
+    expect(report.metrics.heavyAcuity.equityIndex).toBe(1);
+    report.nurses.forEach(n => {
+      expect(n.flagged).toEqual([]);
+      expect(n.deviations).toEqual({ triples: null, oneToOnes: null, heavyAcuity: null });
+    });
+  });
+
+  it('flags a clear outlier at the configured deviation and lowers the equity index', () => {
+    const unit = [
+      ...['Ann', 'Bob', 'Cal', 'Dee', 'Eve'].map(name => nurse(name, 4)),
+      nurse('Fay', 4, { tripleShifts: 4 }),
+    ];
+    const report = analyzeFairness(unit);
+    const fay = report.nurses.find(n => n.name === 'Fay')!;
+
+    expect(report.metrics.triples.equityIndex).toBe(0.17);
+    expect(fay.deviations.triples).toBe(2.24);
+    expect(fay.flagged).toEqual(['triples']);
+    expect(report.nurses.filter(n => n.flagged.length > 0)).toHaveLength(1);
+
+    const lenient = analyzeFairness(unit, { ...DEFAULT_FAIRNESS_SETTINGS, deviationThreshold: 2.5 });
+    expect(lenient.nurses.every(n => n.flagged.length === 0)).toBe(true);
+  });
+
+  it('normalizes counts by shifts worked', () => {
+    const report = analyzeFairness([nurse('Ann', 8, { tripleShifts: 2 }), nurse('Bob', 4, { tripleShifts: 1 })]);
+    expect(report.nurses.map(n => n.rates.triples)).toEqual([0.25, 0.25]);
+    expect(report.metrics.triples.equityIndex).toBe(1);
+  });
+
+  it('counts a heavy-acuity shift from the configured threshold up', () => {
+    const stats = [nurse('Ann', 4, { shiftAcuityScores: [8, 7.9, 5, 3] })];
+    expect(analyzeFairness(stats).nurses[0].counts.heavyAcuity).toBe(1);
+    expect(analyzeFairness(stats, { ...DEFAULT_FAIRNESS_SETTINGS, heavyAcuityThreshold: 5 }).nurses[0].counts.heavyAcuity).toBe(3);
+  });
+
+  it('leaves out nurses below the minimum, including one with no shifts', () => {
+    const report = analyzeFairness(
+      [nurse('Ann', 4, { tripleShifts: 1 }), nurse('Bob', 0)],
+      { ...DEFAULT_FAIRNESS_SETTINGS, minShifts: 0 },
+    );
+    expect(report.nurses.map(n => n.name)).toEqual(['Ann']);
+    expect(report.excludedCount).toBe(1);
+    expect(Number.isFinite(report.metrics.triples.mean)).toBe(true);
+  });
+});
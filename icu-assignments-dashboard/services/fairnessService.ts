@@ -0,0 +1,128 @@
+import { NurseStats } from '../types';
+
+export type FairnessMetric = 'triples' | 'oneToOnes' | 'heavyAcuity';
+
+export const FAIRNESS_METRICS: { value: FairnessMetric; label: string }[] = [
+  { value: 'triples', label: 'Triples per shift' },
+  { value: 'oneToOnes', label: '1:1s per shift' },
+  { value: 'heavyAcuity', label: 'Heavy-acuity shifts per shift' },
+];
+
+export interface FairnessSettings {
+  // A shift whose acuity score reaches this is a heavy-acuity shift.
+  heavyAcuityThreshold: number;
+  // Nurses further than this many standard deviations from the unit mean are flagged.
+  deviationThreshold: number;
+  // Nurses with fewer shifts are left out; a rate over one or two shifts says little.
+  minShifts: number;
+}
+
+export const DEFAULT_FAIRNESS_SETTINGS: FairnessSettings = {
+  heavyAcuityThreshold: 8,
+  deviationThreshold: 1.5,
+  minShifts: 3,
+};
+
+export interface NurseFairness {
+  name: string;
+  shiftsWorked: number;
+  counts: Record<FairnessMetric, number>;
+  // Counts divided by shifts worked.
+  rates: Record<FairnessMetric, number>;
+  // Standard deviations from the unit mean; null when every nurse has the same rate.
+  deviations: Record<FairnessMetric, number | null>;
+  flagged: FairnessMetric[];
+}
+
+export interface FairnessMetricSummary {
+  mean: number;
+  stdDev: number;
+  // 1 - Gini coefficient of the per-shift rates: 1 is perfectly even, 0 is all on one nurse.
+  equityIndex: number;
+}
+
+export interface FairnessReport {
+  nurses: NurseFairness[];
+  // Nurses left out for working fewer than `minShifts` shifts.
+  excludedCount: number;
+  metrics: Record<FairnessMetric, FairnessMetricSummary>;
+}
+
+export interface DistributionBucket {
+  label: string;
+  count: number;
+}
+
+const METRIC_KEYS: FairnessMetric[] = ['triples', 'oneToOnes', 'heavyAcuity'];
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / values.length);
+}
+
+// Gini coefficient via the sorted-rank formula. No workload at all counts as perfectly even.
+function giniCoefficient(values: number[]): number {
+  const total = values.reduce((sum, v) => sum + v, 0);
+  if (values.length === 0 || total === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const weighted = sorted.reduce((sum, v, i) => sum + (i + 1) * v, 0);
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+}
+
+const round = (value: number, places: number = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Compares how often each nurse had a triple, a 1:1 or a heavy-acuity shift, normalized by
+ * shifts worked, against the rest of the unit. `stats` should hold one entry per nurse.
+ */
+export function analyzeFairness(stats: NurseStats[], settings: FairnessSettings = DEFAULT_FAIRNESS_SETTINGS): FairnessReport {
+  // A nurse with no shifts has no rate, even when `minShifts` is 0.
+  const eligible = stats.filter(s => s.shiftsWorked > 0 && s.shiftsWorked >= settings.minShifts);
+
+  const rows = eligible.map(s => {
+    const counts: Record<FairnessMetric, number> = {
+      triples: s.tripleShifts,
+      oneToOnes: s.oneToOneShifts,
+      heavyAcuity: s.shiftAcuityScores.filter(score => score >= settings.heavyAcuityThreshold).length,
+    };
+    const rates = {} as Record<FairnessMetric, number>;
+    METRIC_KEYS.forEach(metric => { rates[metric] = counts[metric] / s.shiftsWorked; });
+    return { name: s.name, shiftsWorked: s.shiftsWorked, counts, rates };
+  });
+
+  const metrics = {} as Record<FairnessMetric, FairnessMetricSummary>;
+  METRIC_KEYS.forEach(metric => {
+    const values = rows.map(r => r.rates[metric]);
+    metrics[metric] = {
+      mean: mean(values),
+      stdDev: standardDeviation(values),
+      equityIndex: round(1 - giniCoefficient(values)),
+    };
+  });
+
+  const nurses = rows.map(row => {
+    const deviations = {} as Record<FairnessMetric, number | null>;
+    const flagged: FairnessMetric[] = [];
+    METRIC_KEYS.forEach(metric => {
+      const { mean: avg, stdDev } = metrics[metric];
+      deviations[metric] = stdDev > 0 ? round((row.rates[metric] - avg) / stdDev) : null;
+      if (stdDev > 0 && Math.abs(row.rates[metric] - avg) > settings.deviationThreshold * stdDev) flagged.push(metric);
+    });
+    return { ...row, deviations, flagged };
+  });
+
+  return { nurses, excludedCount: stats.length - eligible.length, metrics };
+}
+
+/** Histogram of per-shift rates for one metric, in 10-percentage-point buckets. */
+export function rateDistribution(nurses: NurseFairness[], metric: FairnessMetric): DistributionBucket[] {
+  const buckets: DistributionBucket[] = Array.from({ length: 10 }, (_, i) => ({ label: `${i * 10}–${i * 10 + 10}%`, count: 0 }));
+  nurses.forEach(nurse => {
+    const index = Math.min(9, Math.floor(nurse.rates[metric] * 10));
+    buckets[index].count++;
+  });
+  return buckets;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { Roster } from '../types';
+import { EMPTY_HISTORY, MAX_HISTORY_ENTRIES, canRedo, canUndo, describeRosterChange, recordChange, redo, undo } from './historyService';
+import { makeRoster } from './testFixtures';
+
+// Successive versions of one roster, each with a different day nurse in room 501.
+const version = (rnDay: string): Roster => makeRoster('2026-01-05', [{ patient: 'Doe', rnDay }]);
+
+const recordAll = (names: string[]) =>
+  names.slice(1).reduce((history, name, i) => recordChange(history, version(names[i]), version(name)), EMPTY_HISTORY);
+
+describe('roster history', () => {
+  it('undoes and redoes by moving the cursor', () => {
+    const history = recordAll(['Ann', 'Bob', 'Cal']);
+    expect(history.cursor).toBe(2);
+    expect(canRedo(history)).toBe(false);
+
+    const first = undo(history)!;
+    expect(first.roster.assignments[0].rnDay).toBe('Bob');
+    const second = undo(first.history)!;
+    expect(second.roster.assignments[0].rnDay).toBe('Ann');
+    expect(canUndo(second.history)).toBe(false);
+    expect(undo(second.history)).toBeNull();
+
+    const again = redo(second.history)!;
+    expect(again.roster.assignments[0].rnDay).toBe('Bob');
+    expect(again.history.cursor).toBe(1);
+    expect(canRedo(again.history)).toBe(true);
+  });
+
+  it('drops undone entries when a new change is recorded', () => {
+    const undone = undo(undo(recordAll(['Ann', 'Bob', 'Cal']))!.history)!.history;
+    const history = recordChange(undone, version('Ann'), version('Dee'));
+
+    expect(history.entries.map(e => e.after.assignments[0].rnDay)).toEqual(['Dee']);
+    expect(history.cursor).toBe(1);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it(`keeps only the newest ${MAX_HISTORY_ENTRIES} entries`, () => {
+    const names = Array.from({ length: MAX_HISTORY_ENTRIES + 6 }, (_, i) => `Nurse ${i}`);
+    const history = recordAll(names);
+
+    expect(history.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.cursor).toBe(MAX_HISTORY_ENTRIES);
+    expect(history.entries[0].before.assignments[0].rnDay).toBe('Nurse 5');
+    // Ids keep counting up past the dropped entries.
+    expect(history.entries[MAX_HISTORY_ENTRIES - 1].id).toBe(MAX_HISTORY_ENTRIES + 5);
+  });
+
+  it('describes the change unless a description is given', () => {
+    expect(recordAll(['Ann', 'Bob']).entries[0].description).toBe('Room 501 RN Days: Ann → Bob');
+    expect(recordChange(EMPTY_HISTORY, version('Ann'), version('Bob'), 'Imported roster').entries[0].description).toBe('Imported roster');
+    expect(describeRosterChange(version('Ann'), version('Ann'))).toBe('No changes');
+  });
+});
@@ -0,0 +1,104 @@
+import { Roster, AssignmentRow } from '../types';
+
+// One recorded edit. Rosters are treated as immutable, so keeping both snapshots is cheap.
+export interface RosterHistoryEntry {
+  id: number;
+  description: string;
+  timestamp: number;
+  before: Roster;
+  after: Roster;
+}
+
+// `cursor` is the number of entries currently applied; entries after it can be redone.
+export interface RosterHistory {
+  entries: RosterHistoryEntry[];
+  cursor: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const EMPTY_HISTORY: RosterHistory = { entries: [], cursor: 0 };
+
+export const ROW_FIELD_LABELS: Record<keyof AssignmentRow, string> = {
+  room: 'Room',
+  prec: 'PREC',
+  patient: 'Patient',
+  mrn: 'MRN',
+  status: 'Status',
+  rnDay: 'RN Days',
+  extDay: 'EXT Days',
+  rnNight: 'RN Nights',
+  extNight: 'EXT Nights',
+};
+
+const displayValue = (value: string) => (value && value.trim() ? value.trim() : '(blank)');
+
+/**
+ * Summarizes what changed between two rosters, e.g. "Room 512 RN Days: Smith → Jones".
+ * Several changes at once are summarized by count.
+ */
+export function describeRosterChange(before: Roster, after: Roster): string {
+  const changes: string[] = [];
+
+  after.assignments.forEach((row, i) => {
+    const previous = before.assignments[i];
+    if (!previous || previous.room !== row.room) {
+      changes.push(`Room ${row.room} added`);
+      return;
+    }
+    (Object.keys(ROW_FIELD_LABELS) as (keyof AssignmentRow)[]).forEach(field => {
+      if (previous[field] !== row[field]) {
+        changes.push(`Room ${row.room} ${ROW_FIELD_LABELS[field]}: ${displayValue(previous[field])} → ${displayValue(row[field])}`);
+      }
+    });
+  });
+  if (before.assignments.length > after.assignments.length) changes.push('Rooms removed');
+
+  if (before.date !== after.date) changes.push(`Date: ${displayValue(before.date)} → ${displayValue(after.date)}`);
+  if (before.chargeNurses.day !== after.chargeNurses.day) changes.push(`Charge Nurse (Days): ${displayValue(before.chargeNurses.day)} → ${displayValue(after.chargeNurses.day)}`);
+  if (before.chargeNurses.night !== after.chargeNurses.night) changes.push(`Charge Nurse (Nights): ${displayValue(before.chargeNurses.night)} → ${displayValue(after.chargeNurses.night)}`);
+  if (before.pctsDay !== after.pctsDay) changes.push(`PCT's (Days) updated`);
+  if (before.pctsNight !== after.pctsNight) changes.push(`PCT's (Nights) updated`);
+  if (before.respiratory.day.join('\n') !== after.respiratory.day.join('\n')) changes.push('Respiratory therapists (Days) updated');
+  if (before.respiratory.night.join('\n') !== after.respiratory.night.join('\n')) changes.push('Respiratory therapists (Nights) updated');
+  if (before.floats.day.join('\n') !== after.floats.day.join('\n')) changes.push('Floats (Days) updated');
+  if (before.floats.night.join('\n') !== after.floats.night.join('\n')) changes.push('Floats (Nights) updated');
+  if (JSON.stringify(before.teams ?? []) !== JSON.stringify(after.teams ?? [])) changes.push('Teams updated');
+
+  if (changes.length === 0) return 'No changes';
+  if (changes.length === 1) return changes[0];
+  return `${changes.length} changes (${changes[0]}, ...)`;
+}
+
+/**
+ * Records a change as a new command. Anything that had been undone is discarded,
+ * and the oldest entries are dropped once the history is full.
+ */
+export function recordChange(history: RosterHistory, before: Roster, after: Roster, description?: string): RosterHistory {
+  const lastId = history.entries.length > 0 ? history.entries[history.entries.length - 1].id : 0;
+  const entry: RosterHistoryEntry = {
+    id: lastId + 1,
+    description: description ?? describeRosterChange(before, after),
+    timestamp: Date.now(),
+    before,
+    after,
+  };
+  const entries = [...history.entries.slice(0, history.cursor), entry].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, cursor: entries.length };
+}
+
+export const canUndo = (history: RosterHistory) => history.cursor > 0;
+export const canRedo = (history: RosterHistory) => history.cursor < history.entries.length;
+
+// Returns the roster to show after undoing, or null when there is nothing to undo.
+export function undo(history: RosterHistory): { history: RosterHistory; roster: Roster } | null {
+  if (!canUndo(history)) return null;
+  const entry = history.entries[history.cursor - 1];
+  return { history: { ...history, cursor: history.cursor - 1 }, roster: entry.before };
+}
+
+export function redo(history: RosterHistory): { history: RosterHistory; roster: Roster } | null {
+  if (!canRedo(history)) return null;
+  const entry = history.entries[history.cursor];
+  return { history: { ...history, cursor: history.cursor + 1 }, roster: entry.after };
+}
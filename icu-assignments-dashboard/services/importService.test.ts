@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { StagedImport, getStagedBase, resolveStagedImports } from './importService';
+import { Roster } from '../types';
+import { makeRoster } from './testFixtures';
+
+const stage = (id: string, roster: Roster, update: Partial<StagedImport> = {}): StagedImport => ({
+  id,
+  fileName: `${id}.docx`,
+  roster,
+  warnings: [],
+  error: null,
+  decision: 'accept',
+  resolution: 'replace',
+  roomChoices: {},
+  detailsChoice: 'keep',
+  ...update,
+});
+
+const date = '2026-01-05';
+const stored = makeRoster(date, [{ patient: 'A', rnDay: 'Smith' }, { patient: 'B', rnDay: 'Smith' }]);
+
+describe('resolveStagedImports', () => {
+  it('chains merges of several files for the same date', () => {
+    const first = stage('first', makeRoster(date, [{ patient: 'A', rnDay: 'Jones' }, { patient: 'B', rnDay: 'Jones' }]), {
+      resolution: 'merge',
+      roomChoices: { '501': 'incoming' },
+    });
+    const second = stage('second', makeRoster(date, [{ patient: 'A', rnDay: 'Lee' }, { patient: 'B', rnDay: 'Lee' }]), {
+      resolution: 'merge',
+      roomChoices: { '502': 'incoming' },
+    });
+    const { rosters, versions } = resolveStagedImports([first, second], [stored]);
+    expect(rosters).toHaveLength(1);
+    expect(rosters[0].assignments.map(row => row.rnDay)).toEqual(['Jones', 'Lee']);
+    expect(versions.map(v => v.roster)).toEqual([stored]);
+  });
+
+  it('keeps the earlier result when a later file for the date is kept', () => {
+    const replace = stage('replace', makeRoster(date, [{ patient: 'C', rnDay: 'Kim' }]));
+    const keep = stage('keep', makeRoster(date, [{ patient: 'D' }]), { resolution: 'keep' });
+    expect(resolveStagedImports([replace, keep], [stored]).rosters).toEqual([replace.roster]);
+  });
+
+  it('drops results identical to the stored roster', () => {
+    expect(resolveStagedImports([stage('same', stored)], [stored])).toEqual({ rosters: [], versions: [] });
+  });
+});
+
+describe('getStagedBase', () => {
+  it('resolves a later file against the earlier files for its date', () => {
+    const replace = stage('replace', makeRoster(date, [{ patient: 'C' }]));
+    const merge = stage('merge', makeRoster(date, [{ patient: 'D' }]), { resolution: 'merge' });
+    const other = stage('other', makeRoster('2026-01-06', []), { decision: 'reject' });
+    const staged = [replace, other, merge];
+    expect(getStagedBase(replace, staged, [stored])).toBe(stored);
+    expect(getStagedBase(merge, staged, [stored])).toBe(replace.roster);
+  });
+});
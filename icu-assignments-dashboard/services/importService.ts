@@ -0,0 +1,138 @@
+import { Roster, RosterVersion, UnitConfig } from '../types';
+import { readDocxFile, parseRosterWithDiagnostics } from './docProcessor';
+import { MergeChoice, mergeRosters } from './rosterDiffService';
+import { createRosterVersion } from './versionService';
+
+export type ImportDecision = 'accept' | 'reject';
+
+// What to do when a roster for the same date is already stored.
+export type ConflictResolution = 'keep' | 'replace' | 'merge';
+
+// One uploaded file waiting for review. `roster` is null when the file could not be parsed.
+export interface StagedImport {
+  id: string;
+  fileName: string;
+  roster: Roster | null;
+  warnings: string[];
+  error: string | null;
+  decision: ImportDecision;
+  resolution: ConflictResolution;
+  // Per-room choices used when `resolution` is "merge"; unlisted rooms keep the stored row.
+  roomChoices: Record<string, MergeChoice>;
+  detailsChoice: MergeChoice;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidRosterDate = (date: string) =>
+  ISO_DATE.test(date) && !isNaN(new Date(`${date}T00:00:00Z`).getTime());
+
+/**
+ * Reads a date from a file name such as "2024-03-05 ICU.docx" or "03-05-2024.docx".
+ * Returns null when the name does not contain one.
+ */
+export function dateFromFileName(fileName: string): string | null {
+  const iso = fileName.match(/(\d{4})[-_.](\d{1,2})[-_.](\d{1,2})/);
+  const us = fileName.match(/(\d{1,2})[-_.](\d{1,2})[-_.](\d{4})/);
+  if (!iso && !us) return null;
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]] : [us![3], us![1], us![2]];
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return isValidRosterDate(date) ? date : null;
+}
+
+/**
+ * Parses every file independently so one bad document does not fail the batch.
+ * Files without a date in the document fall back to the date in their file name, then today.
+ * Parsed files start out accepted and failed ones rejected.
+ */
+export async function stageImportFiles(files: File[], unitConfig: UnitConfig): Promise<StagedImport[]> {
+  const results = await Promise.allSettled(
+    files.map(async file => {
+      const html = await readDocxFile(file);
+      return parseRosterWithDiagnostics(html, unitConfig, dateFromFileName(file.name) ?? undefined);
+    }),
+  );
+
+  return results.map((result, i): StagedImport => {
+    const base = { id: `${Date.now()}-${i}`, fileName: files[i].name, resolution: 'replace' as const, roomChoices: {}, detailsChoice: 'keep' as const };
+    if (result.status === 'rejected') {
+      return { ...base, roster: null, warnings: [], error: result.reason?.message ?? String(result.reason), decision: 'reject' };
+    }
+    return { ...base, roster: result.value.roster, warnings: result.value.warnings, error: null, decision: 'accept' };
+  });
+}
+
+/**
+ * Problems with an item's date that depend on the rest of the batch, so they are
+ * recomputed whenever a date is edited.
+ */
+export function getStagedDateIssues(item: StagedImport, staged: StagedImport[]): string[] {
+  if (!item.roster) return [];
+  const date = item.roster.date;
+  if (!isValidRosterDate(date)) return ['The date must be a valid YYYY-MM-DD date.'];
+
+  const issues: string[] = [];
+  const duplicates = staged.filter(other => other !== item && other.decision === 'accept' && other.roster?.date === date);
+  if (item.decision === 'accept' && duplicates.length > 0) {
+    issues.push(`Another accepted file (${duplicates.map(d => d.fileName).join(', ')}) has the same date; the files are applied in list order.`);
+  }
+  return issues;
+}
+
+export const getAcceptedImports = (staged: StagedImport[]): StagedImport[] =>
+  staged.filter(item => item.decision === 'accept' && item.roster && isValidRosterDate(item.roster.date));
+
+export interface ResolvedImport {
+  // Rosters to write into history, one per date.
+  rosters: Roster[];
+  // Stored rosters being superseded, archived so they can be rolled back.
+  versions: RosterVersion[];
+}
+
+// The roster for the item's date after `item` is applied on top of `current`.
+function applyStagedImport(current: Roster | undefined, item: StagedImport): Roster | undefined {
+  const incoming = item.roster as Roster;
+  if (!current || item.resolution === 'replace') return incoming;
+  if (item.resolution === 'merge') return mergeRosters(current, incoming, item.roomChoices, item.detailsChoice);
+  return current;
+}
+
+/**
+ * The roster an accepted item's conflict resolution applies to: the stored roster for its
+ * date with every earlier accepted file for that date already applied.
+ */
+export function getStagedBase(item: StagedImport, staged: StagedImport[], historicalRosters: Roster[]): Roster | undefined {
+  const date = item.roster?.date;
+  const earlier = getAcceptedImports(staged.slice(0, staged.indexOf(item))).filter(other => other.roster?.date === date);
+  return earlier.reduce(applyStagedImport, historicalRosters.find(r => r.date === date));
+}
+
+/**
+ * Applies each accepted file's conflict resolution against the stored history. Files for
+ * dates that are not stored yet are added as-is. When several accepted files share a date
+ * they are applied in order, each resolving against the result of the ones before, and
+ * only the originally stored roster is archived. Results identical to the stored roster
+ * are dropped.
+ */
+export function resolveStagedImports(staged: StagedImport[], historicalRosters: Roster[]): ResolvedImport {
+  const storedByDate = new Map(historicalRosters.map(r => [r.date, r]));
+  const resolved = new Map<string, { roster: Roster; fileName: string }>();
+
+  getAcceptedImports(staged).forEach(item => {
+    const date = (item.roster as Roster).date;
+    const current = resolved.get(date)?.roster ?? storedByDate.get(date);
+    const roster = applyStagedImport(current, item);
+    if (roster && roster !== current) resolved.set(date, { roster, fileName: item.fileName });
+  });
+
+  const rosters: Roster[] = [];
+  const versions: RosterVersion[] = [];
+  resolved.forEach(({ roster, fileName }, date) => {
+    const stored = storedByDate.get(date);
+    if (stored && JSON.stringify(stored) === JSON.stringify(roster)) return;
+    if (stored) versions.push(createRosterVersion(stored, `Replaced by import of ${fileName}`));
+    rosters.push(roster);
+  });
+
+  return { rosters, versions };
+}
@@ -0,0 +1,115 @@
+import { NurseAliasTable } from '../types';
+
+export interface NurseMergeSuggestion {
+  names: [string, string];
+  score: number;
+  reason: string;
+}
+
+// Lower-cased, punctuation-free form used as the alias table key, e.g. "Smith, J." -> "smith j".
+export const normalizeNurseKey = (name: string) =>
+  (name || '').toLowerCase().replace(/[^a-z0-9,\s]/g, ' ').replace(/,/g, ' , ').replace(/\s+/g, ' ').trim();
+
+export function resolveNurseName(name: string, aliases: NurseAliasTable): string {
+  const trimmed = (name || '').trim();
+  if (!trimmed) return trimmed;
+  return aliases[normalizeNurseKey(trimmed)] ?? trimmed;
+}
+
+/**
+ * Records every name in `names` as an alias of `canonical`. Existing aliases that
+ * pointed at one of the merged names are re-pointed so lookups never chain. The
+ * canonical name maps to itself so differently punctuated spellings resolve to it too.
+ */
+export function mergeNurseNames(aliases: NurseAliasTable, names: string[], canonical: string): NurseAliasTable {
+  const mergedKeys = new Set(names.map(normalizeNurseKey));
+  const next: NurseAliasTable = {};
+  Object.entries(aliases).forEach(([key, target]) => {
+    next[key] = mergedKeys.has(normalizeNurseKey(target)) ? canonical : target;
+  });
+  [...names, canonical].forEach(name => {
+    const key = normalizeNurseKey(name);
+    if (key) next[key] = canonical;
+  });
+  return next;
+}
+
+export function removeNurseAlias(aliases: NurseAliasTable, aliasKey: string): NurseAliasTable {
+  const { [aliasKey]: _removed, ...rest } = aliases;
+  return rest;
+}
+
+// Name tokens in "first ... last" order; "Smith, J" is read as "J Smith".
+function nameTokens(name: string): string[] {
+  const key = normalizeNurseKey(name);
+  const [before, after] = key.split(' , ');
+  const ordered = after !== undefined ? `${after} ${before}` : key.replace(/ , /g, ' ');
+  return ordered.split(' ').filter(token => token && token !== ',');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Scores how likely two names are the same nurse, or returns null when they look unrelated.
+function compareNames(a: string, b: string): { score: number; reason: string } | null {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return null;
+
+  const fullA = tokensA.join(' ');
+  const fullB = tokensB.join(' ');
+  if (fullA === fullB) return { score: 1, reason: 'Same name, different formatting' };
+  if (tokensA.join('') === tokensB.join('')) return { score: 0.9, reason: 'Same letters, different spacing' };
+
+  const initialLast = (tokens: string[]) => tokens.length > 1 ? `${tokens[0][0]}${tokens[tokens.length - 1]}` : null;
+  const compactA = tokensA.length === 1 ? tokensA[0] : null;
+  const compactB = tokensB.length === 1 ? tokensB[0] : null;
+  if ((compactA && compactA === initialLast(tokensB)) || (compactB && compactB === initialLast(tokensA))) {
+    return { score: 0.85, reason: 'Initial and last name run together' };
+  }
+  if (initialLast(tokensA) && initialLast(tokensA) === initialLast(tokensB)) {
+    return { score: 0.8, reason: 'Same first initial and last name' };
+  }
+
+  const distance = editDistance(fullA, fullB);
+  const shorter = Math.min(fullA.length, fullB.length);
+  if ((distance === 1 && shorter >= 4) || (distance === 2 && shorter >= 8)) {
+    return { score: 0.7, reason: 'Similar spelling' };
+  }
+
+  if (compactA && tokensB.length > 1 && (tokensB.includes(compactA)) && compactA.length > 2) {
+    return { score: 0.6, reason: 'One entry is only part of the other name' };
+  }
+  if (compactB && tokensA.length > 1 && (tokensA.includes(compactB)) && compactB.length > 2) {
+    return { score: 0.6, reason: 'One entry is only part of the other name' };
+  }
+  return null;
+}
+
+/**
+ * Suggests pairs of (already resolved) nurse names that are probably the same person,
+ * most likely first. `dismissed` holds pair keys from `suggestionKey` to leave out.
+ */
+export function suggestNurseMerges(names: string[], dismissed: Set<string> = new Set()): NurseMergeSuggestion[] {
+  const unique = Array.from(new Set(names.map(n => n.trim()).filter(Boolean))).sort();
+  const suggestions: NurseMergeSuggestion[] = [];
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const match = compareNames(unique[i], unique[j]);
+      const names: [string, string] = [unique[i], unique[j]];
+      if (match && !dismissed.has(suggestionKey(names))) suggestions.push({ names, ...match });
+    }
+  }
+  return suggestions.sort((a, b) => b.score - a.score || a.names[0].localeCompare(b.names[0]));
+}
+
+export const suggestionKey = (names: [string, string]) => names.map(normalizeNurseKey).sort().join('|');
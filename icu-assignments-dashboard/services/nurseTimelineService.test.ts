@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { buildNurseTimeline } from './nurseTimelineService';
+import { buildStaffIndex, createStaffMember } from './staffService';
+import { DEFAULT_ACUITY_TABLE } from './acuityService';
+import { makeRoster } from './testFixtures';
+
+describe('buildNurseTimeline', () => {
+  const staffIndex = buildStaffIndex([{ ...createStaffMember('Smith'), badgeNumber: '#7501' }]);
+  const roster = makeRoster('2026-01-05', [{ patient: 'A', rnDay: 'Jones' }], { chargeNurses: { day: '#7501', night: '' } });
+
+  it('counts a shift where the charge cell holds the nurse badge', () => {
+    const [entry] = buildNurseTimeline([roster], 'Smith', DEFAULT_ACUITY_TABLE, {}, staffIndex);
+    expect(entry).toMatchObject({ date: '2026-01-05', shift: 'day', isCharge: true, chargeNurse: 'Smith' });
+  });
+
+  it('names the charge nurse on other nurses shifts', () => {
+    const [entry] = buildNurseTimeline([roster], 'Jones', DEFAULT_ACUITY_TABLE, {}, staffIndex);
+    expect(entry).toMatchObject({ isCharge: false, chargeNurse: 'Smith' });
+  });
+});
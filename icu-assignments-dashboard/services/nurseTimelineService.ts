@@ -0,0 +1,123 @@
+import { Roster, AcuityTable, NurseAliasTable, Shift, StaffMember } from '../types';
+import { scorePatientAcuity } from './acuityService';
+import { resolveNurseName } from './nurseIdentityService';
+import { resolveStaffName } from './staffService';
+import { addDays } from './dateRangeService';
+
+export interface NurseShiftPatient {
+  room: string;
+  patient: string;
+  status: string;
+  acuity: number;
+}
+
+// One shift a nurse worked, as an RN with patients, a float or the charge nurse.
+export interface NurseShiftEntry {
+  date: string;
+  shift: Shift;
+  patients: NurseShiftPatient[];
+  acuityScore: number;
+  chargeNurse: string;
+  isCharge: boolean;
+  isFloat: boolean;
+}
+
+export interface NurseStreaks {
+  // Consecutive calendar days with at least one shift.
+  longestRun: number;
+  // The run that includes the latest roster date, or 0 if they did not work it.
+  currentRun: number;
+  longestNightRun: number;
+  // Consecutive shifts worked that were all triples.
+  longestTripleRun: number;
+}
+
+const SHIFTS: Shift[] = ['day', 'night'];
+
+/**
+ * Every shift `name` worked across `rosters`, oldest first. Names are compared after alias
+ * resolution; the charge nurse cell is also resolved through `staffIndex`, since it
+ * usually holds a badge ("#7501") rather than a name.
+ */
+export function buildNurseTimeline(
+  rosters: Roster[],
+  name: string,
+  acuityTable: AcuityTable,
+  aliases: NurseAliasTable = {},
+  staffIndex: Map<string, StaffMember> = new Map(),
+): NurseShiftEntry[] {
+  const isNurse = (text: string) => Boolean(text && text.trim()) && resolveNurseName(text, aliases) === name;
+  const isChargeNurse = (text: string) => Boolean(text && text.trim()) && resolveStaffName(staffIndex, text, aliases) === resolveStaffName(staffIndex, name, aliases);
+  const entries: NurseShiftEntry[] = [];
+
+  [...rosters]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(roster => {
+      SHIFTS.forEach(shift => {
+        const rnField = shift === 'day' ? 'rnDay' : 'rnNight';
+        const patients = roster.assignments
+          .filter(row => isNurse(row[rnField]) && row.patient && row.patient.trim() !== '')
+          .map(row => ({
+            room: row.room,
+            patient: row.patient,
+            status: row.status,
+            acuity: scorePatientAcuity(row.patient, row.status, acuityTable),
+          }));
+        const isCharge = isChargeNurse(roster.chargeNurses[shift]);
+        const isFloat = (roster.floats?.[shift] || []).some(isNurse);
+        const isAssigned = roster.assignments.some(row => isNurse(row[rnField]));
+        if (!isAssigned && !isCharge && !isFloat) return;
+
+        entries.push({
+          date: roster.date,
+          shift,
+          patients,
+          acuityScore: patients.reduce((sum, p) => sum + p.acuity, 0),
+          chargeNurse: roster.chargeNurses[shift] ? resolveStaffName(staffIndex, roster.chargeNurses[shift], aliases) : '',
+          isCharge,
+          isFloat,
+        });
+      });
+    });
+
+  return entries;
+}
+
+// Longest run of consecutive calendar days in a sorted, de-duplicated date list.
+function longestDayRun(dates: string[]): number {
+  let longest = 0;
+  let run = 0;
+  dates.forEach((date, i) => {
+    run = i > 0 && addDays(dates[i - 1], 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+}
+
+export function calculateStreaks(entries: NurseShiftEntry[], latestDate: string | null): NurseStreaks {
+  const workedDates = Array.from(new Set(entries.map(e => e.date))).sort();
+  const nightDates = Array.from(new Set(entries.filter(e => e.shift === 'night').map(e => e.date))).sort();
+
+  let currentRun = 0;
+  if (latestDate && workedDates.includes(latestDate)) {
+    let date = latestDate;
+    while (workedDates.includes(date)) {
+      currentRun++;
+      date = addDays(date, -1);
+    }
+  }
+
+  let longestTripleRun = 0;
+  let tripleRun = 0;
+  entries.forEach(entry => {
+    tripleRun = entry.patients.length === 3 ? tripleRun + 1 : 0;
+    longestTripleRun = Math.max(longestTripleRun, tripleRun);
+  });
+
+  return {
+    longestRun: longestDayRun(workedDates),
+    currentRun,
+    longestNightRun: longestDayRun(nightDates),
+    longestTripleRun,
+  };
+}
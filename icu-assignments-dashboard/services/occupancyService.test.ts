@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { UnitConfig } from '../types';
+import { NO_TEAM, analyzeOccupancy } from './occupancyService';
+import { DEFAULT_UNIT_CONFIG } from './unitConfigService';
+import { createRosterTeam } from './teamService';
+import { makeRoster } from './testFixtures';
+
+// Four rooms; 503 and 504 are on no team.
+const config: UnitConfig = {
+  ...DEFAULT_UNIT_CONFIG,
+  rooms: ['501', '502', '503', '504'],
+  teams: [{ name: 'TEAM A', rooms: ['501', '502'] }],
+};
+
+describe('analyzeOccupancy', () => {
+  it('reports occupancy per day and per team, with unteamed rooms under "No team"', () => {
+    const report = analyzeOccupancy([
+      makeRoster('2026-01-06', [{ patient: 'A' }, {}, {}, {}]),
+      makeRoster('2026-01-05', [{ patient: 'A' }, { patient: 'B' }, { patient: 'C' }, {}]),
+    ], config);
+
+    expect(report.days.map(d => [d.date, d.occupied, d.percent])).toEqual([['2026-01-05', 3, 75], ['2026-01-06', 1, 25]]);
+    expect(report.days[0].emptyRooms).toEqual(['504']);
+    expect(report.days[0].teams).toEqual({ 'TEAM A': { occupied: 2, totalRooms: 2 }, [NO_TEAM]: { occupied: 1, totalRooms: 2 } });
+    expect(report.teams).toEqual([
+      { team: 'TEAM A', roomDays: 4, occupiedRoomDays: 3, percent: 75 },
+      { team: NO_TEAM, roomDays: 4, occupiedRoomDays: 1, percent: 25 },
+    ]);
+    expect(report.averageOccupied).toBe(2);
+    expect(report.averagePercent).toBe(50);
+  });
+
+  it('lists rooms only found on older rosters after the unit rooms', () => {
+    const older = makeRoster('2026-01-05', [{ patient: 'A' }, {}, {}, {}, { patient: 'B' }]);
+    const { rooms } = analyzeOccupancy([older], config);
+
+    expect(rooms.map(r => r.room)).toEqual(['501', '502', '503', '504', '505']);
+    expect(rooms[4]).toEqual({ room: '505', team: NO_TEAM, daysListed: 1, daysOccupied: 1, percent: 100 });
+  });
+
+  it("counts each day's rooms toward the teams on that day's roster", () => {
+    const regrouped = makeRoster('2026-01-05', [{ patient: 'A' }, {}, { patient: 'C' }, {}], {
+      teams: [createRosterTeam('TEAM A', ['501']), createRosterTeam('TEAM B', ['502', '503', '504'])],
+    });
+    const report = analyzeOccupancy([regrouped], config);
+
+    expect(report.days[0].teams).toEqual({ 'TEAM A': { occupied: 1, totalRooms: 1 }, 'TEAM B': { occupied: 1, totalRooms: 3 } });
+    expect(report.teams.map(t => [t.team, t.roomDays])).toEqual([['TEAM A', 1], ['TEAM B', 3]]);
+    // The per-room table still names each room's team on the current layout.
+    expect(report.rooms.find(r => r.room === '502')?.team).toBe('TEAM A');
+  });
+});
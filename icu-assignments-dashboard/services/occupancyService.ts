@@ -0,0 +1,110 @@
+import { Roster, UnitConfig } from '../types';
+import { normalizeRoomLabel } from './unitConfigService';
+import { findTeamForRoom, getRosterTeams } from './teamService';
+
+// Rooms outside every team are reported under this name.
+export const NO_TEAM = 'No team';
+
+export interface DailyOccupancy {
+  date: string;
+  occupied: number;
+  totalRooms: number;
+  percent: number;
+  emptyRooms: string[];
+  // Occupied and listed rooms per team on this day, by the roster's own teams.
+  teams: Record<string, { occupied: number; totalRooms: number }>;
+}
+
+export interface TeamOccupancy {
+  team: string;
+  // Room-days listed on the rosters and how many of them had a patient.
+  roomDays: number;
+  occupiedRoomDays: number;
+  percent: number;
+}
+
+export interface RoomOccupancy {
+  room: string;
+  // The room's team on the current unit layout; it may have been on another team on older rosters.
+  team: string;
+  daysListed: number;
+  daysOccupied: number;
+  percent: number;
+}
+
+export interface OccupancyReport {
+  days: DailyOccupancy[];
+  teams: TeamOccupancy[];
+  // In unit room order, followed by any rooms only found on older rosters.
+  rooms: RoomOccupancy[];
+  averageOccupied: number;
+  averagePercent: number;
+}
+
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+const isOccupied = (patient: string) => Boolean(patient && patient.trim() !== '');
+
+/**
+ * Occupied and empty rooms per day, per team and per room across `rosters`. Each day's rooms
+ * count toward the teams on that day's roster, the same teams the team filter uses.
+ */
+export function analyzeOccupancy(rosters: Roster[], unitConfig: UnitConfig): OccupancyReport {
+  const teamByRoom = new Map<string, string>();
+  unitConfig.teams.forEach(team => team.rooms.forEach(room => teamByRoom.set(normalizeRoomLabel(room), team.name)));
+  const layoutTeamOf = (room: string) => teamByRoom.get(normalizeRoomLabel(room)) ?? NO_TEAM;
+
+  const teamTotals = new Map<string, TeamOccupancy>();
+  unitConfig.teams.forEach(team => teamTotals.set(team.name, { team: team.name, roomDays: 0, occupiedRoomDays: 0, percent: 0 }));
+  const roomTotals = new Map<string, RoomOccupancy>();
+  unitConfig.rooms.forEach(room => roomTotals.set(normalizeRoomLabel(room), { room, team: layoutTeamOf(room), daysListed: 0, daysOccupied: 0, percent: 0 }));
+
+  const days = [...rosters]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(roster => {
+      const teams: DailyOccupancy['teams'] = {};
+      const emptyRooms: string[] = [];
+      let occupied = 0;
+      const rosterTeams = getRosterTeams(roster, unitConfig);
+
+      roster.assignments.forEach(row => {
+        const team = findTeamForRoom(rosterTeams, row.room)?.name ?? NO_TEAM;
+        const hasPatient = isOccupied(row.patient);
+        teams[team] = teams[team] ?? { occupied: 0, totalRooms: 0 };
+        teams[team].totalRooms++;
+
+        const teamTotal = teamTotals.get(team) ?? { team, roomDays: 0, occupiedRoomDays: 0, percent: 0 };
+        teamTotal.roomDays++;
+        const key = normalizeRoomLabel(row.room);
+        const roomTotal = roomTotals.get(key) ?? { room: row.room, team: layoutTeamOf(row.room), daysListed: 0, daysOccupied: 0, percent: 0 };
+        roomTotal.daysListed++;
+
+        if (hasPatient) {
+          occupied++;
+          teams[team].occupied++;
+          teamTotal.occupiedRoomDays++;
+          roomTotal.daysOccupied++;
+        } else {
+          emptyRooms.push(row.room);
+        }
+        teamTotals.set(team, teamTotal);
+        roomTotals.set(key, roomTotal);
+      });
+
+      const totalRooms = roster.assignments.length;
+      return { date: roster.date, occupied, totalRooms, percent: percentOf(occupied, totalRooms), emptyRooms, teams };
+    });
+
+  const teamRows = Array.from(teamTotals.values()).map(t => ({ ...t, percent: percentOf(t.occupiedRoomDays, t.roomDays) }));
+  const roomRows = Array.from(roomTotals.values()).map(r => ({ ...r, percent: percentOf(r.daysOccupied, r.daysListed) }));
+  const totalOccupied = days.reduce((sum, d) => sum + d.occupied, 0);
+  const totalRoomDays = days.reduce((sum, d) => sum + d.totalRooms, 0);
+
+  return {
+    days,
+    teams: teamRows,
+    rooms: roomRows,
+    averageOccupied: days.length > 0 ? Math.round((totalOccupied / days.length) * 10) / 10 : 0,
+    averagePercent: percentOf(totalOccupied, totalRoomDays),
+  };
+}
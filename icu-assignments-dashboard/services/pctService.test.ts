@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePctWorkload } from './pctService';
+import { makeRoster } from './testFixtures';
+
+describe('calculatePctWorkload', () => {
+  it('counts occupied rooms in each PCT range per shift', () => {
+    const roster = makeRoster('2026-01-05', [{ patient: 'A' }, { patient: 'B' }, { patient: '' }, { patient: 'D' }], {
+      pctsDay: 'Lee: 501-502\nKim: 503-504',
+      pctsNight: 'Lee: 501-504',
+    });
+    const byName = new Map(calculatePctWorkload([roster]).map(w => [w.name, w]));
+    expect(byName.get('Lee')?.shifts.day).toMatchObject({ shiftsWorked: 1, patients: 2 });
+    expect(byName.get('Lee')?.shifts.night).toMatchObject({ shiftsWorked: 1, patients: 3 });
+    expect(byName.get('Kim')?.shifts.day).toMatchObject({ shiftsWorked: 1, patients: 1 });
+    expect(byName.get('Kim')?.shifts.night.shiftsWorked).toBe(0);
+  });
+
+  it('averages patients over the shifts worked', () => {
+    const first = makeRoster('2026-01-05', [{ patient: 'A' }, { patient: 'B' }], { pctsDay: 'Lee: 501-502' });
+    const second = makeRoster('2026-01-06', [{ patient: 'A' }], { pctsDay: 'Lee: 501' });
+    const [lee] = calculatePctWorkload([first, second]);
+    expect(lee.shifts.day).toMatchObject({ shiftsWorked: 2, patients: 3, avgPatients: 1.5, maxPatients: 2 });
+  });
+});
@@ -0,0 +1,64 @@
+import { Roster, NurseAliasTable, Shift } from '../types';
+import { expandRoomRanges, normalizeRoomLabel, parseRoomAssignments } from './unitConfigService';
+import { resolveNurseName } from './nurseIdentityService';
+
+export interface PctShiftWorkload {
+  shiftsWorked: number;
+  patients: number;
+  avgPatients: number;
+  maxPatients: number;
+}
+
+export interface PctWorkload {
+  name: string;
+  shifts: Record<Shift, PctShiftWorkload>;
+}
+
+const SHIFTS: Shift[] = ['day', 'night'];
+
+export const pctTextFor = (roster: Roster, shift: Shift) => (shift === 'day' ? roster.pctsDay : roster.pctsNight);
+
+// Whether a shift's PCT text gives rooms at all; names alone ("#7520 / #7521") say nothing about coverage.
+export const hasPctRoomRanges = (roster: Roster, shift: Shift) =>
+  parseRoomAssignments(pctTextFor(roster, shift)).some(({ rooms }) => rooms !== '');
+
+const createShiftWorkload = (): PctShiftWorkload => ({ shiftsWorked: 0, patients: 0, avgPatients: 0, maxPatients: 0 });
+
+/**
+ * Occupied rooms each PCT covered per shift across `rosters`. A room covered by two
+ * PCTs counts for both. PCT names are resolved through `aliases` first.
+ */
+export function calculatePctWorkload(rosters: Roster[], aliases: NurseAliasTable = {}): PctWorkload[] {
+  const workloads = new Map<string, PctWorkload>();
+
+  rosters.forEach(roster => {
+    const rooms = roster.assignments.map(row => row.room);
+    const occupied = new Set(roster.assignments.filter(row => row.patient && row.patient.trim() !== '').map(row => normalizeRoomLabel(row.room)));
+
+    SHIFTS.forEach(shift => {
+      const patientsByPct = new Map<string, number>();
+      parseRoomAssignments(pctTextFor(roster, shift)).forEach(({ staff, rooms: expression }) => {
+        const name = resolveNurseName(staff, aliases);
+        const patients = expandRoomRanges(expression, rooms).filter(room => occupied.has(normalizeRoomLabel(room))).length;
+        patientsByPct.set(name, (patientsByPct.get(name) ?? 0) + patients);
+      });
+
+      patientsByPct.forEach((patients, name) => {
+        const workload = workloads.get(name) ?? { name, shifts: { day: createShiftWorkload(), night: createShiftWorkload() } };
+        const totals = workload.shifts[shift];
+        totals.shiftsWorked++;
+        totals.patients += patients;
+        totals.maxPatients = Math.max(totals.maxPatients, patients);
+        workloads.set(name, workload);
+      });
+    });
+  });
+
+  return Array.from(workloads.values()).map(workload => {
+    SHIFTS.forEach(shift => {
+      const totals = workload.shifts[shift];
+      totals.avgPatients = totals.shiftsWorked > 0 ? Math.round((totals.patients / totals.shiftsWorked) * 10) / 10 : 0;
+    });
+    return workload;
+  });
+}
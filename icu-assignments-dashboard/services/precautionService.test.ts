@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { parsePrecautions } from './precautionService';
+
+describe('parsePrecautions', () => {
+  it('reads combined and abbreviated precautions', () => {
+    expect(parsePrecautions('Contact/Droplet')).toEqual(['contact', 'droplet']);
+    expect(parsePrecautions('MRSA, C-diff')).toEqual(['contact', 'enteric']);
+    expect(parsePrecautions('cont (VRE)')).toEqual(['contact']);
+    expect(parsePrecautions('Reverse isolation')).toEqual(['neutropenic']);
+  });
+
+  it('does not match keywords inside longer words', () => {
+    expect(parsePrecautions('fluids only')).toEqual([]);
+    expect(parsePrecautions('continuous monitoring')).toEqual([]);
+    expect(parsePrecautions('atb')).toEqual([]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(parsePrecautions('  ')).toEqual([]);
+  });
+});
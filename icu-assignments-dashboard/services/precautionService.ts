@@ -0,0 +1,39 @@
+import { PrecautionCode } from '../types';
+import { matchesKeyword } from './acuityService';
+
+export interface PrecautionType {
+  code: PrecautionCode;
+  label: string;
+  // Abbreviation for badges in narrow cells.
+  short: string;
+  keywords: string[];
+  // Protective isolation shields the patient; every other precaution contains an infection.
+  protective: boolean;
+  badgeClass: string;
+}
+
+export const PRECAUTION_TYPES: PrecautionType[] = [
+  { code: 'contact', label: 'Contact', short: 'CON', keywords: ['contact', 'cont', 'mrsa', 'vre', 'esbl', 'cre', 'mdro'], protective: false, badgeClass: 'bg-amber-100 text-amber-800' },
+  { code: 'droplet', label: 'Droplet', short: 'DRP', keywords: ['droplet', 'drop', 'flu', 'influenza', 'rsv', 'pertussis'], protective: false, badgeClass: 'bg-sky-100 text-sky-800' },
+  { code: 'airborne', label: 'Airborne', short: 'AIR', keywords: ['airborne', 'tb', 'measles', 'varicella', 'n95', 'negative pressure'], protective: false, badgeClass: 'bg-red-100 text-red-800' },
+  { code: 'enteric', label: 'Enteric', short: 'ENT', keywords: ['enteric', 'c-diff', 'c diff', 'c. diff', 'cdiff', 'c. difficile', 'c difficile', 'cdi', 'noro', 'norovirus', 'contact plus', 'contact+'], protective: false, badgeClass: 'bg-orange-100 text-orange-800' },
+  { code: 'neutropenic', label: 'Neutropenic', short: 'NEU', keywords: ['neutropenic', 'neutro', 'protective', 'reverse iso', 'reverse isolation', 'bmt'], protective: true, badgeClass: 'bg-violet-100 text-violet-800' },
+];
+
+/**
+ * Precautions named in free PREC text such as "Contact/Droplet" or "C-diff", in PRECAUTION_TYPES order.
+ * Keywords match whole words, so "flu" does not match "fluids".
+ */
+export function parsePrecautions(prec: string): PrecautionCode[] {
+  const text = (prec || '').toLowerCase();
+  if (!text.trim()) return [];
+  return PRECAUTION_TYPES.filter(type => type.keywords.some(k => matchesKeyword(text, k))).map(type => type.code);
+}
+
+export const getPrecautionType = (code: PrecautionCode) => PRECAUTION_TYPES.find(type => type.code === code)!;
+
+export const isProtectivePrecaution = (code: PrecautionCode) => getPrecautionType(code).protective;
+
+export const hasInfectiousPrecaution = (codes: PrecautionCode[]) => codes.some(code => !isProtectivePrecaution(code));
+
+export const hasProtectivePrecaution = (codes: PrecautionCode[]) => codes.some(isProtectivePrecaution);
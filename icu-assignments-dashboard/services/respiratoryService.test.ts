@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRtWorkload, formatRtCell, parseRtCell } from './respiratoryService';
+import { validateRoster } from './validationService';
+import { makeRoster } from './testFixtures';
+
+const ventedRoster = (day: string[], night: string[]) => makeRoster('2026-01-05', [
+  { patient: 'A', status: 'Vent', rnDay: 'Smith', rnNight: 'Lee' },
+  { patient: 'B', status: 'HFNC', rnDay: 'Smith', rnNight: 'Lee' },
+  { patient: 'C', status: 'Vent', rnDay: 'Jones', rnNight: 'Lee' },
+], { respiratory: { day, night } });
+
+describe('RT cell', () => {
+  it('puts entries before any shift marker on both shifts', () => {
+    expect(parseRtCell(['Jones: 501-516'])).toEqual({ day: ['Jones: 501-516'], night: ['Jones: 501-516'] });
+  });
+
+  it('reads 7A / 7P headings and leading markers', () => {
+    expect(parseRtCell(['7A:', 'Jones: 501-516', 'NIGHTS', 'Lee: 501-532', '7A: Kim: 517-532'])).toEqual({
+      day: ['Jones: 501-516', 'Kim: 517-532'],
+      night: ['Lee: 501-532'],
+    });
+  });
+
+  it('reads names that start with Day or Night as entries', () => {
+    expect(parseRtCell(['Day, John: 501-510', 'Night A'])).toEqual({
+      day: ['Day, John: 501-510', 'Night A'],
+      night: ['Day, John: 501-510', 'Night A'],
+    });
+    const split = { day: ['Day, John: 501-510'], night: ['Night A: 511-532'] };
+    expect(parseRtCell(formatRtCell(split))).toEqual(split);
+  });
+
+  it('round-trips through formatRtCell', () => {
+    const split = { day: ['Jones: 501-516'], night: ['Lee: 501-532'] };
+    expect(parseRtCell(formatRtCell(split))).toEqual(split);
+    expect(formatRtCell({ day: ['Jones'], night: ['Jones'] })).toEqual(['Jones']);
+  });
+});
+
+describe('calculateRtWorkload', () => {
+  it('counts shifts and patients per shift', () => {
+    const [jones, lee] = calculateRtWorkload([ventedRoster(['Jones: 501-502'], ['Lee: 501-503'])]);
+    expect(jones.shifts.day).toMatchObject({ shiftsWorked: 1, respiratoryPatients: 2, ventilatedPatients: 1 });
+    expect(jones.shifts.night.shiftsWorked).toBe(0);
+    expect(lee.shifts.night).toMatchObject({ shiftsWorked: 1, respiratoryPatients: 3, ventilatedPatients: 2 });
+  });
+});
+
+describe('vented-without-rt', () => {
+  const messages = (day: string[], night: string[]) =>
+    validateRoster(ventedRoster(day, night)).filter(v => v.ruleId === 'vented-without-rt').map(v => v.message);
+
+  it('checks each shift separately', () => {
+    expect(messages(['Jones: 501-502'], ['Lee: 501-503'])).toEqual(['Room 503 has a vented patient but no RT is assigned to the room (Days).']);
+  });
+
+  it('skips RT lists of plain names with no rooms', () => {
+    expect(messages(['Jones'], ['Lee'])).toEqual([]);
+  });
+
+  it('still warns when a shift has no RT at all', () => {
+    expect(messages(['Jones'], [])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,141 @@
+import { Roster, NurseAliasTable, Shift } from '../types';
+import { matchesKeyword } from './acuityService';
+import { expandRoomRanges, mapRoomCoverage, normalizeRoomLabel, parseRoomAssignments } from './unitConfigService';
+import { resolveNurseName } from './nurseIdentityService';
+
+export interface RespiratorySupport {
+  label: string;
+  keywords: string[];
+  // Invasive ventilation; these patients must have an RT assigned.
+  ventilated: boolean;
+}
+
+// STATUS items an RT looks after. The ventilator keywords match the acuity table's.
+export const RESPIRATORY_SUPPORT: RespiratorySupport[] = [
+  { label: 'Ventilator', keywords: ['vent', 'vented', 'ventilator', 'ventilated', 'intubated', 'ett'], ventilated: true },
+  { label: 'Trach', keywords: ['trach', 'trached', 'tracheostomy'], ventilated: false },
+  { label: 'BiPAP/CPAP', keywords: ['bipap', 'cpap', 'niv'], ventilated: false },
+  { label: 'High flow', keywords: ['hfnc', 'high flow', 'optiflow', 'airvo'], ventilated: false },
+];
+
+export interface RtShiftWorkload {
+  shiftsWorked: number;
+  respiratoryPatients: number;
+  ventilatedPatients: number;
+  avgPatients: number;
+  avgVentilated: number;
+  maxPatients: number;
+}
+
+export interface RtWorkload {
+  name: string;
+  shifts: Record<Shift, RtShiftWorkload>;
+}
+
+const SHIFTS: Shift[] = ['day', 'night'];
+
+// Each shift's RT list is stored one line per RT, e.g. "Jones: 501-516".
+export const rtTextFor = (roster: Roster, shift: Shift) => (roster.respiratory?.[shift] || []).join('\n');
+
+export const rtListFromText = (text: string) => text.split('\n').filter(line => line.trim() !== '');
+
+// Whether a shift's RT list gives rooms at all; lists of plain names say nothing about coverage.
+export const hasRtRoomRanges = (roster: Roster, shift: Shift) =>
+  parseRoomAssignments(rtTextFor(roster, shift)).some(({ rooms }) => rooms !== '');
+
+const SHIFT_MARKERS: Record<string, Shift> = { '7A': 'day', DAYS: 'day', DAY: 'day', '7P': 'night', NIGHTS: 'night', NIGHT: 'night' };
+
+/**
+ * Reads the RESPIRATORY THERAPISTS cell of the .docx. A "7A" / "DAYS" line starts the day
+ * list and a "7P" / "NIGHTS" line the night list; a marker followed by a colon may also
+ * lead an entry ("7P: Lee: 501-532"). A marker word without a colon is part of a name, so
+ * "Day, John: 501-510" stays one entry. Entries before any marker are on both shifts.
+ */
+export function parseRtCell(lines: string[]): Roster['respiratory'] {
+  const respiratory: Roster['respiratory'] = { day: [], night: [] };
+  let current: Shift | null = null;
+  lines.map(line => line.trim()).filter(Boolean).forEach(line => {
+    const match = line.match(/^(7A|7P|DAYS?|NIGHTS?)\s*(?::\s*(.*))?$/i);
+    const shift = match ? SHIFT_MARKERS[match[1].toUpperCase()] : current;
+    const entry = match ? (match[2] ?? '').trim() : line;
+    if (match && !entry) {
+      current = shift;
+      return;
+    }
+    (shift ? [shift] : SHIFTS).forEach(s => respiratory[s].push(entry));
+  });
+  return respiratory;
+}
+
+// The inverse of `parseRtCell`: identical lists are written once, otherwise under 7A / 7P headings.
+export function formatRtCell(respiratory: Roster['respiratory']): string[] {
+  if (respiratory.day.join('\n') === respiratory.night.join('\n')) return respiratory.day;
+  return ['7A:', ...respiratory.day, '7P:', ...respiratory.night];
+}
+
+export function getRespiratorySupport(status: string): RespiratorySupport[] {
+  const s = (status || '').toLowerCase();
+  if (!s.trim()) return [];
+  return RESPIRATORY_SUPPORT.filter(support => support.keywords.some(k => matchesKeyword(s, k)));
+}
+
+export const isVentilated = (status: string) => getRespiratorySupport(status).some(support => support.ventilated);
+
+/** The RTs covering each room on one shift, keyed by normalized room label. */
+export const mapRtCoverage = (roster: Roster, shift: Shift) => mapRoomCoverage(rtTextFor(roster, shift), roster.assignments.map(row => row.room));
+
+const createShiftWorkload = (): RtShiftWorkload => ({ shiftsWorked: 0, respiratoryPatients: 0, ventilatedPatients: 0, avgPatients: 0, avgVentilated: 0, maxPatients: 0 });
+
+/**
+ * Occupied rooms with a respiratory STATUS item in each RT's room ranges, per shift
+ * in `rosters`. A room listed under two RTs counts for both. Names are resolved
+ * through `aliases` first.
+ */
+export function calculateRtWorkload(rosters: Roster[], aliases: NurseAliasTable = {}): RtWorkload[] {
+  const workloads = new Map<string, RtWorkload>();
+
+  rosters.forEach(roster => {
+    const rooms = roster.assignments.map(row => row.room);
+    const supportByRoom = new Map(
+      roster.assignments
+        .filter(row => row.patient && row.patient.trim() !== '')
+        .map(row => [normalizeRoomLabel(row.room), getRespiratorySupport(row.status)] as const)
+        .filter(([, support]) => support.length > 0),
+    );
+
+    SHIFTS.forEach(shift => {
+      const patientsByRt = new Map<string, { respiratory: number; ventilated: number }>();
+      parseRoomAssignments(rtTextFor(roster, shift)).forEach(({ staff, rooms: expression }) => {
+        const name = resolveNurseName(staff, aliases);
+        const counts = patientsByRt.get(name) ?? { respiratory: 0, ventilated: 0 };
+        expandRoomRanges(expression, rooms).forEach(room => {
+          const support = supportByRoom.get(normalizeRoomLabel(room));
+          if (!support) return;
+          counts.respiratory++;
+          if (support.some(s => s.ventilated)) counts.ventilated++;
+        });
+        patientsByRt.set(name, counts);
+      });
+
+      patientsByRt.forEach((counts, name) => {
+        const workload = workloads.get(name) ?? { name, shifts: { day: createShiftWorkload(), night: createShiftWorkload() } };
+        const totals = workload.shifts[shift];
+        totals.shiftsWorked++;
+        totals.respiratoryPatients += counts.respiratory;
+        totals.ventilatedPatients += counts.ventilated;
+        totals.maxPatients = Math.max(totals.maxPatients, counts.respiratory);
+        workloads.set(name, workload);
+      });
+    });
+  });
+
+  const perShift = (count: number, shifts: number) => (shifts > 0 ? Math.round((count / shifts) * 10) / 10 : 0);
+  return Array.from(workloads.values()).map(workload => {
+    SHIFTS.forEach(shift => {
+      const totals = workload.shifts[shift];
+      totals.avgPatients = perShift(totals.respiratoryPatients, totals.shiftsWorked);
+      totals.avgVentilated = perShift(totals.ventilatedPatients, totals.shiftsWorked);
+    });
+    return workload;
+  });
+}
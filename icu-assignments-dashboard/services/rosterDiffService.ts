@@ -0,0 +1,101 @@
+import { Roster, AssignmentRow } from '../types';
+import { ROW_FIELD_LABELS } from './historyService';
+import { createBlankAssignment } from './unitConfigService';
+import { describeTeams } from './teamService';
+
+export type MergeChoice = 'keep' | 'incoming';
+
+export interface CellChange {
+  field: keyof AssignmentRow;
+  before: string;
+  after: string;
+}
+
+export interface RoomDiff {
+  room: string;
+  changes: CellChange[];
+}
+
+// A change to the roster-wide fields outside the grid (charge nurses, PCTs, floats, RTs).
+export interface DetailChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface RosterDiff {
+  rooms: RoomDiff[];
+  details: DetailChange[];
+}
+
+const DIFF_FIELDS = (Object.keys(ROW_FIELD_LABELS) as (keyof AssignmentRow)[]).filter(field => field !== 'room');
+
+const rowsByRoom = (roster: Roster) => new Map(roster.assignments.map(row => [row.room, row]));
+
+// Every room in either roster, in the stored roster's order followed by any new rooms.
+const unionRooms = (stored: Roster, incoming: Roster) =>
+  Array.from(new Set([...stored.assignments.map(r => r.room), ...incoming.assignments.map(r => r.room)]));
+
+const DETAIL_FIELDS: { label: string; read: (roster: Roster) => string }[] = [
+  { label: 'Charge Nurse (Days)', read: r => r.chargeNurses.day },
+  { label: 'Charge Nurse (Nights)', read: r => r.chargeNurses.night },
+  { label: "PCT's (Days)", read: r => r.pctsDay },
+  { label: "PCT's (Nights)", read: r => r.pctsNight },
+  { label: 'Floats (Days)', read: r => r.floats.day.join(', ') },
+  { label: 'Floats (Nights)', read: r => r.floats.night.join(', ') },
+  { label: 'Respiratory Therapists (Days)', read: r => r.respiratory.day.join(', ') },
+  { label: 'Respiratory Therapists (Nights)', read: r => r.respiratory.night.join(', ') },
+  { label: 'Teams', read: r => describeTeams(r.teams ?? [], r.assignments.map(row => row.room)) },
+];
+
+/**
+ * Cell-level differences between a stored roster and an incoming version of the same day.
+ * Rooms are matched by label, so rosters parsed with different unit layouts still line up.
+ */
+export function diffRosters(stored: Roster, incoming: Roster): RosterDiff {
+  const storedRows = rowsByRoom(stored);
+  const incomingRows = rowsByRoom(incoming);
+
+  const rooms = unionRooms(stored, incoming)
+    .map(room => {
+      const before = storedRows.get(room) ?? createBlankAssignment(room);
+      const after = incomingRows.get(room) ?? createBlankAssignment(room);
+      const changes = DIFF_FIELDS
+        .filter(field => before[field].trim() !== after[field].trim())
+        .map(field => ({ field, before: before[field], after: after[field] }));
+      return { room, changes };
+    })
+    .filter(diff => diff.changes.length > 0);
+
+  const details = DETAIL_FIELDS
+    .map(({ label, read }) => ({ label, before: read(stored), after: read(incoming) }))
+    .filter(change => change.before.trim() !== change.after.trim());
+
+  return { rooms, details };
+}
+
+export const isEmptyDiff = (diff: RosterDiff) => diff.rooms.length === 0 && diff.details.length === 0;
+
+/**
+ * Builds a roster room by room: each room takes the incoming row when its choice is
+ * "incoming" and keeps the stored row otherwise. The roster-wide fields follow `detailsChoice`.
+ */
+export function mergeRosters(
+  stored: Roster,
+  incoming: Roster,
+  roomChoices: Record<string, MergeChoice>,
+  detailsChoice: MergeChoice,
+): Roster {
+  const storedRows = rowsByRoom(stored);
+  const incomingRows = rowsByRoom(incoming);
+  const detailsSource = detailsChoice === 'incoming' ? incoming : stored;
+
+  return {
+    ...detailsSource,
+    date: stored.date,
+    assignments: unionRooms(stored, incoming).map(room => {
+      const row = roomChoices[room] === 'incoming' ? incomingRows.get(room) : storedRows.get(room);
+      return row ?? createBlankAssignment(room);
+    }),
+  };
+}
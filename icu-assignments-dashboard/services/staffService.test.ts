@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { buildStaffIndex, createStaffMember, findStaffMember, resolveStaffName } from './staffService';
+import { mergeNurseNames } from './nurseIdentityService';
+
+// Badges are entered however the user types them; the index stores the normalized form.
+const smith = { ...createStaffMember('Smith, J'), badgeNumber: '7501' };
+const kim = { ...createStaffMember('Kim', 'PCT'), badgeNumber: '#t-20' };
+const index = buildStaffIndex([smith, kim]);
+
+describe('findStaffMember', () => {
+  it('finds a member by badge however the badge is written', () => {
+    expect(findStaffMember(index, '#7501')).toBe(smith);
+    expect(findStaffMember(index, ' # 7501 ')).toBe(smith);
+    expect(findStaffMember(index, '#T20')).toBe(kim);
+  });
+
+  it('finds nobody for a badge that is not in the directory', () => {
+    expect(findStaffMember(index, '#7599')).toBeUndefined();
+  });
+
+  it('finds a member by name, directly or through an alias', () => {
+    expect(findStaffMember(index, 'smith, j')).toBe(smith);
+    expect(findStaffMember(index, 'J Smith')).toBeUndefined();
+    const aliases = mergeNurseNames({}, ['Smith, J', 'J Smith'], 'Smith, J');
+    expect(findStaffMember(index, 'J Smith', aliases)).toBe(smith);
+    expect(findStaffMember(index, '  ')).toBeUndefined();
+  });
+});
+
+describe('resolveStaffName', () => {
+  it("gives the member's name for a badge and the text itself otherwise", () => {
+    expect(resolveStaffName(index, '#7501')).toBe('Smith, J');
+    expect(resolveStaffName(index, 'Lee')).toBe('Lee');
+  });
+});
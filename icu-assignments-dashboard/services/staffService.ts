@@ -0,0 +1,88 @@
+import { StaffMember, StaffRole, NurseAliasTable } from '../types';
+import { normalizeNurseKey, resolveNurseName } from './nurseIdentityService';
+
+export const STAFF_ROLES: StaffRole[] = ['RN', 'PCT', 'RT', 'Float Pool', 'Travel'];
+
+// Roles that can take an RN DAYS / RN NIGHTS assignment.
+export const NURSING_ROLES: StaffRole[] = ['RN', 'Float Pool', 'Travel'];
+
+export const normalizeBadgeNumber = (badge: string) => {
+  const digits = (badge || '').replace(/[^0-9a-z]/gi, '');
+  return digits ? `#${digits.toUpperCase()}` : '';
+};
+
+export const createStaffMember = (name: string = '', role: StaffRole = 'RN'): StaffMember => ({
+  id: `staff-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  badgeNumber: '',
+  role,
+  fte: null,
+  credentials: [],
+});
+
+/**
+ * Indexes the directory by the normalized form of each member's resolved name and
+ * by badge number, so roster text such as "smith, j" or "#7501" finds the member.
+ */
+export function buildStaffIndex(directory: StaffMember[], aliases: NurseAliasTable = {}): Map<string, StaffMember> {
+  const index = new Map<string, StaffMember>();
+  directory.forEach(member => {
+    if (member.badgeNumber) index.set(normalizeBadgeNumber(member.badgeNumber), member);
+    index.set(normalizeNurseKey(member.name), member);
+    index.set(normalizeNurseKey(resolveNurseName(member.name, aliases)), member);
+  });
+  return index;
+}
+
+export function findStaffMember(index: Map<string, StaffMember>, text: string, aliases: NurseAliasTable = {}): StaffMember | undefined {
+  const trimmed = (text || '').trim();
+  if (!trimmed) return undefined;
+  if (trimmed.startsWith('#')) return index.get(normalizeBadgeNumber(trimmed));
+  return index.get(normalizeNurseKey(trimmed)) ?? index.get(normalizeNurseKey(resolveNurseName(trimmed, aliases)));
+}
+
+/**
+ * The name a roster cell stands for: the directory member's name when the text is their
+ * badge ("#7501") or name, otherwise the text itself. Either way aliases are applied.
+ */
+export function resolveStaffName(index: Map<string, StaffMember>, text: string, aliases: NurseAliasTable = {}): string {
+  const member = findStaffMember(index, text, aliases);
+  return resolveNurseName(member ? member.name : text, aliases);
+}
+
+// Short description shown next to a name in autocomplete lists, e.g. "#7501 · RN · CCRN · 0.9 FTE".
+export const describeStaffMember = (member: StaffMember) =>
+  [member.badgeNumber, member.role, member.credentials.join(', '), member.fte !== null ? `${member.fte} FTE` : '']
+    .filter(Boolean)
+    .join(' · ');
+
+export const staffNamesForRoles = (directory: StaffMember[], roles: StaffRole[]) =>
+  directory.filter(member => roles.includes(member.role) && member.name.trim()).map(member => member.name.trim());
+
+export function validateStaffDirectory(directory: StaffMember[]): string[] {
+  const problems: string[] = [];
+  const names = new Map<string, string>();
+  const badges = new Map<string, string>();
+  directory.forEach(member => {
+    const name = member.name.trim();
+    if (!name) {
+      problems.push('Every staff member needs a name.');
+      return;
+    }
+    const nameKey = normalizeNurseKey(name);
+    if (names.has(nameKey)) problems.push(`${name} is listed more than once.`);
+    names.set(nameKey, name);
+
+    const badge = normalizeBadgeNumber(member.badgeNumber);
+    if (badge) {
+      const owner = badges.get(badge);
+      if (owner) problems.push(`Badge ${badge} is used by both ${owner} and ${name}.`);
+      badges.set(badge, name);
+    }
+    if (!STAFF_ROLES.includes(member.role)) problems.push(`${name} has an unknown role.`);
+    if (member.fte !== null && (isNaN(member.fte) || member.fte < 0 || member.fte > 1.5)) {
+      problems.push(`${name}'s FTE must be between 0 and 1.5.`);
+    }
+  });
+  return Array.from(new Set(problems));
+}
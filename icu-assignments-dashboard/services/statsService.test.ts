@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { calculateNurseStats, processBatchRosters, selectShiftStats } from './statsService';
+import { makeRoster } from './testFixtures';
+
+// Three patients on days and the same three on nights for one nurse.
+const doubleTriple = makeRoster('2026-01-05', [
+  { patient: 'A', rnDay: 'Smith', rnNight: 'Smith' },
+  { patient: 'B', rnDay: 'Smith', rnNight: 'Smith' },
+  { patient: 'C', rnDay: 'Smith', rnNight: 'Smith' },
+]);
+
+describe('selectShiftStats', () => {
+  it('keeps one entry per nurse for a single shift', () => {
+    const day = selectShiftStats(calculateNurseStats(doubleTriple), 'day');
+    expect(day).toHaveLength(1);
+    expect(day[0]).toMatchObject({ patientCount: 3, isTriple: true, isHighAssignment: false });
+  });
+
+  it('recalculates the high assignment flag from the combined patient count', () => {
+    const [combined] = selectShiftStats(calculateNurseStats(doubleTriple), 'combined');
+    expect(combined.patientCount).toBe(6);
+    expect(combined.isHighAssignment).toBe(true);
+    expect(combined.isTriple).toBe(true);
+    expect(combined.tripleShifts).toBe(2);
+  });
+
+  it('is not a triple when no single shift had three patients', () => {
+    const roster = makeRoster('2026-01-05', [
+      { patient: 'A', rnDay: 'Jones', rnNight: 'Jones' },
+      { patient: 'B', rnDay: 'Jones' },
+    ]);
+    const [combined] = selectShiftStats(calculateNurseStats(roster), 'combined');
+    expect(combined.patientCount).toBe(3);
+    expect(combined.isTriple).toBe(false);
+  });
+
+  it('combines batch stats across rosters and shifts', () => {
+    const next = makeRoster('2026-01-06', [{ patient: 'D', rnNight: 'Smith' }]);
+    const [combined] = selectShiftStats(processBatchRosters([doubleTriple, next]), 'combined');
+    expect(combined).toMatchObject({ patientCount: 7, shiftsWorked: 3, isHighAssignment: true });
+    expect(combined.patientCountsByShift).toEqual({ day: 3, night: 4 });
+  });
+});
@@ -1,65 +1,109 @@
-import { Roster, NurseStats } from '../types';
+import { Roster, NurseStats, AcuityTable, NurseAliasTable, Shift, ShiftView } from '../types';
+import { DEFAULT_ACUITY_TABLE, scorePatientAcuity } from './acuityService';
+import { resolveNurseName } from './nurseIdentityService';
+import { calculateContinuityMetric } from './continuityService';
+import { parsePrecautions } from './precautionService';
+import { parseExtension } from './extensionService';
 
-export function calculateNurseStats(roster: Roster): NurseStats[] {
-  if (!roster) return [];
+export function isOneToOneStatus(status: string): boolean {
+  const s = (status || '').toLowerCase();
+  return s.includes('1:1') || s.includes('1-1');
+}
 
-  const nurseMap: Map<string, NurseStats> = new Map();
+const SHIFTS: Shift[] = ['day', 'night'];
 
-  const initializeNurse = (name: string, chargeNurse: string, isFloat: boolean = false) => {
-    if (!nurseMap.has(name)) {
-      nurseMap.set(name, {
-        name,
-        patientCount: 0,
-        patients: [],
-        isTriple: false,
-        isOneToOne: false,
-        isFloat: isFloat,
-        isHighAssignment: false,
-        chargeNurse: chargeNurse,
-      });
-    }
-  };
+const statsKey = (name: string, shift: ShiftView) => `${shift}:${name}`;
 
+const createNurseStats = (name: string, shift: ShiftView, isFloat: boolean): NurseStats => ({
+  name,
+  shift,
+  patientCount: 0,
+  patientCountsByShift: { day: 0, night: 0 },
+  patients: [],
+  isTriple: false,
+  isOneToOne: false,
+  isFloat,
+  isHighAssignment: false,
+  acuityScore: 0,
+  isolationPatientCount: 0,
+  extendedShifts: 0,
+  hoursExtended: 0,
+  extraStaff: [],
+  chargeNurses: [],
+  shiftsWorked: 1,
+  tripleShifts: 0,
+  oneToOneShifts: 0,
+  shiftAcuityScores: [],
+});
+
+const addChargeNurse = (stats: NurseStats, chargeNurse: string) => {
+  if (chargeNurse && !stats.chargeNurses.includes(chargeNurse)) stats.chargeNurses.push(chargeNurse);
+};
+
+const addExtraStaff = (stats: NurseStats, name: string) => {
+  if (name && !stats.extraStaff.includes(name)) stats.extraStaff.push(name);
+};
+
+// The boolean flags only say whether something happened; these counts keep how often.
+const addShiftCounts = (target: NurseStats, source: NurseStats) => {
+  target.shiftsWorked += source.shiftsWorked;
+  target.tripleShifts += source.tripleShifts;
+  target.oneToOneShifts += source.oneToOneShifts;
+  target.extendedShifts += source.extendedShifts;
+  target.hoursExtended += source.hoursExtended;
+  target.shiftAcuityScores.push(...source.shiftAcuityScores);
+};
+
+/**
+ * Calculates stats for one roster, with a separate entry for each nurse on each shift
+ * they worked. Each entry's charge nurse is the one in charge of that shift. Names,
+ * including charge nurses, are resolved through `aliases` first.
+ */
+export function calculateNurseStats(roster: Roster, acuityTable: AcuityTable = DEFAULT_ACUITY_TABLE, aliases: NurseAliasTable = {}): NurseStats[] {
+  if (!roster) return [];
+
+  const nurseMap: Map<string, NurseStats> = new Map();
   const { assignments, floats, chargeNurses } = roster;
 
-  // Initialize float nurses
-  (floats?.day || []).forEach(name => initializeNurse(name.trim(), chargeNurses.day, true));
-  (floats?.night || []).forEach(name => initializeNurse(name.trim(), chargeNurses.night, true));
-
-  // Process day and night shift assignments
-  assignments.forEach(assignment => {
-    const { room, patient, rnDay, rnNight, status } = assignment;
-    
-    // Day Shift
-    if (rnDay && rnDay.trim() !== '') {
-      const name = rnDay.trim();
-      initializeNurse(name, chargeNurses.day);
-      const stats = nurseMap.get(name);
-      if (stats && patient && patient.trim() !== '') {
-        stats.patientCount++;
-        stats.patients.push({ room, patient });
+  SHIFTS.forEach(shift => {
+    const rnField = shift === 'day' ? 'rnDay' : 'rnNight';
+    const extField = shift === 'day' ? 'extDay' : 'extNight';
+
+    const initializeNurse = (name: string, isFloat: boolean = false) => {
+      const key = statsKey(name, shift);
+      if (!nurseMap.has(key)) {
+        const stats = createNurseStats(name, shift, isFloat);
+        addChargeNurse(stats, resolveNurseName(chargeNurses[shift], aliases));
+        nurseMap.set(key, stats);
       }
-    }
-    
-    // Night Shift
-    if (rnNight && rnNight.trim() !== '') {
-      const name = rnNight.trim();
-      initializeNurse(name, chargeNurses.night);
-      const stats = nurseMap.get(name);
-      if (stats && patient && patient.trim() !== '') {
+      return nurseMap.get(key)!;
+    };
+
+    // Initialize float nurses
+    (floats?.[shift] || []).forEach(name => {
+      if (name.trim()) initializeNurse(resolveNurseName(name, aliases), true);
+    });
+
+    assignments.forEach(assignment => {
+      const { room, patient, status, prec } = assignment;
+      const rn = assignment[rnField];
+      if (!rn || rn.trim() === '') return;
+
+      const stats = initializeNurse(resolveNurseName(rn, aliases));
+      // The EXT cell may be filled on one or every row of the nurse's assignment; it is one extension either way.
+      const extension = parseExtension(assignment[extField]);
+      stats.hoursExtended = Math.max(stats.hoursExtended, extension.hoursExtended);
+      extension.extraStaff.forEach(name => addExtraStaff(stats, resolveNurseName(name, aliases)));
+
+      if (patient && patient.trim() !== '') {
         stats.patientCount++;
-        stats.patients.push({ room, patient });
+        stats.patientCountsByShift[shift]++;
+        stats.acuityScore += scorePatientAcuity(patient, status, acuityTable);
+        stats.patients.push({ room, patient, date: roster.date, shift });
+        if (isOneToOneStatus(status)) stats.isOneToOne = true;
+        if (parsePrecautions(prec).length > 0) stats.isolationPatientCount++;
       }
-    }
-
-    // Check for high-acuity assignments based on status for both shifts
-     if (patient && patient.trim() !== '' && status && status.trim() !== '') {
-        const s = status.toLowerCase();
-        if(s.includes('1:1') || s.includes('1-1')) {
-            if(rnDay && nurseMap.has(rnDay.trim())) nurseMap.get(rnDay.trim())!.isOneToOne = true;
-            if(rnNight && nurseMap.has(rnNight.trim())) nurseMap.get(rnNight.trim())!.isOneToOne = true;
-        }
-    }
+    });
   });
 
   // Final calculations (Triples, High Assignment)
@@ -70,13 +114,68 @@ export function calculateNurseStats(roster: Roster): NurseStats[] {
     if (stats.patientCount >= 5) {
         stats.isHighAssignment = true;
     }
+    stats.tripleShifts = stats.isTriple ? 1 : 0;
+    stats.oneToOneShifts = stats.isOneToOne ? 1 : 0;
+    stats.extendedShifts = stats.hoursExtended > 0 ? 1 : 0;
+    stats.shiftAcuityScores = [stats.acuityScore];
   });
   
   return Array.from(nurseMap.values());
 }
 
+/**
+ * Narrows per-shift stats to what the dashboard shows: one shift's entries, or every
+ * nurse's shifts summed into a single "combined" entry.
+ */
+export function selectShiftStats(nurseStats: NurseStats[], view: ShiftView): NurseStats[] {
+  if (view !== 'combined') return nurseStats.filter(stats => stats.shift === view);
+
+  const combined: Map<string, NurseStats> = new Map();
+  nurseStats.forEach(stats => {
+    const existing = combined.get(stats.name);
+    if (!existing) {
+      combined.set(stats.name, {
+        ...stats,
+        shift: 'combined',
+        patientCountsByShift: { ...stats.patientCountsByShift },
+        patients: [...stats.patients],
+        chargeNurses: [...stats.chargeNurses],
+        extraStaff: [...stats.extraStaff],
+        shiftAcuityScores: [...stats.shiftAcuityScores],
+      });
+      return;
+    }
+    existing.patientCount += stats.patientCount;
+    existing.patientCountsByShift.day += stats.patientCountsByShift.day;
+    existing.patientCountsByShift.night += stats.patientCountsByShift.night;
+    existing.acuityScore += stats.acuityScore;
+    existing.isolationPatientCount += stats.isolationPatientCount;
+    existing.patients.push(...stats.patients);
+    existing.isOneToOne = existing.isOneToOne || stats.isOneToOne;
+    existing.isFloat = existing.isFloat || stats.isFloat;
+    addShiftCounts(existing, stats);
+    stats.chargeNurses.forEach(name => addChargeNurse(existing, name));
+    stats.extraStaff.forEach(name => addExtraStaff(existing, name));
+  });
+
+  // Flags are recalculated from the summed counts, the same way `processBatchRosters` does.
+  combined.forEach(stats => {
+    stats.isTriple = stats.tripleShifts > 0;
+    stats.isHighAssignment = stats.patientCount >= 5;
+  });
+  return Array.from(combined.values());
+}
 
-export function calculateSummaryStats(nurseStats: NurseStats[]) {
+
+export interface SummaryCounts {
+  totalNurses: number;
+  totalPatients: number;
+  totalTriples: number;
+  totalOneToOnes: number;
+  totalFloats: number;
+}
+
+export function calculateSummaryStats(nurseStats: NurseStats[]): SummaryCounts {
     return {
         totalNurses: nurseStats.length,
         totalPatients: nurseStats.reduce((sum, nurse) => sum + nurse.patientCount, 0),
@@ -87,26 +186,37 @@ export function calculateSummaryStats(nurseStats: NurseStats[]) {
 }
 
 
-export function processBatchRosters(rosters: Roster[]): NurseStats[] {
+export function processBatchRosters(rosters: Roster[], acuityTable: AcuityTable = DEFAULT_ACUITY_TABLE, aliases: NurseAliasTable = {}): NurseStats[] {
   const aggregatedStats: Map<string, NurseStats> = new Map();
 
   for (const roster of rosters) {
-    const dailyStats = calculateNurseStats(roster);
+    const dailyStats = calculateNurseStats(roster, acuityTable, aliases);
     for (const dailyStat of dailyStats) {
-      const { name } = dailyStat;
-      if (aggregatedStats.has(name)) {
-        const existing = aggregatedStats.get(name)!;
+      const key = statsKey(dailyStat.name, dailyStat.shift);
+      if (aggregatedStats.has(key)) {
+        const existing = aggregatedStats.get(key)!;
         existing.patientCount += dailyStat.patientCount;
-        existing.patients.push(...dailyStat.patients.map(p => ({
-          ...p,
-          patient: `${p.patient} (${roster.date})`,
-        })));
+        existing.patientCountsByShift.day += dailyStat.patientCountsByShift.day;
+        existing.patientCountsByShift.night += dailyStat.patientCountsByShift.night;
+        existing.acuityScore += dailyStat.acuityScore;
+        existing.isolationPatientCount += dailyStat.isolationPatientCount;
+        existing.patients.push(...dailyStat.patients);
         existing.isTriple = existing.isTriple || dailyStat.isTriple;
         existing.isOneToOne = existing.isOneToOne || dailyStat.isOneToOne;
         existing.isFloat = existing.isFloat || dailyStat.isFloat;
+        addShiftCounts(existing, dailyStat);
+        dailyStat.chargeNurses.forEach(name => addChargeNurse(existing, name));
+        dailyStat.extraStaff.forEach(name => addExtraStaff(existing, name));
       } else {
-        const newStat = { ...dailyStat, patients: [...dailyStat.patients] };
-        aggregatedStats.set(name, newStat);
+        const newStat = {
+          ...dailyStat,
+          patientCountsByShift: { ...dailyStat.patientCountsByShift },
+          patients: [...dailyStat.patients],
+          chargeNurses: [...dailyStat.chargeNurses],
+          extraStaff: [...dailyStat.extraStaff],
+          shiftAcuityScores: [...dailyStat.shiftAcuityScores],
+        };
+        aggregatedStats.set(key, newStat);
       }
     }
   }
@@ -116,4 +226,32 @@ export function processBatchRosters(rosters: Roster[]): NurseStats[] {
   });
 
   return Array.from(aggregatedStats.values());
-}
\ No newline at end of file
+}
+
+export interface PeriodSummary {
+  rosterCount: number;
+  // Per-shift entries for every nurse, before the shift view is applied.
+  allStats: NurseStats[];
+  nurseStats: NurseStats[];
+  summaryStats: SummaryCounts & { continuityRate: number | null };
+  shiftSummaries: Record<Shift, SummaryCounts>;
+}
+
+/** Everything the dashboard shows for one set of rosters, e.g. the selected date range or its comparison period. */
+export function summarizeRosters(rosters: Roster[], acuityTable: AcuityTable, aliases: NurseAliasTable, view: ShiftView): PeriodSummary {
+  const allStats = rosters.length > 1
+    ? processBatchRosters(rosters, acuityTable, aliases)
+    : rosters.length === 1 ? calculateNurseStats(rosters[0], acuityTable, aliases) : [];
+  const nurseStats = selectShiftStats(allStats, view);
+
+  return {
+    rosterCount: rosters.length,
+    allStats,
+    nurseStats,
+    summaryStats: { ...calculateSummaryStats(nurseStats), continuityRate: calculateContinuityMetric(rosters, aliases).rate },
+    shiftSummaries: {
+      day: calculateSummaryStats(selectShiftStats(allStats, 'day')),
+      night: calculateSummaryStats(selectShiftStats(allStats, 'night')),
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { migrateRoster, ROSTER_SCHEMA_VERSION, StorageError } from './storageService';
+
+describe('migrateRoster', () => {
+  it('fills in sections missing from localStorage-era rosters', () => {
+    const roster = migrateRoster({ date: '2026-01-05', assignments: [{ room: '501', patient: 'A' }] }, 0);
+    expect(roster.chargeNurses).toEqual({ day: '', night: '' });
+    expect(roster.floats).toEqual({ day: [], night: [] });
+    expect(roster.teams).toEqual([]);
+    expect(roster.assignments[0]).toMatchObject({ room: '501', patient: 'A', rnDay: '', extNight: '' });
+  });
+
+  it('copies a pre-split RT list onto both shifts', () => {
+    const roster = migrateRoster({ date: '2026-01-05', respiratory: ['Jones: 501-516'] }, 1);
+    expect(roster.respiratory).toEqual({ day: ['Jones: 501-516'], night: ['Jones: 501-516'] });
+  });
+
+  it('keeps teams a roster already has', () => {
+    const teams = [{ name: 'TEAM A', rooms: ['501'], chargeNurses: { day: '', night: '' }, pcts: { day: '', night: '' } }];
+    expect(migrateRoster({ date: '2026-01-05', respiratory: { day: [], night: [] }, teams }, 2).teams).toBe(teams);
+  });
+
+  it('rejects rosters that are not objects or come from a newer app', () => {
+    expect(() => migrateRoster(null, 0)).toThrow(StorageError);
+    expect(() => migrateRoster({}, ROSTER_SCHEMA_VERSION + 1)).toThrow('newer than this app supports');
+  });
+});
@@ -0,0 +1,348 @@
+import { Roster, RosterVersion, UnitConfig, AcuityTable, NurseAliasTable, StaffMember } from '../types';
+import { createBlankAssignment } from './unitConfigService';
+
+const DB_NAME = 'icu-assignments';
+const DB_VERSION = 2;
+const ROSTER_STORE = 'rosters';
+const VERSION_STORE = 'rosterVersions';
+const APP_STORE = 'app';
+
+// Legacy localStorage keys used before rosters moved to IndexedDB.
+const LEGACY_KEYS = {
+  liveRoster: 'icuLiveRoster',
+  historicalRosters: 'icuHistoricalRosters',
+  unitConfig: 'icuUnitConfig',
+  acuityTable: 'icuAcuityTable',
+};
+
+// A roster as stored on disk, tagged with the shape version it was written with.
+interface StoredRoster {
+  date: string;
+  schemaVersion: number;
+  roster: Roster;
+}
+
+// A superseded roster, stored with the same schema tagging as current rosters.
+interface StoredRosterVersion extends StoredRoster {
+  id: string;
+  replacedAt: string;
+  reason: string;
+}
+
+type LegacyKey = keyof typeof LEGACY_KEYS;
+
+interface StorageMeta {
+  // Only true once every legacy key has been copied.
+  migratedFromLocalStorage: boolean;
+  // Keys that could not be read or copied; only these are retried on the next start.
+  pendingLegacyKeys?: LegacyKey[];
+}
+
+type StoredRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is StoredRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+const asRecord = (value: unknown): StoredRecord => (isRecord(value) ? value : {});
+
+/**
+ * Each entry upgrades a stored roster from version N to N + 1. Add a new entry here
+ * whenever the `Roster` shape changes; records are upgraded as they are loaded.
+ */
+const ROSTER_MIGRATIONS: ((roster: StoredRecord) => StoredRecord)[] = [
+  // 0 -> 1: rosters saved by the localStorage version may be missing sections.
+  (roster) => {
+    const chargeNurses = asRecord(roster.chargeNurses);
+    const floats = asRecord(roster.floats);
+    return {
+      ...roster,
+      date: roster.date ?? '',
+      pctsDay: roster.pctsDay ?? '',
+      pctsNight: roster.pctsNight ?? '',
+      chargeNurses: { day: chargeNurses.day ?? '', night: chargeNurses.night ?? '' },
+      assignments: (Array.isArray(roster.assignments) ? roster.assignments : []).map((row: unknown) => {
+        const cells = asRecord(row);
+        return { ...createBlankAssignment(typeof cells.room === 'string' ? cells.room : ''), ...cells };
+      }),
+      floats: { day: floats.day ?? [], night: floats.night ?? [] },
+      respiratory: roster.respiratory ?? [],
+    };
+  },
+  // 1 -> 2: RTs split by shift. The old single list covered the whole day, so both shifts get it.
+  (roster) => {
+    const list = Array.isArray(roster.respiratory) ? roster.respiratory : [];
+    return { ...roster, respiratory: { day: list, night: [...list] } };
+  },
+  // 2 -> 3: teams moved onto the roster. Older rosters fall back to the unit layout's teams.
+  (roster) => ({ ...roster, teams: roster.teams ?? [] }),
+];
+
+export const ROSTER_SCHEMA_VERSION = ROSTER_MIGRATIONS.length;
+
+export class StorageError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Upgrades a roster written with `fromVersion` to the current schema.
+ * Throws if the roster was written by a newer version of the app.
+ */
+export function migrateRoster(roster: unknown, fromVersion: number): Roster {
+  if (fromVersion > ROSTER_SCHEMA_VERSION) {
+    throw new StorageError(`Roster schema version ${fromVersion} is newer than this app supports (${ROSTER_SCHEMA_VERSION}).`);
+  }
+  if (!isRecord(roster)) throw new StorageError('The roster is not an object.');
+  return ROSTER_MIGRATIONS.slice(fromVersion).reduce((current, migrate) => migrate(current), roster) as unknown as Roster;
+}
+
+// --- IndexedDB helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new StorageError('Transaction aborted.'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new StorageError('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ROSTER_STORE)) db.createObjectStore(ROSTER_STORE, { keyPath: 'date' });
+        if (!db.objectStoreNames.contains(APP_STORE)) db.createObjectStore(APP_STORE);
+        if (!db.objectStoreNames.contains(VERSION_STORE)) db.createObjectStore(VERSION_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new StorageError('Failed to open the roster database.', request.error));
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+const toStoredRoster = (roster: Roster): StoredRoster => ({ date: roster.date, schemaVersion: ROSTER_SCHEMA_VERSION, roster });
+
+// --- Legacy migration ---
+
+function readLegacyJson<T>(key: string, warnings: string[]): T | null {
+  const raw = localStorage.getItem(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    console.error(`Failed to parse legacy localStorage key ${key}`, e);
+    warnings.push(`Saved data under "${key}" could not be read. It has been left in browser storage and will be tried again next time.`);
+    return null;
+  }
+}
+
+/**
+ * Copies data from the old localStorage keys into IndexedDB. The legacy keys are left
+ * untouched as a fallback copy. Keys that could not be read or copied are recorded in
+ * the meta record and retried on later starts; a retry never overwrites data already
+ * in IndexedDB. Returns warnings for anything that could not be copied.
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<string[]> {
+  const metaTx = db.transaction([ROSTER_STORE, APP_STORE], 'readonly');
+  const metaStore = metaTx.objectStore(APP_STORE);
+  const [meta, storedDates, storedAppKeys] = await Promise.all([
+    requestToPromise<StorageMeta | undefined>(metaStore.get('meta')),
+    requestToPromise<IDBValidKey[]>(metaTx.objectStore(ROSTER_STORE).getAllKeys()),
+    requestToPromise<IDBValidKey[]>(metaStore.getAllKeys()),
+  ]);
+  if (meta?.migratedFromLocalStorage) return [];
+
+  const keys = new Set<LegacyKey>(meta?.pendingLegacyKeys ?? (Object.keys(LEGACY_KEYS) as LegacyKey[]));
+  const isRetry = meta !== undefined;
+  const failed = new Set<LegacyKey>();
+  const warnings: string[] = [];
+  const read = <T>(key: LegacyKey): T | null => {
+    if (!keys.has(key)) return null;
+    const value = readLegacyJson<T>(LEGACY_KEYS[key], warnings);
+    if (value === null && localStorage.getItem(LEGACY_KEYS[key])) failed.add(key);
+    return value;
+  };
+  // On a retry, anything already in IndexedDB was saved by the app since and wins.
+  const isFree = (appKey: string) => !isRetry || !storedAppKeys.includes(appKey);
+
+  const liveRoster = read<unknown>('liveRoster');
+  const historicalRosters = read<unknown[]>('historicalRosters') ?? [];
+  const unitConfig = read<UnitConfig>('unitConfig');
+  const acuityTable = read<AcuityTable>('acuityTable');
+
+  const tx = db.transaction([ROSTER_STORE, APP_STORE], 'readwrite');
+  const rosterStore = tx.objectStore(ROSTER_STORE);
+  const appStore = tx.objectStore(APP_STORE);
+  historicalRosters.forEach((raw, index) => {
+    try {
+      const roster = migrateRoster(raw, 0);
+      if (!isRetry || !storedDates.includes(roster.date)) rosterStore.put(toStoredRoster(roster));
+    } catch (e) {
+      console.error(`Failed to migrate legacy roster #${index}`, e);
+      warnings.push(`Historical roster #${index + 1} in browser storage could not be copied. It was left in place and will be tried again next time.`);
+      failed.add('historicalRosters');
+    }
+  });
+  if (liveRoster && isFree('liveRoster')) {
+    try {
+      appStore.put(toStoredRoster(migrateRoster(liveRoster, 0)), 'liveRoster');
+    } catch (e) {
+      console.error('Failed to migrate the legacy live roster', e);
+      warnings.push('The live roster in browser storage could not be copied. It was left in place and will be tried again next time.');
+      failed.add('liveRoster');
+    }
+  }
+  if (unitConfig && isFree('unitConfig')) appStore.put(unitConfig, 'unitConfig');
+  if (acuityTable && isFree('acuityTable')) appStore.put(acuityTable, 'acuityTable');
+  const nextMeta: StorageMeta = failed.size === 0
+    ? { migratedFromLocalStorage: true }
+    : { migratedFromLocalStorage: false, pendingLegacyKeys: Array.from(failed) };
+  appStore.put(nextMeta, 'meta');
+  await transactionDone(tx);
+  return warnings;
+}
+
+// --- Public API ---
+
+export interface LoadedAppData {
+  liveRoster: Roster | null;
+  historicalRosters: Roster[];
+  // Superseded rosters kept for rollback, newest first.
+  rosterVersions: RosterVersion[];
+  unitConfig: UnitConfig | null;
+  acuityTable: AcuityTable | null;
+  nurseAliases: NurseAliasTable | null;
+  staffDirectory: StaffMember[] | null;
+  // Suggested nurse merges marked "Not the same", as `suggestionKey` pair keys.
+  dismissedNurseMerges: string[] | null;
+  // Problems found while loading. Unreadable records are skipped, never deleted.
+  warnings: string[];
+}
+
+export async function loadAppData(): Promise<LoadedAppData> {
+  const db = await openDatabase();
+  const warnings = await migrateFromLocalStorage(db);
+
+  const tx = db.transaction([ROSTER_STORE, VERSION_STORE, APP_STORE], 'readonly');
+  const appStore = tx.objectStore(APP_STORE);
+  const [storedRosters, storedVersions, storedLive, unitConfig, acuityTable, nurseAliases, staffDirectory, dismissedNurseMerges] = await Promise.all([
+    requestToPromise<StoredRoster[]>(tx.objectStore(ROSTER_STORE).getAll()),
+    requestToPromise<StoredRosterVersion[]>(tx.objectStore(VERSION_STORE).getAll()),
+    requestToPromise<StoredRoster | undefined>(appStore.get('liveRoster')),
+    requestToPromise<UnitConfig | undefined>(appStore.get('unitConfig')),
+    requestToPromise<AcuityTable | undefined>(appStore.get('acuityTable')),
+    requestToPromise<NurseAliasTable | undefined>(appStore.get('nurseAliases')),
+    requestToPromise<StaffMember[] | undefined>(appStore.get('staffDirectory')),
+    requestToPromise<string[] | undefined>(appStore.get('dismissedNurseMerges')),
+  ]);
+
+  const historicalRosters: Roster[] = [];
+  storedRosters.forEach(record => {
+    try {
+      historicalRosters.push(migrateRoster(record.roster, record.schemaVersion));
+    } catch (e) {
+      console.error(`Failed to upgrade stored roster ${record.date}`, e);
+      warnings.push(`The stored roster for ${record.date} could not be loaded and was left unchanged.`);
+    }
+  });
+
+  const rosterVersions: RosterVersion[] = [];
+  storedVersions.forEach(record => {
+    try {
+      const roster = migrateRoster(record.roster, record.schemaVersion);
+      rosterVersions.push({ id: record.id, date: record.date, replacedAt: record.replacedAt, reason: record.reason, roster });
+    } catch (e) {
+      console.error(`Failed to upgrade stored roster version ${record.id}`, e);
+      warnings.push(`An earlier version of the ${record.date} roster could not be loaded and was left unchanged.`);
+    }
+  });
+
+  let liveRoster: Roster | null = null;
+  if (storedLive) {
+    try {
+      liveRoster = migrateRoster(storedLive.roster, storedLive.schemaVersion);
+    } catch (e) {
+      console.error('Failed to upgrade the stored live roster', e);
+      warnings.push('The saved live roster could not be loaded and was left unchanged.');
+    }
+  }
+
+  return {
+    liveRoster,
+    historicalRosters: historicalRosters.sort((a, b) => b.date.localeCompare(a.date)),
+    rosterVersions: rosterVersions.sort((a, b) => b.replacedAt.localeCompare(a.replacedAt)),
+    unitConfig: unitConfig ?? null,
+    acuityTable: acuityTable ?? null,
+    nurseAliases: nurseAliases ?? null,
+    staffDirectory: staffDirectory ?? null,
+    dismissedNurseMerges: dismissedNurseMerges ?? null,
+    warnings,
+  };
+}
+
+export async function saveLiveRoster(roster: Roster): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(APP_STORE, 'readwrite');
+  tx.objectStore(APP_STORE).put(toStoredRoster(roster), 'liveRoster');
+  await transactionDone(tx);
+}
+
+export async function saveSetting(key: 'unitConfig' | 'acuityTable' | 'nurseAliases' | 'staffDirectory' | 'dismissedNurseMerges', value: unknown): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(APP_STORE, 'readwrite');
+  tx.objectStore(APP_STORE).put(value, key);
+  await transactionDone(tx);
+}
+
+/**
+ * Writes only what changed between two versions of the history: rosters that are new
+ * or were replaced (by identity) are put, and dates that disappeared are deleted.
+ */
+export async function syncHistoricalRosters(previous: Roster[], next: Roster[]): Promise<void> {
+  const previousByDate = new Map(previous.map(r => [r.date, r]));
+  const nextDates = new Set(next.map(r => r.date));
+  const changed = next.filter(r => previousByDate.get(r.date) !== r);
+  const removed = previous.filter(r => !nextDates.has(r.date)).map(r => r.date);
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(ROSTER_STORE, 'readwrite');
+  const store = tx.objectStore(ROSTER_STORE);
+  removed.forEach(date => store.delete(date));
+  changed.forEach(roster => store.put(toStoredRoster(roster)));
+  await transactionDone(tx);
+}
+
+export async function saveRosterVersions(versions: RosterVersion[]): Promise<void> {
+  if (versions.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(VERSION_STORE, 'readwrite');
+  const store = tx.objectStore(VERSION_STORE);
+  versions.forEach(({ roster, ...version }) => store.put({ ...version, ...toStoredRoster(roster) } as StoredRosterVersion));
+  await transactionDone(tx);
+}
+
+export async function deleteRosterVersions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(VERSION_STORE, 'readwrite');
+  const store = tx.objectStore(VERSION_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+}
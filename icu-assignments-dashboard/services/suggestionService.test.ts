@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { applySuggestions, suggestAssignments } from './suggestionService';
+import { DEFAULT_UNIT_CONFIG } from './unitConfigService';
+import { DEFAULT_ACUITY_TABLE } from './acuityService';
+import { makeRoster } from './testFixtures';
+import { AssignmentRow } from '../types';
+
+// A full 32-room roster with patients in the given rooms, e.g. { 501: '1:1' } for a 1:1 in 501.
+const unitRoster = (statusByRoom: Record<number, string>) =>
+  makeRoster('2026-01-05', Array.from({ length: 32 }, (_, i): Partial<AssignmentRow> => {
+    const status = statusByRoom[501 + i];
+    return status === undefined ? {} : { patient: `P${501 + i}`, status };
+  }));
+
+const loads = (result: ReturnType<typeof suggestAssignments>) =>
+  Object.fromEntries(result.nurseLoads.map(load => [load.name, load.rooms]));
+
+const roster = makeRoster('2026-01-05', [
+  { patient: 'A', rnDay: 'Old' },
+  { patient: 'B', rnDay: 'Old' },
+  { patient: 'C', rnDay: 'Old' },
+]);
+
+describe('suggestAssignments', () => {
+  it('keeps filled cells by default', () => {
+    const result = suggestAssignments(roster, DEFAULT_UNIT_CONFIG, 'day', ['Smith']);
+    expect(result.changes).toEqual([]);
+    expect(result.unassignedRooms).toEqual([]);
+  });
+
+  it('clears rooms left unassigned when existing cells are not kept', () => {
+    const options = { maxPatientsPerNurse: 2, keepExisting: false };
+    const result = suggestAssignments(roster, DEFAULT_UNIT_CONFIG, 'day', ['Smith'], DEFAULT_ACUITY_TABLE, options);
+    expect(result.unassignedRooms).toEqual(['503']);
+    const applied = applySuggestions(roster, result.changes);
+    expect(applied.assignments.map(row => row.rnDay)).toEqual(['Smith', 'Smith', '']);
+  });
+});
+
+describe('suggestAssignments heuristics', () => {
+  const options = { maxPatientsPerNurse: 3, keepExisting: true };
+  const suggest = (statusByRoom: Record<number, string>, nurses: string[], maxPatientsPerNurse = 3) =>
+    suggestAssignments(unitRoster(statusByRoom), DEFAULT_UNIT_CONFIG, 'day', nurses, DEFAULT_ACUITY_TABLE, { ...options, maxPatientsPerNurse });
+
+  it('gives each 1:1 patient a nurse of their own', () => {
+    const result = suggest({ 501: '1:1', 502: '', 503: '', 504: '1:1', 505: '' }, ['Ann', 'Bob', 'Cal', 'Dee']);
+    const byNurse = loads(result);
+    const oneToOneNurses = Object.entries(byNurse).filter(([, rooms]) => rooms.includes('501') || rooms.includes('504'));
+    expect(oneToOneNurses).toHaveLength(2);
+    oneToOneNurses.forEach(([, rooms]) => expect(rooms).toHaveLength(1));
+    expect(result.unassignedRooms).toEqual([]);
+  });
+
+  it('leaves a 1:1 unassigned rather than doubling up a nurse', () => {
+    const result = suggest({ 501: '1:1', 502: '1:1' }, ['Ann']);
+    expect(result.unassignedRooms).toEqual(['502']);
+  });
+
+  it('keeps adjacent rooms together on one team', () => {
+    const result = suggest({ 515: '', 516: '', 517: '', 518: '' }, ['Ann', 'Bob']);
+    const assignments = Object.values(loads(result)).map(rooms => [...rooms].sort());
+    expect(assignments).toEqual(expect.arrayContaining([['515', '516'], ['517', '518']]));
+  });
+
+  it('balances acuity across nurses', () => {
+    const result = suggest({ 501: '', 502: '', 503: '', 504: '', 505: '', 506: '' }, ['Ann', 'Bob', 'Cal']);
+    expect(result.nurseLoads.map(load => load.patientCount)).toEqual([2, 2, 2]);
+    const heavy = suggest({ 501: 'ECMO', 502: '', 503: '', 504: '' }, ['Ann', 'Bob']);
+    // The ECMO patient (5 points) gets a nurse to themselves; the other three (1 point each) share one.
+    expect(heavy.nurseLoads.map(load => load.acuityScore).sort((a, b) => a - b)).toEqual([3, 5]);
+  });
+
+  it('never gives a nurse more than maxPatientsPerNurse', () => {
+    const statuses = Object.fromEntries([501, 502, 503, 504, 505, 506, 507].map(room => [room, '']));
+    const result = suggest(statuses, ['Ann', 'Bob'], 3);
+    expect(Math.max(...result.nurseLoads.map(load => load.patientCount))).toBe(3);
+    expect(result.unassignedRooms).toEqual(['507']);
+  });
+});
@@ -0,0 +1,172 @@
+import { Roster, UnitConfig, AcuityTable, AssignmentSuggestion, Shift } from '../types';
+import { DEFAULT_ACUITY_TABLE, scorePatientAcuity } from './acuityService';
+import { isOneToOneStatus } from './statsService';
+import { normalizeRoomLabel } from './unitConfigService';
+
+export interface SuggestionOptions {
+  maxPatientsPerNurse: number;
+  // When true, RN cells that are already filled are left alone and count toward each nurse's load.
+  keepExisting: boolean;
+}
+
+export const DEFAULT_SUGGESTION_OPTIONS: SuggestionOptions = {
+  maxPatientsPerNurse: 3,
+  keepExisting: true,
+};
+
+export interface NurseLoad {
+  name: string;
+  rooms: string[];
+  patientCount: number;
+  acuityScore: number;
+}
+
+export interface SuggestionResult {
+  changes: AssignmentSuggestion[];
+  nurseLoads: NurseLoad[];
+  unassignedRooms: string[];
+}
+
+interface NurseState extends NurseLoad {
+  positions: number[];
+  teams: Set<number>;
+  isOneToOne: boolean;
+}
+
+// Tuning weights for the greedy cost function. Going over the target load is what
+// really costs; the small balance weight only breaks ties toward lighter nurses.
+const OVERLOAD_WEIGHT = 2;
+const BALANCE_WEIGHT = 0.2;
+const ROOM_DISTANCE_WEIGHT = 0.15;
+const TEAM_CHANGE_PENALTY = 1;
+const NEW_POD_PENALTY = 0.6;
+
+export const shiftField = (shift: Shift): 'rnDay' | 'rnNight' => (shift === 'day' ? 'rnDay' : 'rnNight');
+
+/**
+ * Proposes RN assignments for one shift. 1:1 patients get a dedicated nurse first;
+ * remaining occupied rooms are filled greedily in room order, keeping each nurse in a
+ * block of adjacent rooms on one team until their acuity load reaches the unit average.
+ */
+export function suggestAssignments(
+  roster: Roster,
+  unitConfig: UnitConfig,
+  shift: Shift,
+  availableNurses: string[],
+  acuityTable: AcuityTable = DEFAULT_ACUITY_TABLE,
+  options: SuggestionOptions = DEFAULT_SUGGESTION_OPTIONS,
+): SuggestionResult {
+  const field = shiftField(shift);
+  const roomPosition = new Map(unitConfig.rooms.map((room, i) => [normalizeRoomLabel(room), i]));
+  const roomTeam = new Map<string, number>();
+  unitConfig.teams.forEach((team, teamIndex) => team.rooms.forEach(room => roomTeam.set(normalizeRoomLabel(room), teamIndex)));
+
+  const nurses = new Map<string, NurseState>();
+  const addNurse = (name: string) => {
+    const key = name.trim().toLowerCase();
+    if (!key) return undefined;
+    if (!nurses.has(key)) {
+      nurses.set(key, { name: name.trim(), rooms: [], patientCount: 0, acuityScore: 0, positions: [], teams: new Set(), isOneToOne: false });
+    }
+    return nurses.get(key)!;
+  };
+  availableNurses.forEach(addNurse);
+
+  const occupied = roster.assignments
+    .map((row, rowIndex) => ({
+      row,
+      rowIndex,
+      position: roomPosition.get(normalizeRoomLabel(row.room)) ?? rowIndex,
+      team: roomTeam.get(normalizeRoomLabel(row.room)) ?? -1,
+      acuity: scorePatientAcuity(row.patient, row.status, acuityTable),
+      isOneToOne: isOneToOneStatus(row.status),
+    }))
+    .filter(({ row }) => row.patient && row.patient.trim() !== '');
+
+  const assign = (nurse: NurseState, room: typeof occupied[number]) => {
+    nurse.rooms.push(room.row.room);
+    nurse.patientCount++;
+    nurse.acuityScore += room.acuity;
+    nurse.positions.push(room.position);
+    nurse.teams.add(room.team);
+    if (room.isOneToOne) nurse.isOneToOne = true;
+  };
+
+  const toFill = occupied.filter(room => {
+    if (!options.keepExisting || !room.row[field].trim()) return true;
+    assign(addNurse(room.row[field])!, room);
+    return false;
+  });
+
+  const proposed = new Map<number, string>();
+  const unassignedRooms: string[] = [];
+  const unassignedRows = new Set<number>();
+  const pool = () => Array.from(nurses.values());
+
+  // 1:1 patients take a nurse who has nothing else.
+  toFill.filter(room => room.isOneToOne).forEach(room => {
+    const nurse = pool().find(n => n.patientCount === 0);
+    if (!nurse) {
+      unassignedRooms.push(room.row.room);
+      unassignedRows.add(room.rowIndex);
+      return;
+    }
+    assign(nurse, room);
+    proposed.set(room.rowIndex, nurse.name);
+  });
+
+  const remaining = toFill.filter(room => !room.isOneToOne).sort((a, b) => a.position - b.position);
+  const totalAcuity = occupied.reduce((sum, room) => sum + room.acuity, 0);
+  const targetLoad = Math.max(1, totalAcuity / Math.max(1, nurses.size));
+
+  remaining.forEach(room => {
+    let best: NurseState | null = null;
+    let bestCost = Infinity;
+    for (const nurse of pool()) {
+      if (nurse.isOneToOne || nurse.patientCount >= options.maxPatientsPerNurse) continue;
+      const projected = nurse.acuityScore + room.acuity;
+      const loadCost = (Math.max(0, projected - targetLoad) * OVERLOAD_WEIGHT + projected * BALANCE_WEIGHT) / targetLoad;
+      let proximityCost = NEW_POD_PENALTY;
+      if (nurse.positions.length > 0) {
+        const distance = Math.min(...nurse.positions.map(p => Math.abs(p - room.position)));
+        proximityCost = (distance - 1) * ROOM_DISTANCE_WEIGHT + (nurse.teams.has(room.team) ? 0 : TEAM_CHANGE_PENALTY);
+      }
+      const cost = loadCost + proximityCost;
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = nurse;
+      }
+    }
+
+    if (!best) {
+      unassignedRooms.push(room.row.room);
+      unassignedRows.add(room.rowIndex);
+      return;
+    }
+    assign(best, room);
+    proposed.set(room.rowIndex, best.name);
+  });
+
+  // Without keepExisting, a room nobody could take is cleared rather than left with its previous nurse.
+  const changes: AssignmentSuggestion[] = [];
+  roster.assignments.forEach((row, rowIndex) => {
+    const to = proposed.get(rowIndex) ?? (unassignedRows.has(rowIndex) ? '' : undefined);
+    if (to !== undefined && to !== row[field].trim()) {
+      changes.push({ rowIndex, room: row.room, field, from: row[field], to });
+    }
+  });
+
+  const nurseLoads = pool()
+    .map(({ name, rooms, patientCount, acuityScore }) => ({ name, rooms, patientCount, acuityScore }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { changes, nurseLoads, unassignedRooms };
+}
+
+export function applySuggestions(roster: Roster, changes: AssignmentSuggestion[]): Roster {
+  const assignments = [...roster.assignments];
+  changes.forEach(change => {
+    assignments[change.rowIndex] = { ...assignments[change.rowIndex], [change.field]: change.to };
+  });
+  return { ...roster, assignments };
+}
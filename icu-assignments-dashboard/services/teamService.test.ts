@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_UNIT_CONFIG } from './unitConfigService';
+import { createRosterTeam, formatTeamCell, parseTeamCell, filterRosterToTeam, summarizeTeams } from './teamService';
+import { makeRoster } from './testFixtures';
+
+const config = DEFAULT_UNIT_CONFIG;
+
+const teamA = () => {
+  const team = createRosterTeam('TEAM A', config.rooms.slice(0, 16));
+  team.chargeNurses.day = 'Smith';
+  team.pcts.night = '#7522';
+  return team;
+};
+
+describe('team cells', () => {
+  it('round-trips through the docx cell text', () => {
+    const lines = formatTeamCell(teamA(), config.rooms);
+    expect(lines).toEqual(['TEAM A: 501-516', 'CHARGE 7A: Smith', 'PCT 7P: #7522']);
+    expect(parseTeamCell(lines.join('\n'), config)).toEqual(teamA());
+  });
+
+  it('takes rooms from the unit layout and reads RESOURCE as a day charge nurse', () => {
+    const team = parseTeamCell('Team b\nResource: Lee', config);
+    expect(team?.rooms).toEqual(config.rooms.slice(16));
+    expect(team?.chargeNurses).toEqual({ day: 'Lee', night: '' });
+  });
+
+  it('returns null for an empty cell', () => {
+    expect(parseTeamCell('  \n ', config)).toBeNull();
+  });
+});
+
+describe('filterRosterToTeam', () => {
+  const roster = makeRoster('2026-01-05', Array.from({ length: 32 }, () => ({})), {
+    chargeNurses: { day: '#7501', night: '#7502' },
+    floats: { day: ['Ann', 'Bob'], night: [] },
+    teams: [teamA(), createRosterTeam('TEAM B', config.rooms.slice(16))],
+  });
+  roster.assignments[0] = { ...roster.assignments[0], patient: 'X', rnDay: 'Ann' };
+  roster.assignments[20] = { ...roster.assignments[20], patient: 'Y', rnDay: 'Bob' };
+
+  it("keeps the team's rooms, floats and charge nurse", () => {
+    const filtered = filterRosterToTeam(roster, 'team a', config);
+    expect(filtered.assignments).toHaveLength(16);
+    expect(filtered.floats.day).toEqual(['Ann']);
+    expect(filtered.chargeNurses).toEqual({ day: 'Smith', night: '#7502' });
+  });
+
+  it('summarizes each team', () => {
+    const [a, b] = summarizeTeams([roster], config);
+    expect(a).toMatchObject({ name: 'TEAM A', rosterCount: 1, avgCensus: 1, nurses: 1, chargeNurses: ['Smith'], pcts: ['#7522'] });
+    expect(b).toMatchObject({ name: 'TEAM B', avgCensus: 1, chargeNurses: [] });
+  });
+
+  it('keeps the whole assignment of a nurse whose rooms span both teams', () => {
+    const spanning = makeRoster('2026-01-05', Array.from({ length: 32 }, () => ({})), {
+      teams: [createRosterTeam('TEAM A', config.rooms.slice(0, 16)), createRosterTeam('TEAM B', config.rooms.slice(16))],
+    });
+    [14, 15, 16].forEach(i => {
+      spanning.assignments[i] = { ...spanning.assignments[i], patient: `P${i}`, rnDay: 'Ann', rnNight: 'Cal' };
+    });
+    spanning.assignments[17] = { ...spanning.assignments[17], patient: 'P17', rnDay: 'Bob', rnNight: 'Cal' };
+
+    const teamA = filterRosterToTeam(spanning, 'TEAM A', config);
+    expect(teamA.assignments.map(row => [row.room, row.rnDay, row.rnNight]).slice(16)).toEqual([['517', 'Ann', 'Cal'], ['518', '', 'Cal']]);
+
+    const [a, b] = summarizeTeams([spanning], config);
+    // Ann (3 on days) and Cal (4 on nights) are counted whole on both teams.
+    expect(a).toMatchObject({ avgCensus: 2, nurses: 2, triples: 1 });
+    expect(b).toMatchObject({ avgCensus: 2, nurses: 3, triples: 1 });
+  });
+});
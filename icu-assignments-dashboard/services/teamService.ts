@@ -0,0 +1,176 @@
+import { AssignmentRow, Roster, RosterTeam, UnitConfig, NurseAliasTable } from '../types';
+import { expandRoomRanges, formatRoomRanges, normalizeRoomLabel, teamKey } from './unitConfigService';
+import { resolveNurseName } from './nurseIdentityService';
+import { calculateNurseStats } from './statsService';
+import { DEFAULT_ACUITY_TABLE } from './acuityService';
+
+export interface TeamSummary {
+  name: string;
+  rosterCount: number;
+  avgCensus: number;
+  // Patients per RN-shift with at least one patient; null when nobody had a patient.
+  avgPatientsPerRn: number | null;
+  nurses: number;
+  triples: number;
+  oneToOnes: number;
+  // Team charge/resource nurses and team PCTs named on the rosters.
+  chargeNurses: string[];
+  pcts: string[];
+}
+
+export const createRosterTeam = (name: string, rooms: string[] = []): RosterTeam => ({
+  name,
+  rooms,
+  chargeNurses: { day: '', night: '' },
+  pcts: { day: '', night: '' },
+});
+
+export const createRosterTeams = (unitConfig: UnitConfig): RosterTeam[] =>
+  unitConfig.teams.map(team => createRosterTeam(team.name, [...team.rooms]));
+
+/** The roster's own teams, or the unit layout's teams for rosters saved before teams were tracked. */
+export const getRosterTeams = (roster: Roster, unitConfig: UnitConfig): RosterTeam[] =>
+  roster.teams && roster.teams.length > 0 ? roster.teams : createRosterTeams(unitConfig);
+
+export const findTeamForRoom = (teams: RosterTeam[], room: string) =>
+  teams.find(team => team.rooms.some(r => normalizeRoomLabel(r) === normalizeRoomLabel(room)));
+
+const SHIFT_MARKERS = { '7A': 'day', '7P': 'night' } as const;
+
+/**
+ * Lines written into a team's cell of the .docx info table, e.g.
+ * "TEAM A: 501-516", "CHARGE 7A: Smith", "PCT 7P: #7522". Blank roles are left out.
+ */
+export function formatTeamCell(team: RosterTeam, rooms: string[]): string[] {
+  const ranges = formatRoomRanges(team.rooms, rooms);
+  const lines = [ranges ? `${team.name}: ${ranges}` : team.name];
+  (Object.entries(SHIFT_MARKERS) as [keyof typeof SHIFT_MARKERS, 'day' | 'night'][]).forEach(([marker, shift]) => {
+    if (team.chargeNurses[shift]) lines.push(`CHARGE ${marker}: ${team.chargeNurses[shift]}`);
+    if (team.pcts[shift]) lines.push(`PCT ${marker}: ${team.pcts[shift]}`);
+  });
+  return lines;
+}
+
+// One-line form of a roster's teams, e.g. "TEAM A: 501-516, CHARGE 7A: Smith; TEAM B: 517-532".
+export const describeTeams = (teams: RosterTeam[], rooms: string[]) =>
+  teams.map(team => formatTeamCell(team, rooms).join(', ')).join('; ');
+
+/**
+ * Reads a team cell written by `formatTeamCell`. A bare "TEAM A" takes its rooms from the
+ * unit layout's team of the same name. "RESOURCE" is read as "CHARGE", and a role without
+ * a 7A/7P marker is taken as the day shift. Returns null when the first line is empty.
+ */
+export function parseTeamCell(text: string, unitConfig: UnitConfig): RosterTeam | null {
+  const [first = '', ...rest] = (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+  const separator = first.indexOf(':');
+  const name = (separator === -1 ? first : first.slice(0, separator)).trim();
+  if (!name) return null;
+
+  const ranges = separator === -1 ? '' : first.slice(separator + 1);
+  const unitTeam = unitConfig.teams.find(team => teamKey(team.name) === teamKey(name));
+  const team = createRosterTeam(name, ranges.trim() ? expandRoomRanges(ranges, unitConfig.rooms) : [...(unitTeam?.rooms ?? [])]);
+
+  rest.forEach(line => {
+    const match = line.match(/^(CHARGE|RESOURCE|PCT)\s*(7A|7P)?\s*:\s*(.*)$/i);
+    if (!match) return;
+    const shift = SHIFT_MARKERS[(match[2] ?? '7A').toUpperCase() as keyof typeof SHIFT_MARKERS];
+    const role = match[1].toUpperCase() === 'PCT' ? team.pcts : team.chargeNurses;
+    role[shift] = match[3].trim();
+  });
+  return team;
+}
+
+const nurseKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Narrows a roster to one team's rooms so every dashboard stat can be computed for that
+ * team alone. A nurse with rooms on this and another team keeps their whole assignment for
+ * that shift, so their patient count, triple and 1:1 are the same as on the full roster;
+ * their rooms off the team follow the team's rows with the other shift's RN left blank.
+ * Floats are kept only when they have a room on the team, and the team's own charge nurse
+ * replaces the unit charge nurse where one is set.
+ */
+export function filterRosterToTeam(roster: Roster, name: string, unitConfig: UnitConfig): Roster {
+  const team = getRosterTeams(roster, unitConfig).find(t => teamKey(t.name) === teamKey(name));
+  const teamRooms = new Set((team?.rooms ?? []).map(normalizeRoomLabel));
+  const isTeamRow = (row: AssignmentRow) => teamRooms.has(normalizeRoomLabel(row.room));
+  const teamRows = roster.assignments.filter(isTeamRow);
+  const teamNurses = (field: 'rnDay' | 'rnNight') => new Set(teamRows.map(row => nurseKey(row[field])).filter(Boolean));
+  const dayNurses = teamNurses('rnDay');
+  const nightNurses = teamNurses('rnNight');
+  const spanningRows = roster.assignments
+    .filter(row => !isTeamRow(row) && (dayNurses.has(nurseKey(row.rnDay)) || nightNurses.has(nurseKey(row.rnNight))))
+    .map(row => {
+      const day = dayNurses.has(nurseKey(row.rnDay));
+      const night = nightNurses.has(nurseKey(row.rnNight));
+      return { ...row, rnDay: day ? row.rnDay : '', extDay: day ? row.extDay : '', rnNight: night ? row.rnNight : '', extNight: night ? row.extNight : '' };
+    });
+  const assignments = [...teamRows, ...spanningRows];
+  const onTeam = (nurse: string, field: 'rnDay' | 'rnNight') => (field === 'rnDay' ? dayNurses : nightNurses).has(nurseKey(nurse));
+
+  return {
+    ...roster,
+    assignments,
+    chargeNurses: {
+      day: team?.chargeNurses.day || roster.chargeNurses.day,
+      night: team?.chargeNurses.night || roster.chargeNurses.night,
+    },
+    floats: {
+      day: roster.floats.day.filter(nurse => onTeam(nurse, 'rnDay')),
+      night: roster.floats.night.filter(nurse => onTeam(nurse, 'rnNight')),
+    },
+    teams: team ? [team] : [],
+  };
+}
+
+// Team names on the unit layout, followed by any only found on the given rosters.
+export function listTeamNames(rosters: Roster[], unitConfig: UnitConfig): string[] {
+  const names = new Map<string, string>();
+  [...unitConfig.teams, ...rosters.flatMap(roster => roster.teams ?? [])].forEach(team => {
+    if (!names.has(teamKey(team.name))) names.set(teamKey(team.name), team.name);
+  });
+  return Array.from(names.values());
+}
+
+const addUnique = (list: string[], name: string) => {
+  if (name && !list.includes(name)) list.push(name);
+};
+
+/** Census, staffing and team leads for each team across `rosters`. */
+export function summarizeTeams(rosters: Roster[], unitConfig: UnitConfig, aliases: NurseAliasTable = {}): TeamSummary[] {
+  return listTeamNames(rosters, unitConfig).map(name => {
+    const summary: TeamSummary = { name, rosterCount: 0, avgCensus: 0, avgPatientsPerRn: null, nurses: 0, triples: 0, oneToOnes: 0, chargeNurses: [], pcts: [] };
+    const nurses = new Set<string>();
+    let census = 0;
+    let patients = 0;
+    let rnShifts = 0;
+
+    rosters.forEach(roster => {
+      const team = getRosterTeams(roster, unitConfig).find(t => teamKey(t.name) === teamKey(name));
+      if (!team) return;
+      const teamRoster = filterRosterToTeam(roster, name, unitConfig);
+      const stats = calculateNurseStats(teamRoster, DEFAULT_ACUITY_TABLE, aliases);
+
+      // Census counts the team's own rooms, not those of nurses who also work on another team.
+      const teamRooms = new Set(team.rooms.map(normalizeRoomLabel));
+      summary.rosterCount++;
+      census += roster.assignments.filter(row => teamRooms.has(normalizeRoomLabel(row.room)) && row.patient && row.patient.trim() !== '').length;
+      stats.forEach(s => {
+        nurses.add(s.name);
+        if (s.patientCount > 0) rnShifts++;
+        patients += s.patientCount;
+        if (s.isTriple) summary.triples++;
+        if (s.isOneToOne) summary.oneToOnes++;
+      });
+      addUnique(summary.chargeNurses, resolveNurseName(team.chargeNurses.day, aliases));
+      addUnique(summary.chargeNurses, resolveNurseName(team.chargeNurses.night, aliases));
+      addUnique(summary.pcts, team.pcts.day.trim());
+      addUnique(summary.pcts, team.pcts.night.trim());
+    });
+
+    summary.nurses = nurses.size;
+    summary.avgCensus = summary.rosterCount > 0 ? Math.round((census / summary.rosterCount) * 10) / 10 : 0;
+    summary.avgPatientsPerRn = rnShifts > 0 ? Math.round((patients / rnShifts) * 100) / 100 : null;
+    return summary;
+  });
+}
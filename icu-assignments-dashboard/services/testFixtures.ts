@@ -0,0 +1,15 @@
+import { AssignmentRow, Roster } from '../types';
+import { createBlankAssignment } from './unitConfigService';
+
+/** A roster for unit tests; rows fill rooms 501, 502, ... in order. */
+export const makeRoster = (date: string, rows: Partial<AssignmentRow>[], overrides: Partial<Roster> = {}): Roster => ({
+  date,
+  pctsDay: '',
+  pctsNight: '',
+  chargeNurses: { day: '', night: '' },
+  assignments: rows.map((row, i) => ({ ...createBlankAssignment(String(501 + i)), ...row })),
+  floats: { day: [], night: [] },
+  respiratory: { day: [], night: [] },
+  teams: [],
+  ...overrides,
+});
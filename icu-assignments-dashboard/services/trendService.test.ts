@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildDailyTrends } from './trendService';
+import { makeRoster } from './testFixtures';
+
+describe('buildDailyTrends', () => {
+  it('counts triples, 1:1s and floats separately for each shift', () => {
+    const roster = makeRoster('2026-01-05', [
+      { patient: 'A', rnDay: 'Ann', rnNight: 'Cal' },
+      { patient: 'B', rnDay: 'Ann', rnNight: 'Cal' },
+      { patient: 'C', rnDay: 'Ann', rnNight: 'Cal' },
+      { patient: 'D', status: '1:1', rnDay: 'Bob', rnNight: 'Fay' },
+      { rnDay: 'Bob' },
+    ], { floats: { day: ['Eve'], night: ['Fay', 'Gus'] } });
+    const [point] = buildDailyTrends([roster]);
+
+    expect(point.census).toBe(4);
+    expect(point.shifts.day).toEqual({ rns: 2, patients: 4, avgPatientsPerRn: 2, triples: 1, oneToOnes: 1, floats: 1 });
+    // Fay floats and has a patient, so counts as both an RN and a float; Gus only as a float.
+    expect(point.shifts.night).toEqual({ rns: 2, patients: 4, avgPatientsPerRn: 2, triples: 1, oneToOnes: 1, floats: 2 });
+  });
+
+  it('gives one point per roster, oldest first, with no average when nobody had a patient', () => {
+    const points = buildDailyTrends([
+      makeRoster('2026-01-06', [{ patient: 'A', prec: 'Contact, Droplet', rnDay: 'Ann' }]),
+      makeRoster('2026-01-05', [{ rnDay: 'Ann' }]),
+    ]);
+
+    expect(points.map(p => p.date)).toEqual(['2026-01-05', '2026-01-06']);
+    expect(points[0].shifts.day.avgPatientsPerRn).toBeNull();
+    expect(points[1].isolationPatients).toBe(1);
+    expect(points[1].shifts.night).toMatchObject({ rns: 0, patients: 0, triples: 0, floats: 0 });
+  });
+});
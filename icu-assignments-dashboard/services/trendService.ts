@@ -0,0 +1,67 @@
+import { Roster, NurseAliasTable, Shift, PrecautionCode } from '../types';
+import { DEFAULT_ACUITY_TABLE } from './acuityService';
+import { PRECAUTION_TYPES, parsePrecautions } from './precautionService';
+import { calculateNurseStats } from './statsService';
+
+export interface ShiftTrend {
+  // RNs with at least one patient on this shift.
+  rns: number;
+  patients: number;
+  avgPatientsPerRn: number | null;
+  triples: number;
+  oneToOnes: number;
+  floats: number;
+}
+
+export interface DailyTrendPoint {
+  date: string;
+  // Occupied rooms on the roster.
+  census: number;
+  // Occupied rooms with any precaution, and patients per precaution (a patient can have several).
+  isolationPatients: number;
+  precautions: Record<PrecautionCode, number>;
+  shifts: Record<Shift, ShiftTrend>;
+}
+
+const SHIFTS: Shift[] = ['day', 'night'];
+
+/** One point per roster date, oldest first, for the dashboard's trend charts. */
+export function buildDailyTrends(rosters: Roster[], aliases: NurseAliasTable = {}): DailyTrendPoint[] {
+  return [...rosters]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(roster => {
+      const stats = calculateNurseStats(roster, DEFAULT_ACUITY_TABLE, aliases);
+      const shifts = {} as Record<Shift, ShiftTrend>;
+
+      SHIFTS.forEach(shift => {
+        const shiftStats = stats.filter(s => s.shift === shift);
+        const rns = shiftStats.filter(s => s.patientCount > 0).length;
+        const patients = shiftStats.reduce((sum, s) => sum + s.patientCount, 0);
+        shifts[shift] = {
+          rns,
+          patients,
+          avgPatientsPerRn: rns > 0 ? Math.round((patients / rns) * 100) / 100 : null,
+          triples: shiftStats.filter(s => s.isTriple).length,
+          oneToOnes: shiftStats.filter(s => s.isOneToOne).length,
+          floats: shiftStats.filter(s => s.isFloat).length,
+        };
+      });
+
+      const occupied = roster.assignments.filter(row => row.patient && row.patient.trim() !== '');
+      const precautions = Object.fromEntries(PRECAUTION_TYPES.map(type => [type.code, 0])) as Record<PrecautionCode, number>;
+      let isolationPatients = 0;
+      occupied.forEach(row => {
+        const codes = parsePrecautions(row.prec);
+        if (codes.length > 0) isolationPatients++;
+        codes.forEach(code => precautions[code]++);
+      });
+
+      return {
+        date: roster.date,
+        census: occupied.length,
+        isolationPatients,
+        precautions,
+        shifts,
+      };
+    });
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_UNIT_CONFIG,
+  alignRosterToUnit,
+  expandRoomRanges,
+  findUnknownRooms,
+  formatRoomAssignments,
+  formatRoomRanges,
+  parseRoomAssignments,
+  parseTeamDefinitions,
+} from './unitConfigService';
+import { createRosterTeam } from './teamService';
+import { makeRoster } from './testFixtures';
+
+describe('alignRosterToUnit', () => {
+  const config = DEFAULT_UNIT_CONFIG;
+
+  it("keeps a roster team's own rooms and leads", () => {
+    const team = createRosterTeam('Team A', ['501', '502', '540']);
+    team.chargeNurses.day = 'Smith';
+    const aligned = alignRosterToUnit(makeRoster('2026-01-05', [], { teams: [team] }), config);
+    expect(aligned.teams[0]).toMatchObject({ name: 'TEAM A', rooms: ['501', '502'], chargeNurses: { day: 'Smith', night: '' } });
+  });
+
+  it("gives new teams and teams without rooms the unit's rooms", () => {
+    const aligned = alignRosterToUnit(makeRoster('2026-01-05', [], { teams: [createRosterTeam('TEAM A', ['540'])] }), config);
+    expect(aligned.teams.map(t => t.rooms)).toEqual(config.teams.map(t => t.rooms));
+  });
+});
+
+describe('room ranges', () => {
+  const rooms = DEFAULT_UNIT_CONFIG.rooms;
+
+  it('expands ranges and single rooms in room-list order', () => {
+    expect(expandRoomRanges('501-503, 510', rooms)).toEqual(['501', '502', '503', '510']);
+    expect(expandRoomRanges('503-501', rooms)).toEqual(['501', '502', '503']);
+  });
+
+  it('skips rooms that are not on the unit', () => {
+    expect(expandRoomRanges('540, 501', rooms)).toEqual(['501']);
+    expect(findUnknownRooms('501-503, 540', rooms)).toEqual(['540']);
+  });
+
+  it('collapses rooms back into ranges', () => {
+    expect(formatRoomRanges(['503', '501', '502', '510'], rooms)).toBe('501-503, 510');
+  });
+});
+
+describe('parseRoomAssignments', () => {
+  it('reads "Name: rooms" and "Name rooms" lines', () => {
+    expect(parseRoomAssignments('#7520: 501-516\nSmith 517-532\nJones')).toEqual([
+      { staff: '#7520', rooms: '501-516' },
+      { staff: 'Smith', rooms: '517-532' },
+      { staff: 'Jones', rooms: '' },
+    ]);
+  });
+
+  it('round-trips through formatRoomAssignments, dropping blank rows', () => {
+    const text = '#7520: 501-516\nJones';
+    expect(formatRoomAssignments(parseRoomAssignments(text))).toBe(text);
+    expect(formatRoomAssignments([{ staff: ' Smith ', rooms: '501' }, { staff: '', rooms: ' ' }])).toBe('Smith: 501');
+  });
+});
+
+describe('parseTeamDefinitions', () => {
+  const rooms = DEFAULT_UNIT_CONFIG.rooms;
+
+  it('reads "NAME: rooms" lines and returns the lines it cannot use', () => {
+    const { teams, rejected } = parseTeamDefinitions('TEAM A: 501-503\n\nTEAM C 520-532\n: 504\nTEAM D: 540-545', rooms);
+    expect(teams).toEqual([{ name: 'TEAM A', rooms: ['501', '502', '503'] }]);
+    expect(rejected).toEqual(['TEAM C 520-532', ': 504', 'TEAM D: 540-545']);
+  });
+});
@@ -0,0 +1,258 @@
+import { AssignmentRow, Roster, RoomAssignment, UnitConfig, UnitTeam } from '../types';
+
+const numberedRooms = (first: number, count: number): string[] =>
+  Array.from({ length: count }, (_, i) => (first + i).toString());
+
+export const DEFAULT_UNIT_CONFIG: UnitConfig = {
+  unitName: 'ADVENT HEALTH DAYTONA BEACH ICU',
+  rooms: numberedRooms(501, 32),
+  teams: [
+    { name: 'TEAM A', rooms: numberedRooms(501, 16) },
+    { name: 'TEAM B', rooms: numberedRooms(517, 16) },
+  ],
+  defaultPcts: '#7520: 501-516\n#7521: 517-532',
+  defaultChargeNurse: '#7501',
+};
+
+// Room labels are compared case- and whitespace-insensitively ("510 a" === "510A").
+export function normalizeRoomLabel(text: string): string {
+  return (text || '').replace(/\s+/g, '').toUpperCase();
+}
+
+// Team names are matched case- and whitespace-insensitively ("Team a" === "TEAM A").
+export const teamKey = (name: string) => (name || '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+export function createBlankAssignment(room: string): AssignmentRow {
+  return {
+    room,
+    prec: '',
+    patient: '',
+    mrn: '',
+    status: '',
+    rnDay: '',
+    extDay: '',
+    rnNight: '',
+    extNight: '',
+  };
+}
+
+export function createBlankAssignments(config: UnitConfig): AssignmentRow[] {
+  return config.rooms.map(createBlankAssignment);
+}
+
+/**
+ * Finds the position of a room in the unit's room list. Falls back to the
+ * leading room token of the text so cells like "512 (iso)" still match.
+ * Returns -1 when the room does not belong to the unit.
+ */
+export function findRoomIndex(config: UnitConfig, roomText: string): number {
+  const normalized = normalizeRoomLabel(roomText);
+  if (!normalized) return -1;
+
+  const normalizedRooms = config.rooms.map(normalizeRoomLabel);
+  const exact = normalizedRooms.indexOf(normalized);
+  if (exact !== -1) return exact;
+
+  const leadingToken = (roomText || '').trim().toUpperCase().match(/^[0-9]+[A-Z]?\b/);
+  return leadingToken ? normalizedRooms.indexOf(leadingToken[0]) : -1;
+}
+
+/**
+ * Returns the rooms after which a team divider should be drawn, i.e. the last
+ * room of every team except the final one in room-list order.
+ */
+export function getTeamDividerRooms(config: UnitConfig): Set<string> {
+  const normalizedRooms = config.rooms.map(normalizeRoomLabel);
+  const lastIndices = config.teams
+    .map(team => Math.max(...team.rooms.map(r => normalizedRooms.indexOf(normalizeRoomLabel(r)))))
+    .filter(index => index >= 0)
+    .sort((a, b) => a - b);
+
+  lastIndices.pop();
+  return new Set(lastIndices.map(index => config.rooms[index]));
+}
+
+// Splits free text ("501, 502\n510A") into a de-duplicated list of room labels.
+export function parseRoomList(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\s,;]+/)
+    .map(r => r.trim().toUpperCase())
+    .filter(r => {
+      if (!r || seen.has(r)) return false;
+      seen.add(r);
+      return true;
+    });
+}
+
+/**
+ * Expands a range expression such as "501-516, 520A" against the room list.
+ * Ranges follow room-list order, so non-numeric rooms inside a range are included.
+ */
+export function expandRoomRanges(expression: string, rooms: string[]): string[] {
+  const normalizedRooms = rooms.map(normalizeRoomLabel);
+  const result: string[] = [];
+
+  expression.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [startText, endText] = part.split('-').map(p => p.trim());
+    const start = normalizedRooms.indexOf(normalizeRoomLabel(startText));
+    const end = endText !== undefined ? normalizedRooms.indexOf(normalizeRoomLabel(endText)) : start;
+    if (start === -1 || end === -1) return;
+    for (let i = Math.min(start, end); i <= Math.max(start, end); i++) {
+      if (!result.includes(rooms[i])) result.push(rooms[i]);
+    }
+  });
+
+  return result;
+}
+
+// Collapses a team's rooms back into compact ranges based on room-list order.
+export function formatRoomRanges(teamRooms: string[], rooms: string[]): string {
+  const indices = teamRooms
+    .map(r => rooms.indexOf(r))
+    .filter(i => i !== -1)
+    .sort((a, b) => a - b);
+
+  const ranges: string[] = [];
+  let rangeStart = -1;
+  indices.forEach((index, i) => {
+    if (rangeStart === -1) rangeStart = index;
+    const next = indices[i + 1];
+    if (next !== index + 1) {
+      ranges.push(rangeStart === index ? rooms[index] : `${rooms[rangeStart]}-${rooms[index]}`);
+      rangeStart = -1;
+    }
+  });
+  return ranges.join(', ');
+}
+
+export const createRoomAssignment = (): RoomAssignment => ({ staff: '', rooms: '' });
+
+/**
+ * Parses staff-to-rooms text written one person per line as "#7520: 501-516". A line
+ * without a colon is split before its first room number ("Smith 501-516"); a line
+ * with no rooms at all is kept as a person with no rooms.
+ */
+export function parseRoomAssignments(text: string): RoomAssignment[] {
+  return (text || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(/^(.+?)\s*:\s*(.*)$/) ?? line.match(/^(.+?)\s+(\d.*)$/);
+      return match ? { staff: match[1].trim(), rooms: match[2].trim() } : { staff: line, rooms: '' };
+    });
+}
+
+// The inverse of `parseRoomAssignments`; blank rows from the editor are dropped.
+export function formatRoomAssignments(assignments: RoomAssignment[]): string {
+  return assignments
+    .map(({ staff, rooms }) => ({ staff: staff.trim(), rooms: rooms.trim() }))
+    .filter(({ staff, rooms }) => staff || rooms)
+    .map(({ staff, rooms }) => (rooms ? `${staff}: ${rooms}` : staff))
+    .join('\n');
+}
+
+// Parts of a room range expression that name no room in `rooms`, e.g. "540" on a 32-bed unit.
+export function findUnknownRooms(expression: string, rooms: string[]): string[] {
+  return expression
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part && expandRoomRanges(part, rooms).length === 0);
+}
+
+/** Who covers each room in staff-to-rooms text, keyed by normalized room label. Rooms nobody covers are absent. */
+export function mapRoomCoverage(text: string, rooms: string[]): Map<string, string[]> {
+  const coverage = new Map<string, string[]>();
+  parseRoomAssignments(text).forEach(({ staff, rooms: expression }) => {
+    expandRoomRanges(expression, rooms).forEach(room => {
+      const key = normalizeRoomLabel(room);
+      const covering = coverage.get(key) ?? [];
+      if (!covering.includes(staff)) covering.push(staff);
+      coverage.set(key, covering);
+    });
+  });
+  return coverage;
+}
+
+export interface TeamDefinitions {
+  teams: UnitTeam[];
+  // Lines that are not "NAME: rooms" or name no room on the unit, e.g. "TEAM C 520-532".
+  rejected: string[];
+}
+
+// Parses team definitions written one per line as "TEAM A: 501-516".
+export function parseTeamDefinitions(text: string, rooms: string[]): TeamDefinitions {
+  const teams: UnitTeam[] = [];
+  const rejected: string[] = [];
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .forEach(line => {
+      const separator = line.indexOf(':');
+      const name = separator === -1 ? '' : line.slice(0, separator).trim();
+      const teamRooms = separator === -1 ? [] : expandRoomRanges(line.slice(separator + 1), rooms);
+      if (name && teamRooms.length > 0) teams.push({ name, rooms: teamRooms });
+      else rejected.push(line);
+    });
+  return { teams, rejected };
+}
+
+export function formatTeamDefinitions(config: UnitConfig): string {
+  return config.teams.map(team => `${team.name}: ${formatRoomRanges(team.rooms, config.rooms)}`).join('\n');
+}
+
+/**
+ * Validates a unit configuration, returning a list of human-readable problems.
+ * An empty list means the configuration is usable.
+ */
+export function validateUnitConfig(config: UnitConfig): string[] {
+  const problems: string[] = [];
+  if (!config.unitName.trim()) problems.push('Unit name is required.');
+  if (config.rooms.length === 0) problems.push('At least one room is required.');
+
+  const assigned = new Map<string, string>();
+  config.teams.forEach(team => {
+    team.rooms.forEach(room => {
+      const owner = assigned.get(room);
+      if (owner) problems.push(`Room ${room} is in both ${owner} and ${team.name}.`);
+      else assigned.set(room, team.name);
+    });
+  });
+
+  return problems;
+}
+
+/**
+ * Re-shapes a roster's assignments to match the unit's room list. Existing rows
+ * are kept by room; rows for rooms no longer in the unit are kept at the end
+ * when they still hold data, so changing the layout never discards entries.
+ * Teams are matched by name: a roster team keeps its own rooms (those still in the
+ * unit) and team leads, and a new team or one left with no rooms takes the unit's rooms.
+ */
+export function alignRosterToUnit(roster: Roster, config: UnitConfig): Roster {
+  const byRoom = new Map(roster.assignments.map(row => [normalizeRoomLabel(row.room), row]));
+  const configured = new Set(config.rooms.map(normalizeRoomLabel));
+
+  const assignments = config.rooms.map(room => byRoom.get(normalizeRoomLabel(room)) ?? createBlankAssignment(room));
+  const leftovers = roster.assignments.filter(row => {
+    if (configured.has(normalizeRoomLabel(row.room))) return false;
+    const { room, ...fields } = row;
+    return Object.values(fields).some(value => value && value.trim() !== '');
+  });
+
+  const teamsByName = new Map((roster.teams ?? []).map(team => [teamKey(team.name), team]));
+  const teams = config.teams.map(team => {
+    const existing = teamsByName.get(teamKey(team.name));
+    const keptRooms = (existing?.rooms ?? []).filter(room => configured.has(normalizeRoomLabel(room)));
+    return {
+      name: team.name,
+      rooms: keptRooms.length > 0 ? keptRooms : [...team.rooms],
+      chargeNurses: existing ? { ...existing.chargeNurses } : { day: '', night: '' },
+      pcts: existing ? { ...existing.pcts } : { day: '', night: '' },
+    };
+  });
+
+  return { ...roster, assignments: [...assignments, ...leftovers], teams };
+}
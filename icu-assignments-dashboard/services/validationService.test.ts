@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { validateRoster } from './validationService';
+import { buildStaffIndex, createStaffMember } from './staffService';
+import { makeRoster } from './testFixtures';
+
+const smith = { ...createStaffMember('Smith'), badgeNumber: '#7501' };
+const staffIndex = buildStaffIndex([smith]);
+
+const rosterWithCharge = (charge: string) => makeRoster('2026-01-05', [
+  { patient: 'A', rnDay: 'Smith' },
+  { patient: 'B', rnDay: 'Smith' },
+], { chargeNurses: { day: charge, night: '' } });
+
+const ruleIds = (violations: { ruleId: string }[]) => violations.map(v => v.ruleId);
+
+describe('charge-full-assignment', () => {
+  it('resolves a badge in the charge cell through the staff directory', () => {
+    const violations = validateRoster(rosterWithCharge('#7501'), undefined, staffIndex);
+    expect(ruleIds(violations)).toContain('charge-full-assignment');
+  });
+
+  it('still matches a charge nurse written by name', () => {
+    expect(ruleIds(validateRoster(rosterWithCharge('smith')))).toContain('charge-full-assignment');
+  });
+
+  it('ignores badges that are not in the directory and empty charge cells', () => {
+    expect(ruleIds(validateRoster(rosterWithCharge('#7599'), undefined, staffIndex))).not.toContain('charge-full-assignment');
+    expect(ruleIds(validateRoster(rosterWithCharge(''), undefined, staffIndex))).not.toContain('charge-full-assignment');
+  });
+});
+
+describe('occupied-without-pct', () => {
+  const withPcts = (pctsDay: string) => makeRoster('2026-01-05', [
+    { patient: 'A', rnDay: 'Smith' },
+    { patient: 'B', rnDay: 'Smith' },
+  ], { pctsDay });
+  const dayPctWarnings = (violations: { ruleId: string; message: string }[]) =>
+    violations.filter(v => v.ruleId === 'occupied-without-pct' && v.message.includes('(Days)'));
+
+  it('skips PCT lists of names alone, which give no rooms to check', () => {
+    expect(dayPctWarnings(validateRoster(withPcts('#7520 / #7521')))).toEqual([]);
+  });
+
+  it('still flags occupied rooms when no PCT is listed or the ranges miss them', () => {
+    expect(dayPctWarnings(validateRoster(withPcts('')))).toHaveLength(2);
+    expect(dayPctWarnings(validateRoster(withPcts('#7520: 501')))).toHaveLength(1);
+  });
+});
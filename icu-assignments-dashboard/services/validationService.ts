@@ -0,0 +1,238 @@
+import { Roster, AssignmentRow, NurseAliasTable, RosterViolation, Shift, StaffMember, ViolationCell, ViolationSeverity } from '../types';
+import { isOneToOneStatus } from './statsService';
+import { parsePrecautions, hasInfectiousPrecaution, hasProtectivePrecaution } from './precautionService';
+import { parseExtension } from './extensionService';
+import { hasPctRoomRanges, pctTextFor } from './pctService';
+import { hasRtRoomRanges, isVentilated, mapRtCoverage, rtTextFor } from './respiratoryService';
+import { mapRoomCoverage, normalizeRoomLabel } from './unitConfigService';
+import { resolveStaffName } from './staffService';
+
+export interface ValidationOptions {
+  maxPatientsPerNurse: number;
+  // A charge nurse with this many patients or more is considered to have a full assignment.
+  // The default of 2 is a full ICU assignment (the usual 1:2 ICU ratio, e.g. California's
+  // mandated minimum), which leaves the charge nurse no room for admissions or rapid responses.
+  chargeFullAssignment: number;
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+  maxPatientsPerNurse: 3,
+  chargeFullAssignment: 2,
+};
+
+type ShiftField = 'rnDay' | 'rnNight';
+
+const SHIFTS: { field: ShiftField; ext: 'extDay' | 'extNight'; label: string; charge: 'day' | 'night' }[] = [
+  { field: 'rnDay', ext: 'extDay', label: 'Days', charge: 'day' },
+  { field: 'rnNight', ext: 'extNight', label: 'Nights', charge: 'night' },
+];
+
+export const SEVERITY_ORDER: Record<ViolationSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// Names are compared case-insensitively so "smith" and "Smith" are the same nurse.
+const nurseKey = (name: string) => (name || '').trim().toLowerCase();
+const hasText = (value: string) => !!value && value.trim() !== '';
+
+interface ShiftAssignment {
+  name: string;
+  rows: number[];
+  patientRows: number[];
+  oneToOneRows: number[];
+  // Patients in protective (neutropenic) isolation and patients isolated for an infection.
+  protectiveRows: number[];
+  infectiousRows: number[];
+}
+
+function groupByNurse(assignments: AssignmentRow[], field: ShiftField): Map<string, ShiftAssignment> {
+  const nurses = new Map<string, ShiftAssignment>();
+  assignments.forEach((row, rowIndex) => {
+    const key = nurseKey(row[field]);
+    if (!key) return;
+    if (!nurses.has(key)) nurses.set(key, { name: row[field].trim(), rows: [], patientRows: [], oneToOneRows: [], protectiveRows: [], infectiousRows: [] });
+    const entry = nurses.get(key)!;
+    entry.rows.push(rowIndex);
+    if (hasText(row.patient)) {
+      entry.patientRows.push(rowIndex);
+      if (isOneToOneStatus(row.status)) entry.oneToOneRows.push(rowIndex);
+      const precautions = parsePrecautions(row.prec);
+      if (hasProtectivePrecaution(precautions)) entry.protectiveRows.push(rowIndex);
+      if (hasInfectiousPrecaution(precautions)) entry.infectiousRows.push(rowIndex);
+    }
+  });
+  return nurses;
+}
+
+const cellsFor = (rows: number[], field: keyof AssignmentRow): ViolationCell[] => rows.map(rowIndex => ({ rowIndex, field }));
+
+/**
+ * Runs every assignment safety rule over a roster. The result is sorted by
+ * severity so the most urgent problems come first. The charge nurse cell usually
+ * holds a badge ("#7501"), so it is resolved through `staffIndex` and `aliases`
+ * before it is compared with the RN names.
+ */
+export function validateRoster(
+  roster: Roster,
+  options: ValidationOptions = DEFAULT_VALIDATION_OPTIONS,
+  staffIndex: Map<string, StaffMember> = new Map(),
+  aliases: NurseAliasTable = {},
+): RosterViolation[] {
+  const violations: RosterViolation[] = [];
+  const { assignments, chargeNurses } = roster;
+  const byShift = {
+    rnDay: groupByNurse(assignments, 'rnDay'),
+    rnNight: groupByNurse(assignments, 'rnNight'),
+  };
+
+  const staffKey = (name: string) => nurseKey(resolveStaffName(staffIndex, name, aliases));
+
+  SHIFTS.forEach(({ field, label, charge }) => {
+    const chargeKey = staffKey(chargeNurses[charge]);
+    byShift[field].forEach(nurse => {
+      const patientCount = nurse.patientRows.length;
+
+      if (nurse.oneToOneRows.length > 0 && patientCount > 1) {
+        violations.push({
+          ruleId: 'one-to-one-with-others',
+          severity: 'error',
+          message: `${nurse.name} (${label}) has a 1:1 patient and ${patientCount - 1} other patient${patientCount - 1 !== 1 ? 's' : ''}.`,
+          cells: cellsFor(nurse.patientRows, field),
+        });
+      }
+
+      if (patientCount > options.maxPatientsPerNurse) {
+        violations.push({
+          ruleId: 'over-max-patients',
+          severity: 'error',
+          message: `${nurse.name} (${label}) has ${patientCount} patients; the limit is ${options.maxPatientsPerNurse}.`,
+          cells: cellsFor(nurse.patientRows, field),
+        });
+      }
+
+      // One patient with both kinds of precaution is not a conflict; two different patients are.
+      if (nurse.protectiveRows.some(p => nurse.infectiousRows.some(i => i !== p))) {
+        const isolationRows = Array.from(new Set([...nurse.protectiveRows, ...nurse.infectiousRows]));
+        violations.push({
+          ruleId: 'protective-with-infectious',
+          severity: 'error',
+          message: `${nurse.name} (${label}) has a neutropenic patient and a patient on infectious isolation.`,
+          cells: [...cellsFor(isolationRows, 'prec'), ...cellsFor(isolationRows, field)],
+        });
+      }
+
+      if (chargeKey && staffKey(nurse.name) === chargeKey && patientCount >= options.chargeFullAssignment) {
+        violations.push({
+          ruleId: 'charge-full-assignment',
+          severity: 'warning',
+          message: `Charge nurse ${nurse.name} (${label}) is taking ${patientCount} patients.`,
+          cells: cellsFor(nurse.patientRows, field),
+        });
+      }
+    });
+  });
+
+  byShift.rnDay.forEach((dayNurse, key) => {
+    const nightNurse = byShift.rnNight.get(key);
+    if (!nightNurse) return;
+    violations.push({
+      ruleId: 'both-shifts',
+      severity: 'error',
+      message: `${dayNurse.name} is assigned on both RN DAYS and RN NIGHTS for ${roster.date}.`,
+      cells: [...cellsFor(dayNurse.rows, 'rnDay'), ...cellsFor(nightNurse.rows, 'rnNight')],
+    });
+  });
+
+  const rooms = assignments.map(row => row.room);
+  // Like RT lists, PCT text of names alone gives no rooms, so coverage cannot be checked.
+  const pctCoverageFor = (shift: Shift) =>
+    pctTextFor(roster, shift).trim() === '' || hasPctRoomRanges(roster, shift) ? mapRoomCoverage(pctTextFor(roster, shift), rooms) : null;
+  const pctCoverage = { day: pctCoverageFor('day'), night: pctCoverageFor('night') };
+  // RT lists of plain names (as on older rosters) give no rooms, so coverage cannot be checked.
+  const rtCoverageFor = (shift: Shift) =>
+    rtTextFor(roster, shift).trim() === '' || hasRtRoomRanges(roster, shift) ? mapRtCoverage(roster, shift) : null;
+  const rtCoverage = { day: rtCoverageFor('day'), night: rtCoverageFor('night') };
+
+  assignments.forEach((row, rowIndex) => {
+    SHIFTS.forEach(({ field, ext, label, charge: shift }) => {
+      const rts = rtCoverage[shift];
+      if (rts && hasText(row.patient) && isVentilated(row.status) && !rts.has(normalizeRoomLabel(row.room))) {
+        violations.push({
+          ruleId: 'vented-without-rt',
+          severity: 'warning',
+          message: `Room ${row.room} has a vented patient but no RT is assigned to the room (${label}).`,
+          cells: [{ rowIndex, field: 'status' }],
+        });
+      }
+
+      const pctMap = pctCoverage[shift];
+      const pcts = pctMap?.get(normalizeRoomLabel(row.room)) ?? [];
+      if (pctMap && pcts.length > 1) {
+        violations.push({
+          ruleId: 'room-with-two-pcts',
+          severity: 'warning',
+          message: `Room ${row.room} is covered by ${pcts.length} PCTs (${label}): ${pcts.join(', ')}.`,
+          cells: [{ rowIndex, field: 'room' }],
+        });
+      } else if (pctMap && pcts.length === 0 && hasText(row.patient)) {
+        violations.push({
+          ruleId: 'occupied-without-pct',
+          severity: 'warning',
+          message: `Room ${row.room} is occupied but no PCT covers it (${label}).`,
+          cells: [{ rowIndex, field: 'room' }],
+        });
+      }
+
+      if (hasText(row[ext])) {
+        const { unrecognized } = parseExtension(row[ext]);
+        if (unrecognized.length > 0) {
+          violations.push({
+            ruleId: 'unrecognized-extension',
+            severity: 'warning',
+            message: `EXT ${label.toUpperCase()} for room ${row.room} has "${unrecognized.join('; ')}"; use a phone extension, hours extended (+2h) or extra staff (+Name).`,
+            cells: [{ rowIndex, field: ext }],
+          });
+        }
+        if (!hasText(row[field])) {
+          violations.push({
+            ruleId: 'extension-without-rn',
+            severity: 'info',
+            message: `EXT ${label.toUpperCase()} for room ${row.room} is filled in but there is no RN ${label.toUpperCase()}.`,
+            cells: [{ rowIndex, field: ext }],
+          });
+        }
+      }
+
+      if (hasText(row.patient) && !hasText(row[field])) {
+        violations.push({
+          ruleId: 'occupied-without-rn',
+          severity: 'warning',
+          message: `Room ${row.room} is occupied but has no RN ${label.toUpperCase()}.`,
+          cells: [{ rowIndex, field }],
+        });
+      } else if (!hasText(row.patient) && hasText(row[field])) {
+        violations.push({
+          ruleId: 'rn-on-empty-room',
+          severity: 'info',
+          message: `${row[field].trim()} (${label}) is assigned to empty room ${row.room}.`,
+          cells: [{ rowIndex, field }],
+        });
+      }
+    });
+  });
+
+  return violations.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Indexes violations by cell ("rowIndex:field") for inline highlighting.
+ */
+export function indexViolationsByCell(violations: RosterViolation[]): Map<string, RosterViolation[]> {
+  const index = new Map<string, RosterViolation[]>();
+  violations.forEach(violation => {
+    violation.cells.forEach(({ rowIndex, field }) => {
+      const key = `${rowIndex}:${field}`;
+      if (!index.has(key)) index.set(key, []);
+      index.get(key)!.push(violation);
+    });
+  });
+  return index;
+}
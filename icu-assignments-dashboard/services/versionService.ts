@@ -0,0 +1,40 @@
+import { Roster, RosterVersion } from '../types';
+
+let versionCounter = 0;
+
+export function createRosterVersion(roster: Roster, reason: string): RosterVersion {
+  versionCounter++;
+  return {
+    id: `${roster.date}-${Date.now()}-${versionCounter}`,
+    date: roster.date,
+    replacedAt: new Date().toISOString(),
+    reason,
+    roster,
+  };
+}
+
+export interface RollbackResult {
+  historicalRosters: Roster[];
+  // The roster that was current for that date, archived so the rollback can itself be undone.
+  archived: RosterVersion | null;
+}
+
+/**
+ * Makes an archived version the current roster for its date. The roster it displaces
+ * is archived in turn; the caller removes the restored version from the archive.
+ */
+export function rollbackToVersion(historicalRosters: Roster[], version: RosterVersion): RollbackResult {
+  const current = historicalRosters.find(r => r.date === version.date);
+  const archived = current
+    ? createRosterVersion(current, `Replaced by rollback to the version from ${new Date(version.replacedAt).toLocaleString()}`)
+    : null;
+
+  return {
+    historicalRosters: [...historicalRosters.filter(r => r.date !== version.date), version.roster]
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    archived,
+  };
+}
+
+export const versionsForDate = (versions: RosterVersion[], date: string) =>
+  versions.filter(v => v.date === date).sort((a, b) => b.replacedAt.localeCompare(a.replacedAt));
@@ -25,20 +25,183 @@ export interface Roster {
     day: string[];
     night: string[];
   };
-  respiratory: string[];
+  // RTs per shift, one per line as "Jones: 501-516". Rosters from before the split have the same list on both shifts.
+  respiratory: {
+    day: string[];
+    night: string[];
+  };
+  // The unit's teams as staffed on this day; empty on rosters saved before teams were tracked.
+  teams: RosterTeam[];
+}
+
+// A team/pod on one roster with its rooms and, optionally, its own charge/resource nurse and PCT per shift.
+export interface RosterTeam {
+  name: string;
+  rooms: string[];
+  chargeNurses: {
+    day: string;
+    night: string;
+  };
+  pcts: {
+    day: string;
+    night: string;
+  };
 }
 
 // Statistics for a single nurse.
+// Stats are kept per nurse and shift; a "combined" entry sums both shifts for one nurse.
 export interface NurseStats {
   name: string;
+  shift: ShiftView;
   patientCount: number;
+  patientCountsByShift: Record<Shift, number>;
   patients: {
     room: string;
     patient: string;
+    date: string;
+    shift: Shift;
   }[];
   isTriple: boolean;
   isOneToOne: boolean;
   isFloat: boolean;
   isHighAssignment: boolean;
-  chargeNurse?: string;
+  acuityScore: number;
+  // Patients with any precaution in their PREC cell.
+  isolationPatientCount: number;
+  // From the EXT cells: shifts that ran late, the hours they ran over, and who came to help.
+  extendedShifts: number;
+  hoursExtended: number;
+  extraStaff: string[];
+  // Charge nurses in charge while this nurse worked the shift(s) counted here.
+  chargeNurses: string[];
+  // How many shifts are counted here and how many of them were triples or included a 1:1.
+  shiftsWorked: number;
+  tripleShifts: number;
+  oneToOneShifts: number;
+  // Acuity score of each shift counted here, in roster order.
+  shiftAcuityScores: number[];
+}
+
+// A team/pod within the unit and the rooms it covers, in room-list order.
+export interface UnitTeam {
+  name: string;
+  rooms: string[];
+}
+
+// Describes the physical layout of a unit so the roster, parser and grid
+// are not tied to a single ICU.
+export interface UnitConfig {
+  unitName: string;
+  rooms: string[];
+  teams: UnitTeam[];
+  defaultPcts: string;
+  defaultChargeNurse: string;
+}
+
+// Maps STATUS keywords (e.g. "vent", "CRRT") to acuity points.
+export interface AcuityRule {
+  label: string;
+  keywords: string[];
+  points: number;
+}
+
+// Every occupied bed scores `basePoints`, plus the points of each matching rule.
+export interface AcuityTable {
+  basePoints: number;
+  rules: AcuityRule[];
+}
+
+export type ViolationSeverity = 'error' | 'warning' | 'info';
+
+// A grid cell referenced by a rule violation.
+export interface ViolationCell {
+  rowIndex: number;
+  field: keyof AssignmentRow;
+}
+
+// A single problem found by the roster rule checker.
+export interface RosterViolation {
+  ruleId: string;
+  severity: ViolationSeverity;
+  message: string;
+  cells: ViolationCell[];
+}
+
+export type Shift = 'day' | 'night';
+
+// Which shift the dashboard is showing.
+export type ShiftView = Shift | 'combined';
+
+// A proposed change to one RN cell, shown as a diff before it is applied.
+export interface AssignmentSuggestion {
+  rowIndex: number;
+  room: string;
+  field: 'rnDay' | 'rnNight';
+  from: string;
+  to: string;
+}
+
+// A historical roster that was superseded (e.g. by a corrected re-import), kept for rollback.
+export interface RosterVersion {
+  id: string;
+  date: string;
+  replacedAt: string;
+  reason: string;
+  roster: Roster;
+}
+
+// Maps a normalized nurse name (see `normalizeNurseKey`) to the canonical name it stands for.
+export type NurseAliasTable = Record<string, string>;
+
+export type StaffRole = 'RN' | 'PCT' | 'RT' | 'Float Pool' | 'Travel';
+
+// A person in the staff directory. `badgeNumber` is the "#7501"-style employee ID.
+export interface StaffMember {
+  id: string;
+  name: string;
+  badgeNumber: string;
+  role: StaffRole;
+  fte: number | null;
+  credentials: string[];
+}
+
+// Inclusive range of roster dates, both ends YYYY-MM-DD.
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export type DateRangePreset = 'all' | 'last-7' | 'last-14' | 'last-30' | 'this-month' | 'last-month' | 'custom';
+
+// 'previous' compares against the period of the same length just before the selected range.
+export type ComparisonMode = 'none' | 'previous' | 'custom';
+
+export interface DateRangeSelection {
+  preset: DateRangePreset;
+  customRange: DateRange;
+  comparison: ComparisonMode;
+  customComparison: DateRange;
+}
+
+// Isolation precautions recognised in the PREC column.
+export type PrecautionCode = 'contact' | 'droplet' | 'airborne' | 'enteric' | 'neutropenic';
+
+// What an EXT cell records for the RN in the same row and shift. Parts are separated by
+// ";" or new lines, e.g. "4521; +2h; help: Smith, J".
+export interface ExtensionEntry {
+  // The nurse's phone extension, e.g. "4521" or "x4521".
+  phone: string;
+  // Hours the shift ran past its scheduled end, e.g. "+2h" or "ext 1.5 hrs"; 0 if not extended.
+  hoursExtended: number;
+  // Extra or support staff helping with the assignment, e.g. "+Jones" or "help: Jones".
+  extraStaff: string[];
+  // Parts that match none of the above; the grid flags these.
+  unrecognized: string[];
+}
+
+// One line of staff-to-rooms text, such as a roster's PCTs ("#7520: 501-516") or RTs.
+export interface RoomAssignment {
+  staff: string;
+  // Room ranges as written, e.g. "501-516, 520".
+  rooms: string;
 }